@@ -1,33 +1,50 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { FileUploader } from './components/FileUploader';
 import { StatusLog } from './components/StatusLog';
 import { DataTable } from './components/DataTable';
 import { Dashboard } from './components/Dashboard';
 import { DetailsModal } from './components/DetailsModal';
-import { generateMergedExcel, generateWordReports, readDataFileForReporting, normalizeString } from './services/fileProcessor';
-import { LogEntry, LogType, DashboardStats, MergedData, CategorizedProjects } from './types';
-import { DownloadCloud, FileText, Combine, BarChart2, Sheet } from 'lucide-react';
+import { ReconciliationPanel } from './components/ReconciliationPanel';
+import { ColumnMappingWizard } from './components/ColumnMappingWizard';
+import { SheetPicker } from './components/SheetPicker';
+import { BatchPairList } from './components/BatchPairList';
+import { ValidationPanel } from './components/ValidationPanel';
+import { PolicyEditor } from './components/PolicyEditor';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ProgressPanel } from './components/ProgressPanel';
+import { WorkingCalendarEditor } from './components/WorkingCalendarEditor';
+import { ReportNamingOptions } from './components/ReportNamingOptions';
+import { TemplateInspectionPanel } from './components/TemplateInspectionPanel';
+import { TemplateLibrary } from './components/TemplateLibrary';
+import { ReportPreview } from './components/ReportPreview';
+import { BatchMetadataForm } from './components/BatchMetadataForm';
+import { MailMergeOptions } from './components/MailMergeOptions';
+import { ReportVerifier } from './components/ReportVerifier';
+import { buildMergedWorkbook, buildReportTemplateData, MERGED_EXPORT_FORMATS, inspectFileColumns, listWorkbookSheets, summarizeInputFile } from './services/fileProcessor';
+import { buildMergedData, countPendingIssues } from './services/matching';
+import { createMappingProfile } from './services/columnMapping';
+import { pairBatchFiles } from './services/batchMerge';
+import { runWorkerJob, isCancelledError } from './services/workerClient';
+import { SUPPLEMENTARY_ADAPTERS } from './services/supplementaryAdapters';
+import { loadMappingProfiles, saveMappingProfile, deleteMappingProfile } from './services/mappingProfiles';
+import { describeNumberReadings } from './services/numberParser';
+import { loadConclusionPolicies, saveConclusionPolicyVersion, deleteConclusionPolicy, getEffectivePolicy, getDocumentType, suggestDocumentType, categorizeProjects, buildDashboardStats, findChapterViolations, todayIsoDate, assessProject, CONCLUSION_LABELS } from './services/conclusionPolicy';
+import { DEFAULT_REPORT_NAMING } from './services/reportNaming';
+import { summarizeSupervisors, describeClassificationChanges } from './services/batchSummary';
+import { loadBatchMetadata, saveBatchMetadata, formatReportNumber } from './services/batchMetadata';
+import { loadMailTemplate, saveMailTemplate, findMissingRecipients, MAIL_FOLDER } from './services/mailMerge';
+import { loadSigningKey, exportSigningKey, importSigningKey, getSigningKeyId, MANIFEST_FILE_NAME, SIGNING_KEY_FILE_NAME } from './services/reportIntegrity';
+import { inspectWordTemplate, TEMPLATE_FIELDS, SUMMARY_TEMPLATE_FIELDS } from './services/templateInspector';
+import { listLibraryTemplates, addLibraryTemplate, updateLibraryTemplate, setDefaultLibraryTemplate, deleteLibraryTemplate, loadLibraryTemplateFile, findDefaultTemplate, exportTemplateBundle, importTemplateBundle } from './services/templateLibrary';
+import { loadWorkingCalendar, saveWorkingCalendar, addWorkingDays, formatReportDate } from './services/workingCalendar';
+import { loadCheckRounds, saveCheckRound, deleteCheckRound, buildCheckRound, linkProjectHistory, suggestCheckRound } from './services/checkHistory';
+import { validateMergedData, getBlockingIssues, applyFieldFix, scaleRowRatios, buildIssueReportWorkbook, recordValueFix, reapplyValueFixes } from './services/validation';
+import { LogEntry, LogType, MergedData, ReconciliationResult, ColumnInspection, ColumnMapping, MappingProfile, MappingRole, SheetInfo, BatchFilePair, BatchPairResult, TopicFillMode, SupplementaryLayout, JobProgress, WorkerJob, WorkerJobResults, ConclusionCategory, ConclusionPolicy, CheckRound, WorkingCalendar, AssessmentContext, ReportNaming, TemplateInspection, IssueSeverity, LibraryTemplate, LibraryTemplateDetails, BatchMetadata, SupervisorSummary, MailTemplate, MergedExportFormat, ClassificationSnapshot, ValueFix } from './types';
+import { DownloadCloud, FileText, Combine, BarChart2, Sheet, Files } from 'lucide-react';
 import saveAs from 'file-saver';
 
-type ConclusionCategory = keyof Omit<DashboardStats, 'totalProjects' | 'totalStudents'>;
-
-const getConclusionCategory = (tv: number, projectType: 'ĐATN' | 'BCCĐ', isFirstCheck: boolean): ConclusionCategory => {
-    if (projectType === 'ĐATN') {
-        if (tv < 25) return 'withinLimit';
-        if (tv >= 25 && tv <= 35) return isFirstCheck ? 'l1Edit' : 'l2Process';
-        // tv > 35
-        return isFirstCheck ? 'l1Edit' : 'l2Exceeded';
-    } else { // BCCĐ
-        if (tv < 30) return 'withinLimit';
-        if (tv >= 30 && tv <= 40) return isFirstCheck ? 'l1Edit' : 'l2Process';
-        // tv > 40
-        return isFirstCheck ? 'l1Edit' : 'l2Exceeded';
-    }
-};
-
-
 const App: React.FC = () => {
     // Files for merging step
     const [mainFile, setMainFile] = useState<File | null>(null);
@@ -36,71 +53,535 @@ const App: React.FC = () => {
     // Files for report generation step
     const [reportDataFile, setReportDataFile] = useState<File | null>(null);
     const [wordTemplateFile, setWordTemplateFile] = useState<File | null>(null);
+    const [templateInspection, setTemplateInspection] = useState<TemplateInspection | null>(null);
+    const [libraryTemplates, setLibraryTemplates] = useState<LibraryTemplate[]>([]);
+    const [libraryTemplateId, setLibraryTemplateId] = useState<string | null>(null); // null when the template was uploaded directly
+    const [summaryTemplateFile, setSummaryTemplateFile] = useState<File | null>(null);
+    const [summaryInspection, setSummaryInspection] = useState<TemplateInspection | null>(null);
 
     const [logs, setLogs] = useState<LogEntry[]>([]);
     const [mergedData, setMergedData] = useState<MergedData[] | null>(null);
-    const [dashboardStats, setDashboardStats] = useState<DashboardStats | null>(null);
-    const [categorizedProjects, setCategorizedProjects] = useState<CategorizedProjects | null>(null);
+    // What the last downloaded reports ZIP was generated from
+    const [lastReportSnapshot, setLastReportSnapshot] = useState<{ snapshot: ClassificationSnapshot, downloadedAt: Date } | null>(null);
     const [modalData, setModalData] = useState<{title: string, data: MergedData[]}|null>(null);
+    const [reconciliation, setReconciliation] = useState<ReconciliationResult | null>(null);
+
+    // Column mapping step
+    const [inspections, setInspections] = useState<Partial<Record<MappingRole, ColumnInspection>>>({});
+    const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+    const [faculty, setFaculty] = useState('');
+
+    // Worksheets of each uploaded workbook and the ones chosen for import
+    const [sheetLists, setSheetLists] = useState<Partial<Record<MappingRole, SheetInfo[]>>>({});
+    const [selectedSheets, setSelectedSheets] = useState<Partial<Record<MappingRole, string[]>>>({});
+
+    // Batch mode: many main/supplementary files merged in one run
+    const [isBatchMode, setIsBatchMode] = useState(false);
+    const [batchFiles, setBatchFiles] = useState<File[]>([]);
+    const [batchPairs, setBatchPairs] = useState<BatchFilePair[]>([]);
+    const [unpairedFiles, setUnpairedFiles] = useState<File[]>([]);
+    const [batchResults, setBatchResults] = useState<BatchPairResult[] | null>(null);
+    const [topicFill, setTopicFill] = useState<TopicFillMode>('merges');
+    const [mergedExportFormat, setMergedExportFormat] = useState<MergedExportFormat>('xlsx');
+    const [suppLayout, setSuppLayout] = useState<SupplementaryLayout | ''>(''); // '' = detect from the headers
+
+    // Validation: errors the user chose to ignore, and the data file whose rows (and fixes) are in mergedData
+    const [overriddenIssueIds, setOverriddenIssueIds] = useState<string[]>([]);
+    const [loadedReportFile, setLoadedReportFile] = useState<File | null>(null);
+    // Values typed in the validation view for merged data, re-applied whenever it is rebuilt from the reconciliation
+    const [valueFixes, setValueFixes] = useState<ValueFix[]>([]);
+    const validationIssues = useMemo(() => mergedData ? validateMergedData(mergedData) : [], [mergedData]);
 
     const [isProcessing, setIsProcessing] = useState(false);
+    const [progress, setProgress] = useState<JobProgress | null>(null);
+    const cancelJobRef = useRef<(() => void) | null>(null);
     const [activeView, setActiveView] = useState('files');
-    const [isFirstCheck, setIsFirstCheck] = useState(true);
-    const [projectType, setProjectType] = useState<'ĐATN' | 'BCCĐ'>('ĐATN');
+    const [checkRound, setCheckRound] = useState(1);
+    const [checkRounds, setCheckRounds] = useState<CheckRound[]>(() => loadCheckRounds());
+    const [projectType, setProjectType] = useState('ĐATN');
+    const [policies, setPolicies] = useState<ConclusionPolicy[]>(() => loadConclusionPolicies());
+    const [checkDate, setCheckDate] = useState(() => todayIsoDate());
+    const [selectedPolicyId, setSelectedPolicyId] = useState(''); // '' = the policy in force on checkDate
+    const activePolicy = useMemo(
+        () => policies.find(p => p.id === selectedPolicyId) || getEffectivePolicy(policies, checkDate),
+        [policies, selectedPolicyId, checkDate]
+    );
+    // The round the current data would be, judging by the saved rounds its projects appear in
+    const suggestedRound = useMemo(
+        () => mergedData ? suggestCheckRound(linkProjectHistory(mergedData, checkRounds, Infinity)) : 1,
+        [mergedData, checkRounds]
+    );
+    const [calendar, setCalendar] = useState<WorkingCalendar>(() => loadWorkingCalendar());
+    // Chapter limits, deadlines and deductions depend on the document type: a library template's own type,
+    // or for an uploaded template the type selected, which its filename only pre-fills
+    const libraryTemplate = libraryTemplates.find(t => t.id === libraryTemplateId);
+    const reportDocumentType = useMemo(
+        () => getDocumentType(activePolicy, libraryTemplate ? libraryTemplate.documentType : projectType),
+        [activePolicy, libraryTemplate, projectType]
+    );
+    const assessmentContext = useMemo<AssessmentContext>(
+        () => ({ documentType: reportDocumentType, checkRound, checkDate, calendar }),
+        [reportDocumentType, checkRound, checkDate, calendar]
+    );
+    const resubmissionDueDate = reportDocumentType.resubmissionDays ? addWorkingDays(calendar, checkDate, reportDocumentType.resubmissionDays) : '';
+    const chapterViolations = useMemo(
+        () => mergedData ? mergedData.map(row => findChapterViolations(reportDocumentType, row)) : [],
+        [mergedData, reportDocumentType]
+    );
+    // The dashboard's classification, recomputed whenever the data, round, document type or policy changes
+    const projectHistories = useMemo(
+        () => mergedData ? linkProjectHistory(mergedData, checkRounds, checkRound) : [],
+        [mergedData, checkRounds, checkRound]
+    );
+    const categorizedProjects = useMemo(
+        () => mergedData ? categorizeProjects(mergedData, reportDocumentType, checkRound, projectHistories) : null,
+        [mergedData, reportDocumentType, checkRound, projectHistories]
+    );
+    const dashboardStats = useMemo(
+        () => mergedData && categorizedProjects ? buildDashboardStats(mergedData, categorizedProjects, projectHistories) : null,
+        [mergedData, categorizedProjects, projectHistories]
+    );
+    const reportSync = useMemo(() => {
+        if (!lastReportSnapshot || !mergedData || !dashboardStats) return null;
+        const current = { data: mergedData, checkRound, documentType: reportDocumentType, policy: activePolicy, stats: dashboardStats };
+        return { downloadedAt: lastReportSnapshot.downloadedAt, changes: describeClassificationChanges(lastReportSnapshot.snapshot, current) };
+    }, [lastReportSnapshot, mergedData, checkRound, reportDocumentType, activePolicy, dashboardStats]);
+    const supervisorSummaries = useMemo(
+        () => categorizedProjects ? summarizeSupervisors(categorizedProjects) : [],
+        [categorizedProjects]
+    );
+    const [reportPerStudent, setReportPerStudent] = useState(false);
+    const [reportNaming, setReportNaming] = useState<ReportNaming>(DEFAULT_REPORT_NAMING);
+    const [batchMetadata, setBatchMetadata] = useState<BatchMetadata>(() => loadBatchMetadata());
+    const [mailEnabled, setMailEnabled] = useState(false);
+    const [mailTemplate, setMailTemplate] = useState<MailTemplate>(() => loadMailTemplate());
+    const [signingKey, setSigningKey] = useState(() => loadSigningKey());
+    const missingRecipients = useMemo(
+        () => mergedData && mailEnabled ? findMissingRecipients(mergedData, mailTemplate.recipients, reportPerStudent) : [],
+        [mergedData, mailEnabled, mailTemplate.recipients, reportPerStudent]
+    );
+    // Filename tokens of the first report, for the naming preview
+    const namingSample = useMemo(() => {
+        const row = mergedData?.[0];
+        if (!row) return undefined;
+        const student = reportPerStudent ? row.hocvien?.[0] : undefined;
+        return {
+            stt: '1'.padStart(String(mergedData.length).length, '0'),
+            hoten_hv: student ? student.hoten : row.hotenhv,
+            ma_hv: student ? student.mahv : row.hocvien?.map(s => s.mahv).filter(Boolean).join(', '),
+            ten_detai: row.tendetai,
+            nguoi_huongdan: row.nguoihuongdan,
+            ket_luan: CONCLUSION_LABELS[assessProject(assessmentContext, row).conclusion],
+            tien_to: reportDocumentType.outputPrefix || `KQ_${reportDocumentType.id}`,
+            sheet: row.tensheet,
+        };
+    }, [mergedData, reportPerStudent, assessmentContext, reportDocumentType]);
+    const [previewRowIndex, setPreviewRowIndex] = useState<number | null>(null);
+    // The data the report of the previewed row is filled with, built as generateWordReports builds it
+    const previewTemplateData = useMemo(() => {
+        const row = previewRowIndex !== null ? mergedData?.[previewRowIndex] : undefined;
+        if (!row) return null;
+        const student = reportPerStudent ? row.hocvien?.[0] : undefined;
+        const history = linkProjectHistory([row], checkRounds, checkRound)[0];
+        // The real batch id is only created when the batch is generated, so the code shown here is a sample
+        const batch = { batchId: 'XEM-TRUOC', metadata: batchMetadata, reportNumber: batchMetadata.serialStart + previewRowIndex! };
+        return buildReportTemplateData(row, student, activePolicy, assessmentContext, history, batch).templateData;
+    }, [previewRowIndex, mergedData, reportPerStudent, checkRounds, checkRound, activePolicy, assessmentContext, batchMetadata]);
     
 
     const addLog = useCallback((message: string, type: LogType) => {
         setLogs(prev => [...prev, { message, type, timestamp: new Date() }]);
     }, []);
 
-    const handleMergeExcel = async () => {
-        if (!mainFile || !supplementaryFile) {
-            addLog("Vui lòng chọn đủ File chính và File bổ sung.", LogType.Error);
+    const mappingTitles: Record<MappingRole, string> = {
+        main: 'File chính',
+        supplementary: 'File bổ sung',
+        report: 'File Dữ liệu',
+    };
+
+    const filesByRole: Record<MappingRole, File | null> = {
+        main: mainFile,
+        supplementary: supplementaryFile,
+        report: reportDataFile,
+    };
+
+    const inspectSheet = async (role: MappingRole, file: File, sheetName?: string) => {
+        try {
+            const { missingFields, ...inspection } = await inspectFileColumns(file, role, mappingProfiles, faculty, sheetName);
+            setInspections(prev => ({ ...prev, [role]: inspection }));
+            if (inspection.profileName) {
+                addLog(`${mappingTitles[role]}: áp dụng hồ sơ ghép cột "${inspection.profileName}".`, LogType.Info);
+            }
+            if (missingFields.length > 0) {
+                addLog(`${mappingTitles[role]}: không tìm thấy cột ${missingFields.map(f => `'${f}'`).join(', ')}. Vui lòng ghép cột thủ công.`, LogType.Warning);
+                setActiveView('mapping');
+            }
+        } catch (error) {
+            console.error(error);
+            addLog(`Không thể đọc tiêu đề cột của ${mappingTitles[role]}.`, LogType.Warning);
+        }
+    };
+
+    const handleFileSelect = (role: MappingRole, setFile: (file: File | null) => void) => async (file: File | null) => {
+        setFile(file);
+        if (!file) {
+            setInspections(prev => ({ ...prev, [role]: undefined }));
+            setSheetLists(prev => ({ ...prev, [role]: undefined }));
+            setSelectedSheets(prev => ({ ...prev, [role]: undefined }));
             return;
         }
+        let sheets: SheetInfo[] = [];
+        try {
+            sheets = await listWorkbookSheets(file);
+        } catch (error) {
+            console.error(error);
+        }
+        setSheetLists(prev => ({ ...prev, [role]: sheets }));
+        setSelectedSheets(prev => ({ ...prev, [role]: sheets.length > 0 ? [sheets[0].name] : undefined }));
+        if (sheets.length > 1) {
+            addLog(`${mappingTitles[role]} có ${sheets.length} sheet. Chọn các sheet cần xử lý bên dưới ô chọn file.`, LogType.Info);
+        }
+        await inspectSheet(role, file, sheets[0]?.name);
+    };
 
-        setIsProcessing(true);
-        addLog("Bắt đầu quá trình gộp file Excel/CSV...", LogType.Info);
+    const handleSheetSelectionChange = (role: MappingRole) => (selected: string[]) => {
+        setSelectedSheets(prev => ({ ...prev, [role]: selected }));
+        // The mapping step always previews the first selected sheet
+        const file = filesByRole[role];
+        if (file && selected.length > 0 && inspections[role]?.sheetName !== selected[0]) {
+            inspectSheet(role, file, selected[0]);
+        }
+    };
+
+    const renderSheetPicker = (role: MappingRole) => {
+        const sheets = sheetLists[role];
+        if (!sheets || sheets.length < 2) return null;
+        return <SheetPicker sheets={sheets} selected={selectedSheets[role] || []} onChange={handleSheetSelectionChange(role)} />;
+    };
+
+    const handleMappingChange = (role: MappingRole) => (mapping: ColumnMapping, profileName?: string) => {
+        setInspections(prev => {
+            const current = prev[role];
+            return current ? { ...prev, [role]: { ...current, mapping, profileName } } : prev;
+        });
+    };
+
+    const handleSaveProfile = (role: MappingRole) => (name: string) => {
+        const inspection = inspections[role];
+        if (!inspection) return;
+        const profile = createMappingProfile(inspection.previewRows, inspection.mapping, role, name, faculty.trim());
+        setMappingProfiles(saveMappingProfile(profile));
+        handleMappingChange(role)(inspection.mapping, name);
+        addLog(`Đã lưu hồ sơ ghép cột "${name}"${profile.faculty ? ` cho ${profile.faculty}` : ''}.`, LogType.Success);
+    };
+
+    const handleDeleteProfile = (id: string) => {
+        setMappingProfiles(deleteMappingProfile(id));
+    };
+
+    const downloadMergedExcel = (buffer: ArrayBuffer) => {
+        const { fileName, mimeType } = MERGED_EXPORT_FORMATS.find(f => f.format === mergedExportFormat)!;
+        saveAs(new Blob([buffer], { type: mimeType }), fileName);
+        addLog(`Đã tải xuống file '${fileName}'.`, LogType.Info);
+    };
+
+    const getMergeOptions = () => ({
+        inspections,
+        sheetNames: selectedSheets,
+        topicFill,
+        suppLayout: suppLayout || undefined,
+        assessment: assessmentContext,
+        policy: activePolicy,
+        format: mergedExportFormat,
+        mappingProfiles,
+        faculty,
+    });
+
+    const describeError = (error: unknown): string => {
+        let errorMessage = "Lỗi không xác định.";
+        if (error instanceof Error) {
+            // Specific check for file read errors
+            if (error.name === 'NotFoundError' || error.message.includes('file could not be read')) {
+                errorMessage = "Không thể đọc được file đã chọn. Vui lòng chọn lại file và thử lại ngay. Lỗi này thường xảy ra nếu file bị di chuyển hoặc trình duyệt mất quyền truy cập sau một thời gian.";
+            } else {
+                errorMessage = error.message;
+            }
+        }
+        return errorMessage;
+    };
+
+    const logFailure = (action: string, error: unknown) => {
+        if (isCancelledError(error)) {
+            addLog(`${action} đã bị hủy. Dữ liệu hiện có được giữ nguyên.`, LogType.Warning);
+            return;
+        }
+        console.error(error);
+        addLog(`${action} thất bại: ${describeError(error)}`, LogType.Error);
+    };
+
+    // Runs a parsing or rendering job in the background worker, showing its progress until it ends
+    const runJob = async <K extends WorkerJob['kind']>(label: string, job: Extract<WorkerJob, { kind: K }>): Promise<WorkerJobResults[K]> => {
+        setProgress({ label, done: 0, total: 0, startedAt: Date.now() });
+        const { result, cancel } = runWorkerJob(job, addLog, (done, total) => setProgress(prev => prev && { ...prev, done, total }));
+        cancelJobRef.current = cancel;
         try {
-            const { data, buffer } = await generateMergedExcel(mainFile, supplementaryFile, (msg, type) => addLog(msg,type));
-            setMergedData(data);
-            addLog(`Gộp thành công ${data.length} đề tài.`, LogType.Success);
-            
-            saveAs(new Blob([buffer], { type: "application/octet-stream" }), "File_Gop.xlsx");
-            addLog("Đã tải xuống file 'File_Gop.xlsx'.", LogType.Info);
-            setActiveView('data');
-
-            // Initialize stats for dashboard
-             const stats: DashboardStats = {
-                totalProjects: data.length,
-                totalStudents: data.reduce((acc, row) => acc + (row['sohocvien'] || 0), 0),
-                withinLimit: 0,
-                l1Edit: 0,
-                l2Process: 0,
-                l2Exceeded: 0,
-            };
-            setDashboardStats(stats);
+            return await result;
+        } finally {
+            cancelJobRef.current = null;
+            setProgress(null);
+        }
+    };
+
+    const handleTemplateSelect = (
+        setFile: (file: File | null) => void,
+        setInspection: (inspection: TemplateInspection | null) => void,
+        fields: typeof TEMPLATE_FIELDS
+    ) => async (file: File | null) => {
+        setFile(file);
+        setInspection(null);
+        if (!file) return;
+        try {
+            const inspection = await inspectWordTemplate(file, fields);
+            setInspection(inspection);
+            const errorCount = inspection.issues.filter(i => i.severity === IssueSeverity.Error).length;
+            const warningCount = inspection.issues.length - errorCount;
+            if (errorCount > 0) {
+                addLog(`File mẫu '${file.name}' có ${errorCount} lỗi cú pháp. Vui lòng sửa file mẫu trước khi sinh báo cáo.`, LogType.Error);
+            } else {
+                addLog(`Đã kiểm tra file mẫu '${file.name}': ${inspection.tags.length} thẻ, ${warningCount} cảnh báo.`, warningCount > 0 ? LogType.Warning : LogType.Info);
+            }
+        } catch (error) {
+            console.error(error);
+            addLog(`Không đọc được file mẫu '${file.name}'. Vui lòng kiểm tra file có đúng định dạng .docx không.`, LogType.Error);
+        }
+    };
+
+    const handleReportTemplateSelect = handleTemplateSelect(setWordTemplateFile, setTemplateInspection, TEMPLATE_FIELDS);
 
+    const handleUploadReportTemplate = (file: File | null) => {
+        setLibraryTemplateId(null);
+        const suggested = file ? suggestDocumentType(activePolicy, file.name) : undefined;
+        if (suggested && suggested.id !== projectType) {
+            setProjectType(suggested.id);
+            addLog(`Đã chọn loại tài liệu ${suggested.id} theo tên file mẫu '${file!.name}'. Đổi ở mục 'Loại tài liệu' nếu chưa đúng.`, LogType.Info);
+        }
+        return handleReportTemplateSelect(file);
+    };
 
+    const applyLibraryTemplate = async (template: LibraryTemplate) => {
+        try {
+            const file = await loadLibraryTemplateFile(template.id);
+            setLibraryTemplateId(template.id);
+            setProjectType(template.documentType);
+            addLog(`Dùng file mẫu '${template.fileName}'${template.versionLabel ? ` (phiên bản ${template.versionLabel})` : ''} từ thư viện cho loại ${template.documentType}.`, LogType.Info);
+            await handleReportTemplateSelect(file);
         } catch (error) {
             console.error(error);
-            let errorMessage = "Lỗi không xác định.";
-            if (error instanceof Error) {
-                // Specific check for file read errors
-                if (error.name === 'NotFoundError' || error.message.includes('file could not be read')) {
-                    errorMessage = "Không thể đọc được file đã chọn. Vui lòng chọn lại file và thử lại ngay. Lỗi này thường xảy ra nếu file bị di chuyển hoặc trình duyệt mất quyền truy cập sau một thời gian.";
+            addLog(`Không mở được file mẫu '${template.fileName}' từ thư viện.`, LogType.Error);
+        }
+    };
+
+    // The library is read once; the default template of the selected document type is loaded with it
+    useEffect(() => {
+        listLibraryTemplates()
+            .then(templates => {
+                setLibraryTemplates(templates);
+                const template = findDefaultTemplate(templates, projectType);
+                if (template) applyLibraryTemplate(template);
+            })
+            .catch(error => {
+                console.error(error);
+                addLog('Không đọc được thư viện file mẫu của trình duyệt.', LogType.Warning);
+            });
+    }, []);
+
+    // A library template follows the document type: switching type switches to that type's default
+    const handleProjectTypeChange = (documentType: string) => {
+        const template = findDefaultTemplate(libraryTemplates, documentType);
+        if (libraryTemplateId && !template) {
+            addLog(`Loại ${documentType} chưa có file mẫu mặc định trong thư viện. Chọn file mẫu khác để đổi loại tài liệu.`, LogType.Warning);
+            return;
+        }
+        setProjectType(documentType);
+        if (template && template.id !== libraryTemplateId && (!wordTemplateFile || libraryTemplateId)) applyLibraryTemplate(template);
+    };
+
+    // Runs a library change and shows the updated library, logging instead of throwing if the browser storage fails
+    const updateLibrary = async (change: () => Promise<LibraryTemplate[]>, successMessage: string) => {
+        try {
+            setLibraryTemplates(await change());
+            addLog(successMessage, LogType.Success);
+        } catch (error) {
+            console.error(error);
+            addLog(`Không cập nhật được thư viện file mẫu: ${describeError(error)}`, LogType.Error);
+        }
+    };
+
+    const handleAddLibraryTemplate = (file: File, details: LibraryTemplateDetails) =>
+        updateLibrary(() => addLibraryTemplate(file, details), `Đã thêm '${file.name}' vào thư viện (loại ${details.documentType}).`);
+
+    const handleUpdateLibraryTemplate = (id: string, details: LibraryTemplateDetails) =>
+        updateLibrary(() => updateLibraryTemplate(id, details), 'Đã cập nhật thông tin file mẫu.');
+
+    const handleSetDefaultLibraryTemplate = (id: string) =>
+        updateLibrary(() => setDefaultLibraryTemplate(id), 'Đã đặt file mẫu mặc định.');
+
+    const handleDeleteLibraryTemplate = (id: string) => {
+        // The template stays selected for this session, now as if it had been uploaded
+        if (id === libraryTemplateId) setLibraryTemplateId(null);
+        return updateLibrary(() => deleteLibraryTemplate(id), 'Đã xóa file mẫu khỏi thư viện.');
+    };
+
+    const handleExportLibrary = async () => {
+        try {
+            saveAs(await exportTemplateBundle(), 'Thu_vien_mau.zip');
+            addLog(`Đã xuất ${libraryTemplates.length} file mẫu ra 'Thu_vien_mau.zip'.`, LogType.Info);
+        } catch (error) {
+            console.error(error);
+            addLog('Không xuất được thư viện file mẫu.', LogType.Error);
+        }
+    };
+
+    const handleImportLibrary = async (file: File) => {
+        try {
+            const { templates, imported } = await importTemplateBundle(file);
+            setLibraryTemplates(templates);
+            addLog(`Đã nhập ${imported} file mẫu từ '${file.name}'${imported === 0 ? ' (các file mẫu đã có sẵn trong thư viện)' : ''}.`, LogType.Success);
+        } catch (error) {
+            console.error(error);
+            addLog(describeError(error), LogType.Error);
+        }
+    };
+
+    const handleExportSigningKey = async () => {
+        saveAs(exportSigningKey(signingKey), `${SIGNING_KEY_FILE_NAME}.json`);
+        addLog(`Đã xuất khóa ký (mã ${await getSigningKeyId(signingKey)}) ra '${SIGNING_KEY_FILE_NAME}.json'. Hãy giữ file này kín.`, LogType.Info);
+    };
+
+    const handleImportSigningKey = async (file: File) => {
+        try {
+            const key = await importSigningKey(file);
+            setSigningKey(key);
+            addLog(`Đã nhập khóa ký (mã ${await getSigningKeyId(key)}) từ '${file.name}'. Bản kê của các đợt sau được ký bằng khóa này.`, LogType.Success);
+        } catch (error) {
+            console.error(error);
+            addLog(describeError(error), LogType.Error);
+        }
+    };
+
+    const handleCancelJob = () => {
+        cancelJobRef.current?.();
+    };
+
+    const logValidationSummary = (data: MergedData[]) => {
+        const issues = validateMergedData(data);
+        const errorCount = getBlockingIssues(issues, []).length;
+        if (issues.length === 0) return;
+        addLog(`Kiểm tra dữ liệu: ${errorCount} lỗi, ${issues.length - errorCount} cảnh báo. Xem chi tiết ở mục 'Kiểm tra'.`, errorCount > 0 ? LogType.Error : LogType.Warning);
+    };
+
+    const applyMergeResult = (data: MergedData[], buffer: ArrayBuffer, newReconciliation: ReconciliationResult) => {
+        setMergedData(data);
+        setReconciliation(newReconciliation);
+        setOverriddenIssueIds([]);
+        setValueFixes([]);
+        setLoadedReportFile(null);
+
+        const pendingCount = countPendingIssues(newReconciliation);
+        if (pendingCount > 0) {
+            addLog(`Gộp ${data.length} đề tài, còn ${pendingCount} mục cần đối chiếu giữa File chính và File bổ sung.`, LogType.Warning);
+            setActiveView('reconcile');
+            return;
+        }
+
+        addLog(`Gộp thành công ${data.length} đề tài.`, LogType.Success);
+        downloadMergedExcel(buffer);
+        logValidationSummary(data);
+        setActiveView('data');
+    };
+
+    const handleBatchFilesSelect = async (files: File[]) => {
+        setBatchFiles(files);
+        setBatchResults(null);
+        setIsProcessing(true);
+        addLog(`Phân loại ${files.length} file...`, LogType.Info);
+        try {
+            const summaries = [];
+            for (const file of files) {
+                try {
+                    summaries.push(await summarizeInputFile(file));
+                } catch (error) {
+                    console.error(error);
+                    summaries.push({ file, role: null, keys: [] });
+                }
+            }
+            const { pairs, unpaired } = pairBatchFiles(summaries);
+            setBatchPairs(pairs);
+            setUnpairedFiles(unpaired);
+            addLog(`Ghép được ${pairs.length} cặp file.`, pairs.length > 0 ? LogType.Success : LogType.Warning);
+            if (unpaired.length > 0) {
+                addLog(`Không ghép được cặp cho ${unpaired.length} file: ${unpaired.map(f => f.name).join(', ')}.`, LogType.Warning);
+            }
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleBatchMerge = async () => {
+        if (batchPairs.length === 0) {
+            addLog("Chưa có cặp File chính/File bổ sung nào để gộp.", LogType.Error);
+            return;
+        }
+
+        setIsProcessing(true);
+        addLog(`Bắt đầu gộp hàng loạt ${batchPairs.length} cặp file...`, LogType.Info);
+        try {
+            const { data, buffer, reconciliation: newReconciliation, results: workerResults } = await runJob('Gộp hàng loạt', {
+                kind: 'batchMerge',
+                pairs: batchPairs,
+                // Saved profiles are passed along, as the worker cannot read them from localStorage
+                options: { topicFill, suppLayout: suppLayout || undefined, assessment: assessmentContext, policy: activePolicy, format: mergedExportFormat, mappingProfiles, faculty },
+            });
+            // The worker returns copies of the pairs; point the results back at the ones listed on screen
+            const results = workerResults.map((result, index) => ({ ...result, pair: batchPairs[index] }));
+            setBatchResults(results);
+            for (const result of results) {
+                if (result.error) {
+                    addLog(`✗ ${result.pair.main.name} + ${result.pair.supplementary.name}: ${result.error}`, LogType.Error);
                 } else {
-                    errorMessage = error.message;
+                    addLog(`✓ ${result.pair.main.name} + ${result.pair.supplementary.name}: ${result.projectCount} đề tài.`, LogType.Success);
                 }
             }
-            addLog(`Gộp file thất bại: ${errorMessage}`, LogType.Error);
+            const failed = results.filter(r => r.error).length;
+            addLog(`Tổng kết: ${results.length - failed}/${results.length} cặp thành công.`, failed > 0 ? LogType.Warning : LogType.Success);
+            applyMergeResult(data, buffer, newReconciliation);
+        } catch (error) {
+            logFailure('Gộp hàng loạt', error);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleMergeExcel = async () => {
+        if (!mainFile || !supplementaryFile) {
+            addLog("Vui lòng chọn đủ File chính và File bổ sung.", LogType.Error);
+            return;
+        }
+
+        setIsProcessing(true);
+        addLog("Bắt đầu quá trình gộp file Excel/CSV...", LogType.Info);
+        try {
+            const { data, buffer, reconciliation: newReconciliation } = await runJob('Gộp file', { kind: 'merge', mainFile, suppFile: supplementaryFile, options: getMergeOptions() });
+            applyMergeResult(data, buffer, newReconciliation);
+        } catch (error) {
+            logFailure('Gộp file', error);
         } finally {
             setIsProcessing(false);
         }
     };
     
     const handleGenerateReports = async () => {
-        const canGenerate = wordTemplateFile && (!!mergedData || !!reportDataFile || (!!mainFile && !!supplementaryFile));
+        const canGenerate = wordTemplateFile && (!!mergedData || !!reportDataFile || (!isBatchMode && !!mainFile && !!supplementaryFile));
         if (!canGenerate) {
             addLog("Vui lòng cung cấp file mẫu Word và nguồn dữ liệu (file gộp hoặc các file đầu vào).", LogType.Error);
             return;
@@ -111,20 +592,51 @@ const App: React.FC = () => {
             let dataForReport: MergedData[] | null = null;
 
             // Priority 1: Use the explicitly selected "File Dữ liệu"
-            if (reportDataFile) {
+            // (read once, so fixes made in the validation step are kept)
+            if (reportDataFile && reportDataFile === loadedReportFile && mergedData) {
+                addLog("Sử dụng dữ liệu đã đọc từ file dữ liệu.", LogType.Info);
+                dataForReport = mergedData;
+            } else if (reportDataFile) {
                 addLog("Đọc file dữ liệu được chọn...", LogType.Info);
-                dataForReport = await readDataFileForReporting(reportDataFile);
+                dataForReport = await runJob('Đọc file dữ liệu', {
+                    kind: 'readReportData',
+                    file: reportDataFile,
+                    inspection: inspections.report,
+                    sheetNames: selectedSheets.report,
+                });
                 addLog(`Đọc thành công ${dataForReport.length} đề tài từ file dữ liệu.`, LogType.Success);
+                const readings = describeNumberReadings(dataForReport);
+                if (readings) {
+                    addLog(`Đã chuyển đổi ${readings}.`, LogType.Info);
+                }
+                setLoadedReportFile(reportDataFile);
+                setOverriddenIssueIds([]);
+                setValueFixes([]);
             } 
             // Priority 2: Use data from a previous merge operation if no specific data file is selected
             else if (mergedData) {
+                if (reconciliation && countPendingIssues(reconciliation) > 0) {
+                    addLog("Dữ liệu gộp còn mục chưa đối chiếu. Vui lòng hoàn tất đối chiếu trước khi sinh báo cáo.", LogType.Error);
+                    setActiveView('reconcile');
+                    return;
+                }
                 addLog("Sử dụng dữ liệu đã gộp từ Bước 1.", LogType.Info);
                 dataForReport = mergedData;
             } 
             // Priority 3: Generate data on-the-fly from Step 1 inputs if nothing else is available
-            else if (mainFile && supplementaryFile) {
+            else if (!isBatchMode && mainFile && supplementaryFile) {
                 addLog("Chưa có dữ liệu, tự động gộp file từ Bước 1...", LogType.Info);
-                const { data } = await generateMergedExcel(mainFile, supplementaryFile, addLog);
+                const { data, reconciliation: newReconciliation } = await runJob('Gộp file', { kind: 'merge', mainFile, suppFile: supplementaryFile, options: getMergeOptions() });
+                setReconciliation(newReconciliation);
+                setOverriddenIssueIds([]);
+                setValueFixes([]);
+                const pendingCount = countPendingIssues(newReconciliation);
+                if (pendingCount > 0) {
+                    setMergedData(data);
+                    addLog(`Còn ${pendingCount} mục cần đối chiếu. Vui lòng hoàn tất đối chiếu trước khi sinh báo cáo.`, LogType.Error);
+                    setActiveView('reconcile');
+                    return;
+                }
                 dataForReport = data;
                 addLog(`Gộp tự động thành công ${data.length} đề tài.`, LogType.Success);
             }
@@ -146,70 +658,168 @@ const App: React.FC = () => {
                 setMergedData(dataForReport);
             }
 
-            addLog(`Bắt đầu sinh ${dataForReport.length} báo cáo Word...`, LogType.Info);
-            const zipBlob = await generateWordReports(dataForReport, wordTemplateFile, isFirstCheck, projectType);
-            addLog(`Sinh báo cáo thành công.`, LogType.Success);
-            
-            saveAs(zipBlob, "Cac_Bao_Cao.zip");
-            addLog("Đã tải xuống file 'Cac_Bao_Cao.zip'.", LogType.Info);
+            // Data just read or merged has no overrides yet
+            const overrides = dataForReport === mergedData ? overriddenIssueIds : [];
+            const blockingIssues = getBlockingIssues(validateMergedData(dataForReport), overrides);
+            if (blockingIssues.length > 0) {
+                addLog(`Dữ liệu còn ${blockingIssues.length} lỗi. Vui lòng sửa hoặc bỏ qua ở mục 'Kiểm tra' trước khi sinh báo cáo.`, LogType.Error);
+                setActiveView('validation');
+                return;
+            }
 
-            // --- Post-generation Statistics Calculation ---
-            addLog("Đang tính toán thống kê chi tiết...", LogType.Info);
-            const normalizedFileName = normalizeString(wordTemplateFile.name);
-            let effectiveProjectType: 'ĐATN' | 'BCCĐ';
-            if (normalizedFileName.includes('datn') || normalizedFileName.includes('kltn')) {
-                effectiveProjectType = 'ĐATN';
-            } else if (normalizedFileName.includes('bccd')) {
-                effectiveProjectType = 'BCCĐ';
-            } else {
-                effectiveProjectType = projectType;
+            const reportCount = reportPerStudent
+                ? dataForReport.reduce((acc, row) => acc + Math.max(row.hocvien?.length || 0, 1), 0)
+                : dataForReport.length;
+            const histories = linkProjectHistory(dataForReport, checkRounds, checkRound);
+            const linkedCount = histories.filter(records => records.length > 0).length;
+            if (linkedCount > 0) {
+                addLog(`${linkedCount} đề tài đã có kết quả ở lần kiểm tra trước, giá trị cũ được đưa vào báo cáo.`, LogType.Info);
             }
-            
-            const newStats: DashboardStats = {
-                totalProjects: dataForReport.length,
-                totalStudents: dataForReport.reduce((acc, row) => acc + (row['sohocvien'] || 0), 0),
-                withinLimit: 0,
-                l1Edit: 0,
-                l2Process: 0,
-                l2Exceeded: 0,
-            };
-
-            const newCategorizedProjects: CategorizedProjects = {
-                withinLimit: [],
-                l1Edit: [],
-                l2Process: [],
-                l2Exceeded: [],
-            };
-
-            for (const row of dataForReport) {
-                const category = getConclusionCategory(row.tv || 0, effectiveProjectType, isFirstCheck);
-                newStats[category]++;
-                newCategorizedProjects[category].push(row);
+            const laterRound = suggestCheckRound(linkProjectHistory(dataForReport, checkRounds, Infinity));
+            if (laterRound > checkRound) {
+                addLog(`Có đề tài đã được kiểm tra đến lần ${laterRound - 1}, nhưng báo cáo đang được sinh cho lần ${checkRound}.`, LogType.Warning);
+            }
+            addLog(`Áp dụng quy định "${activePolicy.name}" (phiên bản ${activePolicy.version}, hiệu lực từ ${activePolicy.effectiveFrom}).`, LogType.Info);
+            if (resubmissionDueDate) {
+                addLog(`Đề tài cần chỉnh sửa phải nộp lại trước ngày ${formatReportDate(resubmissionDueDate)} (${reportDocumentType.resubmissionDays} ngày làm việc kể từ ${formatReportDate(checkDate)}).`, LogType.Info);
+            }
+            addLog(`Bắt đầu sinh ${reportCount} báo cáo Word${reportPerStudent ? ' (mỗi học viên một báo cáo)' : ''}...`, LogType.Info);
+            const zipBlob = await runJob('Sinh báo cáo Word', {
+                kind: 'reports',
+                data: dataForReport,
+                templateFile: wordTemplateFile,
+                policy: activePolicy,
+                checkRound,
+                checkDate,
+                calendar,
+                documentType: reportDocumentType.id,
+                perStudent: reportPerStudent,
+                histories,
+                naming: reportNaming,
+                summaryTemplateFile,
+                metadata: batchMetadata,
+                mail: mailEnabled ? mailTemplate : null,
+                signingKey,
+            });
+            addLog(`Sinh báo cáo thành công. Biên bản tổng hợp${summaryTemplateFile ? ' (Word và Excel)' : ' (Excel)'} nằm ở thư mục gốc của file ZIP.`, LogType.Success);
+            addLog(`Bản kê xác thực '${MANIFEST_FILE_NAME}.json' ghi mã băm của từng báo cáo; hãy lưu lại để kiểm tra báo cáo học viên nộp về ở mục 'Xác thực'.`, LogType.Info);
+            if (mailEnabled) {
+                addLog(`Thư gửi kết quả (.eml) nằm ở thư mục '${MAIL_FOLDER}' của file ZIP; mở bằng trình gửi thư rồi bấm Gửi.`, LogType.Info);
+                const missing = findMissingRecipients(dataForReport, mailTemplate.recipients, reportPerStudent);
+                if (missing.length > 0) {
+                    addLog(`${missing.length} báo cáo không có thư vì chưa có email hợp lệ: ${missing.map(m => `${m.recipient} (dòng ${m.rowIndex + 1})`).join('; ')}.`, LogType.Warning);
+                }
             }
             
-            setDashboardStats(newStats);
-            setCategorizedProjects(newCategorizedProjects);
-            addLog("Cập nhật thống kê thành công.", LogType.Success);
+            saveAs(zipBlob, "Cac_Bao_Cao.zip");
+            addLog("Đã tải xuống file 'Cac_Bao_Cao.zip'.", LogType.Info);
+
+            // The next batch continues the numbering
+            const lastNumber = batchMetadata.serialStart + reportCount - 1;
+            setBatchMetadata(saveBatchMetadata({ ...batchMetadata, serialStart: lastNumber + 1 }));
+            addLog(`Các báo cáo mang số ${formatReportNumber(batchMetadata, batchMetadata.serialStart)} đến ${formatReportNumber(batchMetadata, lastNumber)}. Đợt sau sẽ bắt đầu từ số ${lastNumber + 1}.`, LogType.Info);
+
+            setCheckRounds(saveCheckRound(buildCheckRound(dataForReport, checkRound, checkDate, activePolicy, reportDocumentType)));
+            addLog(`Đã lưu kết quả lần kiểm tra ${checkRound} (${dataForReport.length} đề tài) vào lịch sử.`, LogType.Info);
+
+            const stats = buildDashboardStats(dataForReport, categorizeProjects(dataForReport, reportDocumentType, checkRound, histories), histories);
+            setLastReportSnapshot({
+                snapshot: { data: dataForReport, checkRound, documentType: reportDocumentType, policy: activePolicy, stats },
+                downloadedAt: new Date(),
+            });
             setActiveView('stats');
 
 
         } catch (error) {
-            console.error(error);
-            let errorMessage = "Lỗi không xác định.";
-             if (error instanceof Error) {
-                // Specific check for file read errors
-                if (error.name === 'NotFoundError' || error.message.includes('file could not be read')) {
-                     errorMessage = "Không thể đọc được file đã chọn. Vui lòng chọn lại file và thử lại ngay. Lỗi này thường xảy ra nếu file bị di chuyển hoặc trình duyệt mất quyền truy cập sau một thời gian.";
-                } else {
-                    errorMessage = error.message;
-                }
-            }
-            addLog(`Xử lý thất bại: ${errorMessage}`, LogType.Error);
+            logFailure('Xử lý', error);
         } finally {
             setIsProcessing(false);
         }
     };
     
+    // Builds the merged data from the reconciliation with the fixes typed in the validation view
+    const rebuildMergedData = (result: ReconciliationResult): MergedData[] => {
+        const { data, kept, dropped } = reapplyValueFixes(buildMergedData(result), result, valueFixes);
+        if (dropped.length > 0) {
+            addLog(`Bỏ ${dropped.length} giá trị đã sửa vì đề tài được ghép với dữ liệu tỉ lệ khác: ${dropped.map(f => `${f.field.toUpperCase()} dòng ${f.mainIndex + 1}`).join(', ')}.`, LogType.Warning);
+        }
+        setValueFixes(kept);
+        setMergedData(data);
+        return data;
+    };
+
+    const handleReconciliationChange = (updated: ReconciliationResult) => {
+        setReconciliation(updated);
+        rebuildMergedData(updated);
+    };
+
+    const handleCompleteReconciliation = () => {
+        if (!reconciliation) return;
+        const data = rebuildMergedData(reconciliation);
+        addLog(`Đối chiếu hoàn tất, gộp thành công ${data.length} đề tài.`, LogType.Success);
+        downloadMergedExcel(buildMergedWorkbook(data, assessmentContext, activePolicy, mergedExportFormat));
+        logValidationSummary(data);
+        setActiveView('data');
+    };
+
+    // Fixes of merged data are kept, so rebuilding it from the reconciliation does not undo them
+    const recordFixes = (rowIndex: number, fixed: MergedData, fields: string[]) => {
+        if (loadedReportFile || !reconciliation) return;
+        const suppIndex = reconciliation.matches.find(m => m.mainIndex === rowIndex)?.suppIndex ?? null;
+        setValueFixes(prev => fields
+            .filter(field => typeof fixed[field] === 'number')
+            .reduce((fixes, field) => recordValueFix(fixes, { mainIndex: rowIndex, suppIndex, field, value: fixed[field] as number }), prev));
+    };
+
+    const handleFixValue = (rowIndex: number, field: string, value: number) => {
+        if (!mergedData) return;
+        const fixed = applyFieldFix(mergedData, rowIndex, field, value);
+        setMergedData(fixed);
+        recordFixes(rowIndex, fixed[rowIndex], [field]);
+        addLog(`Đã sửa ${field.toUpperCase()} của dòng ${rowIndex + 1} thành ${value}.`, LogType.Info);
+    };
+
+    const handleScaleRow = (rowIndex: number) => {
+        if (!mergedData) return;
+        const scaled = scaleRowRatios(mergedData, rowIndex);
+        setMergedData(scaled);
+        recordFixes(rowIndex, scaled[rowIndex], Object.keys(scaled[rowIndex]).filter(field => field === 'tv' || /^c\d+$/.test(field)));
+        addLog(`Đã nhân 100 các tỉ lệ của dòng ${rowIndex + 1}.`, LogType.Info);
+    };
+
+    const handleOverrideIssues = (ids: string[], overridden: boolean) => {
+        setOverriddenIssueIds(prev => overridden
+            ? [...prev, ...ids.filter(id => !prev.includes(id))]
+            : prev.filter(id => !ids.includes(id)));
+        if (overridden) {
+            addLog(`Bỏ qua ${ids.length} lỗi dữ liệu.`, LogType.Warning);
+        }
+    };
+
+    const handleDownloadIssueReport = () => {
+        if (!mergedData) return;
+        const buffer = buildIssueReportWorkbook(mergedData, validationIssues, overriddenIssueIds);
+        saveAs(new Blob([buffer], { type: "application/octet-stream" }), "Bao_Cao_Loi.xlsx");
+        addLog("Đã tải xuống file 'Bao_Cao_Loi.xlsx'.", LogType.Info);
+    };
+
+    const handleSavePolicy = (edited: ConclusionPolicy) => {
+        const { policy, policies: updated } = saveConclusionPolicyVersion(edited);
+        setPolicies(updated);
+        addLog(`Đã lưu quy định "${policy.name}" phiên bản ${policy.version}, hiệu lực từ ${policy.effectiveFrom}.`, LogType.Success);
+        return policy;
+    };
+
+    const handleDeletePolicy = (id: string) => {
+        setPolicies(deleteConclusionPolicy(id));
+        if (selectedPolicyId === id) setSelectedPolicyId('');
+    };
+
+    const handleSaveCalendar = (edited: WorkingCalendar) => {
+        setCalendar(saveWorkingCalendar(edited));
+        addLog(`Đã lưu lịch làm việc (${edited.holidays.length} ngày nghỉ lễ).`, LogType.Success);
+    };
+
     const handleStatClick = (category: ConclusionCategory) => {
         if (!categorizedProjects) return;
 
@@ -218,6 +828,8 @@ const App: React.FC = () => {
             l1Edit: 'Đề tài Cần Chỉnh sửa (L1)',
             l2Process: 'Đề tài Cần Xử lý (L2)',
             l2Exceeded: 'Đề tài Vượt Tỉ lệ Tối đa (L2)',
+            chapterExceeded: 'Đề tài có Chương Vượt Ngưỡng',
+            fixedAfterEdit: 'Đề tài Đã Khắc phục sau Chỉnh sửa',
         };
 
         const data = categorizedProjects[category];
@@ -230,13 +842,106 @@ const App: React.FC = () => {
         }
     };
 
+    const handleSupervisorClick = (supervisor: SupervisorSummary) => {
+        setModalData({ title: `Đề tài của ${supervisor.name}`, data: supervisor.projects });
+    };
+
 
     const renderContent = () => {
         switch (activeView) {
             case 'stats':
-                return dashboardStats ? <Dashboard stats={dashboardStats} onStatClick={handleStatClick} /> : <div className="text-center text-gray-500 mt-10">Chưa có dữ liệu để thống kê. Vui lòng gộp file Excel trước.</div>;
+                return dashboardStats ? <Dashboard stats={dashboardStats} data={mergedData} supervisors={supervisorSummaries} onStatClick={handleStatClick} onSupervisorClick={handleSupervisorClick} reportSync={reportSync} /> : <div className="text-center text-gray-500 mt-10">Chưa có dữ liệu để thống kê. Vui lòng gộp file Excel trước.</div>;
+            case 'mapping': {
+                const roles = (Object.keys(mappingTitles) as MappingRole[]).filter(role => inspections[role]);
+                return (
+                    <div className="space-y-6">
+                        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100 flex items-center space-x-3">
+                            <span className="font-semibold text-gray-600">Khoa/Đơn vị:</span>
+                            <input
+                                type="text"
+                                value={faculty}
+                                onChange={(e) => setFaculty(e.target.value)}
+                                placeholder="Ví dụ: Khoa Công nghệ Thông tin"
+                                className="flex-1 p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition"
+                            />
+                        </div>
+                        {roles.length === 0 ? (
+                            <div className="text-center text-gray-500 mt-10">Chưa có file nào. Vui lòng chọn file ở mục "Chọn Files".</div>
+                        ) : roles.map(role => (
+                            <ColumnMappingWizard
+                                key={role}
+                                role={role}
+                                title={mappingTitles[role]}
+                                inspection={inspections[role]!}
+                                profiles={mappingProfiles}
+                                onMappingChange={handleMappingChange(role)}
+                                onSaveProfile={handleSaveProfile(role)}
+                                onDeleteProfile={handleDeleteProfile}
+                            />
+                        ))}
+                    </div>
+                );
+            }
+            case 'reconcile':
+                return reconciliation
+                    ? <ReconciliationPanel reconciliation={reconciliation} onChange={handleReconciliationChange} onComplete={handleCompleteReconciliation} />
+                    : <div className="text-center text-gray-500 mt-10">Chưa có dữ liệu để đối chiếu. Vui lòng gộp file Excel trước.</div>;
+            case 'validation':
+                return mergedData
+                    ? <ValidationPanel
+                        data={mergedData}
+                        issues={validationIssues}
+                        overriddenIds={overriddenIssueIds}
+                        onFixValue={handleFixValue}
+                        onScaleRow={handleScaleRow}
+                        onOverride={handleOverrideIssues}
+                        onDownloadReport={handleDownloadIssueReport}
+                      />
+                    : <div className="text-center text-gray-500 mt-10">Chưa có dữ liệu để kiểm tra. Vui lòng gộp file Excel trước.</div>;
+            case 'templates':
+                return (
+                    <TemplateLibrary
+                        templates={libraryTemplates}
+                        documentTypes={activePolicy.documentTypes}
+                        activeTemplateId={libraryTemplateId}
+                        suggestDocumentType={(fileName) => suggestDocumentType(activePolicy, fileName)?.id || projectType}
+                        onAdd={handleAddLibraryTemplate}
+                        onUpdate={handleUpdateLibraryTemplate}
+                        onSetDefault={handleSetDefaultLibraryTemplate}
+                        onDelete={handleDeleteLibraryTemplate}
+                        onUse={(id) => {
+                            const template = libraryTemplates.find(t => t.id === id);
+                            if (template) applyLibraryTemplate(template);
+                        }}
+                        onExport={handleExportLibrary}
+                        onImport={handleImportLibrary}
+                    />
+                );
+            case 'verify':
+                return <ReportVerifier signingKey={signingKey} onExportKey={handleExportSigningKey} onImportKey={handleImportSigningKey} />;
+            case 'history':
+                return <HistoryPanel rounds={checkRounds} onDeleteRound={(id) => setCheckRounds(deleteCheckRound(id))} />;
+            case 'settings':
+                return (
+                    <div className="space-y-6">
+                        <PolicyEditor policies={policies} activePolicyId={activePolicy.id} onSave={handleSavePolicy} onDelete={handleDeletePolicy} />
+                        <WorkingCalendarEditor calendar={calendar} onSave={handleSaveCalendar} />
+                    </div>
+                );
             case 'data':
-                return mergedData ? <DataTable data={mergedData} /> : <div className="text-center text-gray-500 mt-10">Chưa có dữ liệu. Vui lòng gộp file Excel.</div>;
+                return mergedData ? (
+                    <>
+                        {previewTemplateData && (
+                            <ReportPreview
+                                templateFile={wordTemplateFile}
+                                templateData={previewTemplateData}
+                                title={mergedData[previewRowIndex!].tendetai || mergedData[previewRowIndex!].hotenhv || `Dòng ${previewRowIndex! + 1}`}
+                                onClose={() => setPreviewRowIndex(null)}
+                            />
+                        )}
+                        <DataTable data={mergedData} chapterViolations={chapterViolations} selectedRowIndex={previewRowIndex} onPreviewRow={setPreviewRowIndex} />
+                    </>
+                ) : <div className="text-center text-gray-500 mt-10">Chưa có dữ liệu. Vui lòng gộp file Excel.</div>;
             case 'files':
             default:
                 return (
@@ -244,42 +949,166 @@ const App: React.FC = () => {
                         <div>
                             <h2 className="text-2xl font-bold text-gray-700 mb-4 border-b-2 border-blue-500 pb-2">Bước 1 (Tùy chọn): Gộp và Tải File Excel</h2>
                             <p className="text-gray-600 mb-4">Cung cấp file chính và file bổ sung. Nhấn nút "Tạo Gộp Excel" nếu bạn muốn tải xuống file gộp trung gian.</p>
+                            <label className="flex items-center space-x-2 cursor-pointer mb-4">
+                                <input type="checkbox" checked={isBatchMode} onChange={(e) => setIsBatchMode(e.target.checked)} className="h-5 w-5 text-blue-600 rounded focus:ring-blue-500" />
+                                <span className="font-semibold text-gray-600">Gộp hàng loạt nhiều cặp file</span>
+                            </label>
+                            <div className="flex items-center space-x-3 mb-4">
+                                <span className="font-semibold text-gray-600">Dòng có ô 'Tên đề tài' trống:</span>
+                                <select value={topicFill} onChange={(e) => setTopicFill(e.target.value as TopicFillMode)} className="p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition">
+                                    <option value="merges">Theo vùng gộp ô trong file</option>
+                                    <option value="forwardFill">Điền tiếp từ dòng trên</option>
+                                </select>
+                            </div>
+                            <div className="flex items-center space-x-3 mb-4">
+                                <span className="font-semibold text-gray-600">Định dạng File bổ sung:</span>
+                                <select value={suppLayout} onChange={(e) => setSuppLayout(e.target.value as SupplementaryLayout | '')} className="p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition">
+                                    <option value="">Tự nhận dạng</option>
+                                    {SUPPLEMENTARY_ADAPTERS.map(adapter => (
+                                        <option key={adapter.layout} value={adapter.layout}>{adapter.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="flex items-center space-x-3 mb-4">
+                                <span className="font-semibold text-gray-600">Tải file gộp dạng:</span>
+                                <select value={mergedExportFormat} onChange={(e) => setMergedExportFormat(e.target.value as MergedExportFormat)} className="p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition">
+                                    {MERGED_EXPORT_FORMATS.map(({ format, label }) => <option key={format} value={format}>{label}</option>)}
+                                </select>
+                            </div>
+                            {isBatchMode ? (
+                                <>
+                                    <FileUploader
+                                        icon={<Files size={48} className="text-blue-500"/>}
+                                        title="Các File chính và File bổ sung"
+                                        acceptedTypes=".xlsx, .xls, .csv"
+                                        multiple
+                                        files={batchFiles}
+                                        onFilesSelect={handleBatchFilesSelect}
+                                    />
+                                    {batchFiles.length > 0 && <BatchPairList pairs={batchPairs} unpaired={unpairedFiles} results={batchResults} />}
+                                </>
+                            ) : (
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                                <FileUploader icon={<FileText size={48} className="text-blue-500"/>} title="File chính" onFileSelect={setMainFile} acceptedTypes=".xlsx, .xls, .csv" file={mainFile} />
-                                <FileUploader icon={<Combine size={48} className="text-purple-500"/>} title="File bổ sung" onFileSelect={setSupplementaryFile} acceptedTypes=".xlsx, .xls, .csv" file={supplementaryFile} />
+                                <div>
+                                    <FileUploader icon={<FileText size={48} className="text-blue-500"/>} title="File chính" onFileSelect={handleFileSelect('main', setMainFile)} acceptedTypes=".xlsx, .xls, .csv" file={mainFile} />
+                                    {renderSheetPicker('main')}
+                                </div>
+                                <div>
+                                    <FileUploader icon={<Combine size={48} className="text-purple-500"/>} title="File bổ sung" onFileSelect={handleFileSelect('supplementary', setSupplementaryFile)} acceptedTypes=".xlsx, .xls, .csv" file={supplementaryFile} />
+                                    {renderSheetPicker('supplementary')}
+                                </div>
                             </div>
+                            )}
                         </div>
 
                         <div>
                             <h2 className="text-2xl font-bold text-gray-700 mb-4 border-b-2 border-purple-500 pb-2">Bước 2: Sinh Báo Cáo Word</h2>
                             <p className="text-gray-600 mb-4">Cung cấp file mẫu Word. Ứng dụng sẽ tự động sử dụng dữ liệu từ Bước 1 hoặc từ "File Dữ liệu" nếu được cung cấp.</p>
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                               <FileUploader icon={<Sheet size={48} className="text-teal-500"/>} title="File Dữ liệu (Nếu có sẵn)" onFileSelect={setReportDataFile} acceptedTypes=".xlsx, .xls, .csv" file={reportDataFile} />
-                               <FileUploader icon={<DownloadCloud size={48} className="text-green-500"/>} title="File Word mẫu" onFileSelect={setWordTemplateFile} acceptedTypes=".docx" file={wordTemplateFile} />
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                               <div>
+                                   <FileUploader icon={<Sheet size={48} className="text-teal-500"/>} title="File Dữ liệu (Nếu có sẵn)" onFileSelect={handleFileSelect('report', setReportDataFile)} acceptedTypes=".xlsx, .xls, .ods, .csv" file={reportDataFile} />
+                                   {renderSheetPicker('report')}
+                               </div>
+                               <FileUploader icon={<DownloadCloud size={48} className="text-green-500"/>} title="File Word mẫu" onFileSelect={handleUploadReportTemplate} acceptedTypes=".docx" file={wordTemplateFile} />
+                               <FileUploader icon={<Files size={48} className="text-indigo-500"/>} title="Mẫu biên bản tổng hợp (Nếu cần)" onFileSelect={handleTemplateSelect(setSummaryTemplateFile, setSummaryInspection, SUMMARY_TEMPLATE_FIELDS)} acceptedTypes=".docx" file={summaryTemplateFile} />
                             </div>
+                            {libraryTemplates.length > 0 && (
+                                <div className="mt-4 flex items-center space-x-3">
+                                    <span className="font-semibold text-gray-600">Mẫu từ thư viện:</span>
+                                    <select
+                                        value={libraryTemplateId || ''}
+                                        onChange={(e) => {
+                                            const template = libraryTemplates.find(t => t.id === e.target.value);
+                                            if (template) applyLibraryTemplate(template);
+                                        }}
+                                        className="flex-1 p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition"
+                                    >
+                                        <option value="">{wordTemplateFile && !libraryTemplateId ? `File tải lên: ${wordTemplateFile.name}` : '-- Chọn file mẫu --'}</option>
+                                        {libraryTemplates.map(t => (
+                                            <option key={t.id} value={t.id}>
+                                                {t.documentType} - {t.fileName}{t.versionLabel ? ` (${t.versionLabel})` : ''}{t.isDefault ? ' ★' : ''}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                            {templateInspection && <TemplateInspectionPanel inspection={templateInspection} />}
+                            {summaryInspection && <TemplateInspectionPanel inspection={summaryInspection} />}
                             <div className="bg-white mt-6 p-6 rounded-2xl shadow-lg border border-gray-100 space-y-6">
                                 <h3 className="text-lg font-bold text-gray-700">Tùy chọn Sinh Báo cáo</h3>
                                 
                                 {/* Core Option */}
                                 <div className="flex items-center space-x-3">
                                     <span className="font-semibold text-gray-600">Lần kiểm tra:</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={checkRound}
+                                        onChange={(e) => setCheckRound(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                                        className="w-20 p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition"
+                                    />
+                                    {suggestedRound !== checkRound && (
+                                        <button onClick={() => setCheckRound(suggestedRound)} className="text-sm text-blue-600 font-semibold hover:underline">
+                                            Theo lịch sử: lần {suggestedRound}
+                                        </button>
+                                    )}
+                                </div>
+
+                                <div className="flex flex-wrap items-center gap-3">
+                                    <span className="font-semibold text-gray-600">Ngày kiểm tra:</span>
+                                    <input type="date" value={checkDate} onChange={(e) => setCheckDate(e.target.value || todayIsoDate())} className="p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition" />
+                                    {resubmissionDueDate && (
+                                        <span className="text-sm text-gray-500">
+                                            Hạn nộp lại ({reportDocumentType.id}, {reportDocumentType.resubmissionDays} ngày làm việc): {formatReportDate(resubmissionDueDate)}
+                                        </span>
+                                    )}
+                                </div>
+
+                                <div className="flex flex-wrap items-center gap-3">
+                                    <span className="font-semibold text-gray-600">Quy định kết luận:</span>
+                                    <select value={selectedPolicyId} onChange={(e) => setSelectedPolicyId(e.target.value)} className="p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition">
+                                        <option value="">Theo ngày kiểm tra</option>
+                                        {policies.map(p => (
+                                            <option key={p.id} value={p.id}>{p.name} (phiên bản {p.version}, từ {p.effectiveFrom})</option>
+                                        ))}
+                                    </select>
+                                    <span className="text-sm text-gray-500">Đang áp dụng: {activePolicy.name}, phiên bản {activePolicy.version}</span>
+                                </div>
+
+                                <div className="flex items-center space-x-3">
+                                    <span className="font-semibold text-gray-600">Đơn vị báo cáo:</span>
                                     <label className="flex items-center space-x-2 cursor-pointer">
-                                        <input type="checkbox" checked={isFirstCheck} onChange={(e) => setIsFirstCheck(e.target.checked)} className="h-5 w-5 text-blue-600 rounded focus:ring-blue-500" />
-                                        <span>Lần đầu</span>
+                                        <input type="checkbox" checked={reportPerStudent} onChange={(e) => setReportPerStudent(e.target.checked)} className="h-5 w-5 text-blue-600 rounded focus:ring-blue-500" />
+                                        <span>Mỗi học viên một báo cáo</span>
                                     </label>
                                 </div>
 
+                                <ReportNamingOptions naming={reportNaming} onChange={setReportNaming} sample={namingSample} />
+
+                                <BatchMetadataForm metadata={batchMetadata} onChange={(metadata) => setBatchMetadata(saveBatchMetadata(metadata))} />
+
+                                <MailMergeOptions
+                                    enabled={mailEnabled}
+                                    onEnabledChange={setMailEnabled}
+                                    template={mailTemplate}
+                                    onChange={(template) => setMailTemplate(saveMailTemplate(template))}
+                                    missing={missingRecipients}
+                                />
+
                                 {/* Fallback Option */}
                                 <div className="pt-4 border-t border-gray-200">
                                     <div className="flex items-center space-x-3">
-                                        <span className="font-semibold text-gray-600">Loại tài liệu (dự phòng):</span>
-                                        <select value={projectType} onChange={(e) => setProjectType(e.target.value as 'ĐATN' | 'BCCĐ')} className="p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition">
-                                            <option value="ĐATN">ĐATN/KLTN</option>
-                                            <option value="BCCĐ">BCCĐ</option>
+                                        <span className="font-semibold text-gray-600">Loại tài liệu:</span>
+                                        <select value={projectType} onChange={(e) => handleProjectTypeChange(e.target.value)} className="p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition">
+                                            {activePolicy.documentTypes.map(type => (
+                                                <option key={type.id} value={type.id}>{type.id}</option>
+                                            ))}
                                         </select>
                                     </div>
                                     <p className="text-xs text-gray-500 mt-2 pl-1">
-                                        Chỉ sử dụng khi tên file Word mẫu không chứa "ĐATN", "KLTN", hay "BCCĐ".
+                                        {libraryTemplateId
+                                            ? 'File mẫu lấy từ thư viện dùng loại tài liệu ghi trong thư viện. Đổi loại sẽ chuyển sang file mẫu mặc định của loại đó, nếu có.'
+                                            : <>Khi chọn file Word mẫu, loại được điền sẵn nếu tên file chứa từ khóa của một loại ({activePolicy.documentTypes.flatMap(t => t.fileNameKeywords).map(k => `"${k.toUpperCase()}"`).join(', ')}, không phân biệt dấu). Báo cáo dùng loại đang chọn ở đây.</>}
                                     </p>
                                 </div>
                             </div>
@@ -289,7 +1118,12 @@ const App: React.FC = () => {
         }
     };
     
-    const canGenerateReports = wordTemplateFile && (!!mergedData || !!reportDataFile || (!!mainFile && !!supplementaryFile));
+    // Reports built from merged data are blocked until every project has been reconciled.
+    const hasPendingReconciliation = !reportDataFile && !!reconciliation && countPendingIssues(reconciliation) > 0;
+    // A template that does not parse would fail on the first report; one still being inspected is not ready either.
+    const templateReady = !!templateInspection && !templateInspection.issues.some(i => i.severity === IssueSeverity.Error)
+        && (!summaryTemplateFile || (!!summaryInspection && !summaryInspection.issues.some(i => i.severity === IssueSeverity.Error)));
+    const canGenerateReports = wordTemplateFile && templateReady && !hasPendingReconciliation && (!!mergedData || !!reportDataFile || (!isBatchMode && !!mainFile && !!supplementaryFile));
 
     return (
         <div className="flex h-screen bg-gray-50 font-sans">
@@ -307,8 +1141,8 @@ const App: React.FC = () => {
                         <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100 flex flex-col space-y-4">
                             <h2 className="text-xl font-bold text-gray-800">Bảng điều khiển</h2>
                             <button
-                                onClick={handleMergeExcel}
-                                disabled={isProcessing || !mainFile || !supplementaryFile}
+                                onClick={isBatchMode ? handleBatchMerge : handleMergeExcel}
+                                disabled={isProcessing || (isBatchMode ? batchPairs.length === 0 : (!mainFile || !supplementaryFile))}
                                 className="w-full flex items-center justify-center text-white font-bold py-3 px-4 rounded-xl shadow-md transition-all duration-300 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105"
                             >
                                 <BarChart2 className="mr-2" />
@@ -322,6 +1156,7 @@ const App: React.FC = () => {
                                 <FileText className="mr-2" />
                                 {isProcessing ? 'Đang xử lý...' : '2. Sinh Báo cáo'}
                             </button>
+                            {progress && <ProgressPanel progress={progress} onCancel={handleCancelJob} />}
                         </div>
                         <StatusLog logs={logs} />
                     </div>
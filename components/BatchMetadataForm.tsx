@@ -0,0 +1,49 @@
+import React from 'react';
+import { BatchMetadata } from '../types';
+import { formatReportNumber } from '../services/batchMetadata';
+
+interface BatchMetadataFormProps {
+    metadata: BatchMetadata;
+    onChange: (metadata: BatchMetadata) => void;
+}
+
+const inputClass = "p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition";
+
+const TEXT_FIELDS: { field: 'batchName' | 'faculty' | 'officer' | 'place', label: string, tag: string, placeholder: string }[] = [
+    { field: 'batchName', label: 'Tên đợt', tag: 'ten_dot', placeholder: 'Ví dụ: Đợt 1 năm học 2025-2026' },
+    { field: 'faculty', label: 'Khoa/Đơn vị', tag: 'khoa', placeholder: 'Ví dụ: Khoa Công nghệ Thông tin' },
+    { field: 'officer', label: 'Cán bộ kiểm tra', tag: 'can_bo_kiem_tra', placeholder: 'Họ tên cán bộ kiểm tra' },
+    { field: 'place', label: 'Địa danh', tag: 'dia_diem', placeholder: 'Ví dụ: Hà Nội' },
+];
+
+export const BatchMetadataForm: React.FC<BatchMetadataFormProps> = ({ metadata, onChange }) => (
+    <div className="space-y-3">
+        <span className="font-semibold text-gray-600">Thông tin đợt kiểm tra:</span>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {TEXT_FIELDS.map(({ field, label, tag, placeholder }) => (
+                <label key={field} className="flex flex-col text-sm text-gray-600">
+                    <span>{label} <span className="font-mono text-xs text-gray-400">{`{${tag}}`}</span></span>
+                    <input type="text" value={metadata[field]} onChange={(e) => onChange({ ...metadata, [field]: e.target.value })} placeholder={placeholder} className={inputClass} />
+                </label>
+            ))}
+            <label className="flex flex-col text-sm text-gray-600">
+                <span>Số báo cáo bắt đầu từ <span className="font-mono text-xs text-gray-400">{'{so_bao_cao}'}</span></span>
+                <input
+                    type="number"
+                    min={1}
+                    value={metadata.serialStart}
+                    onChange={(e) => onChange({ ...metadata, serialStart: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    className={inputClass}
+                />
+            </label>
+            <label className="flex flex-col text-sm text-gray-600">
+                <span>Ký hiệu sau số</span>
+                <input type="text" value={metadata.serialSuffix} onChange={(e) => onChange({ ...metadata, serialSuffix: e.target.value })} placeholder="Ví dụ: /BC-ĐBCL" className={inputClass} />
+            </label>
+        </div>
+        <p className="text-xs text-gray-500 pl-1">
+            Báo cáo đầu tiên mang số <span className="font-mono">{formatReportNumber(metadata, metadata.serialStart)}</span>; mỗi báo cáo có thêm mã xác thực <span className="font-mono">{'{ma_xac_thuc}'}</span> để đối chiếu về sau.
+            Ngày bằng chữ: <span className="font-mono">{'{ngay_kiem_tra_chu}'}</span>, <span className="font-mono">{'{han_nop_lai_chu}'}</span>; tỉ lệ TV bằng chữ: <span className="font-mono">{'{TV_chu}'}</span>.
+        </p>
+    </div>
+);
@@ -0,0 +1,71 @@
+import React from 'react';
+import { BatchFilePair, BatchPairResult } from '../types';
+import { CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+
+interface BatchPairListProps {
+    pairs: BatchFilePair[];
+    unpaired: File[];
+    results: BatchPairResult[] | null;
+}
+
+const pairedByLabels: Record<BatchFilePair['pairedBy'], string> = {
+    filename: 'Tên file',
+    content: 'Nội dung',
+};
+
+export const BatchPairList: React.FC<BatchPairListProps> = ({ pairs, unpaired, results }) => {
+    const resultFor = (pair: BatchFilePair) => results?.find(r => r.pair === pair);
+
+    return (
+        <div className="bg-white mt-6 p-6 rounded-2xl shadow-lg border border-gray-100 space-y-4 animate-fade-in">
+            <h3 className="text-lg font-bold text-gray-700">Các cặp file ({pairs.length})</h3>
+            {pairs.length === 0 ? (
+                <p className="text-gray-500">Chưa ghép được cặp file nào.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-gray-600">
+                        <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                            <tr>
+                                <th className="px-4 py-2">File chính</th>
+                                <th className="px-4 py-2">File bổ sung</th>
+                                <th className="px-4 py-2">Ghép theo</th>
+                                <th className="px-4 py-2">Kết quả</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {pairs.map(pair => {
+                                const result = resultFor(pair);
+                                return (
+                                    <tr key={`${pair.main.name}-${pair.supplementary.name}`} className="border-b">
+                                        <td className="px-4 py-2 break-all">{pair.main.name}</td>
+                                        <td className="px-4 py-2 break-all">{pair.supplementary.name}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap">{pairedByLabels[pair.pairedBy]}</td>
+                                        <td className="px-4 py-2">
+                                            {!result ? '—' : result.error ? (
+                                                <span className="flex items-start text-red-600">
+                                                    <XCircle size={16} className="mr-1 flex-shrink-0 mt-0.5" /> {result.error}
+                                                </span>
+                                            ) : (
+                                                <span className="flex items-center text-green-600 whitespace-nowrap">
+                                                    <CheckCircle size={16} className="mr-1" /> {result.projectCount} đề tài
+                                                </span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {unpaired.length > 0 && (
+                <div className="p-3 rounded-xl bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+                    <p className="flex items-center font-semibold mb-1">
+                        <AlertTriangle size={16} className="mr-2" /> Không ghép được cặp ({unpaired.length}):
+                    </p>
+                    <p className="break-all">{unpaired.map(f => f.name).join(', ')}</p>
+                </div>
+            )}
+        </div>
+    );
+};
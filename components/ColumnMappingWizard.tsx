@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { ColumnInspection, ColumnMapping, MappedField, MappingProfile, MappingRole } from '../types';
+import { MAPPING_FIELDS, applyMappingProfile, detectColumnsInRow, getHeaders, getMissingRequiredFields } from '../services/columnMapping';
+import { AlertTriangle, CheckCircle, Save, Trash2 } from 'lucide-react';
+
+interface ColumnMappingWizardProps {
+    role: MappingRole;
+    title: string;
+    inspection: ColumnInspection;
+    profiles: MappingProfile[];
+    onMappingChange: (mapping: ColumnMapping, profileName?: string) => void;
+    onSaveProfile: (name: string) => void;
+    onDeleteProfile: (id: string) => void;
+}
+
+const PREVIEW_ROW_COUNT = 5;
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ role, title, inspection, profiles, onMappingChange, onSaveProfile, onDeleteProfile }) => {
+    const [profileName, setProfileName] = useState('');
+    const [profileError, setProfileError] = useState<string | null>(null);
+
+    const { previewRows, mapping } = inspection;
+    const headers = getHeaders(previewRows, mapping.headerRowIndex);
+    const missingFields = getMissingRequiredFields(mapping, role);
+    const dataPreview = previewRows.slice(mapping.headerRowIndex + 1, mapping.headerRowIndex + 1 + PREVIEW_ROW_COUNT);
+    const roleProfiles = profiles.filter(p => p.role === role);
+
+    const fieldByColumn = new Map<number, string>();
+    MAPPING_FIELDS[role].forEach(def => {
+        const index = mapping.columns[def.field];
+        if (index !== undefined) fieldByColumn.set(index, def.label);
+    });
+
+    const handleHeaderRowChange = (headerRowIndex: number) => {
+        onMappingChange(detectColumnsInRow(previewRows, headerRowIndex, role));
+    };
+
+    const handleFieldChange = (field: MappedField, value: string) => {
+        const columns = { ...mapping.columns };
+        if (value === '') {
+            delete columns[field];
+        } else {
+            columns[field] = parseInt(value, 10);
+        }
+        onMappingChange({ ...mapping, columns });
+    };
+
+    const handleApplyProfile = (id: string) => {
+        const profile = roleProfiles.find(p => p.id === id);
+        if (!profile) return;
+        const applied = applyMappingProfile(previewRows, profile);
+        if (applied) {
+            setProfileError(null);
+            onMappingChange(applied, profile.name);
+        } else {
+            setProfileError(`File không có đủ các cột của hồ sơ "${profile.name}".`);
+        }
+    };
+
+    const handleSave = () => {
+        if (!profileName.trim()) return;
+        onSaveProfile(profileName.trim());
+        setProfileName('');
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100 space-y-4 animate-fade-in">
+            <div className="flex items-start justify-between">
+                <div>
+                    <h2 className="text-xl font-bold text-gray-800">{title}</h2>
+                    <p className="text-sm text-gray-500 break-all">{inspection.fileName}</p>
+                </div>
+                {missingFields.length > 0 ? (
+                    <span className="flex items-center text-sm text-red-600 font-medium">
+                        <AlertTriangle size={16} className="mr-1" /> Thiếu: {missingFields.join(', ')}
+                    </span>
+                ) : (
+                    <span className="flex items-center text-sm text-green-600 font-medium">
+                        <CheckCircle size={16} className="mr-1" />
+                        {inspection.profileName ? `Hồ sơ: ${inspection.profileName}` : 'Đã ghép đủ cột'}
+                    </span>
+                )}
+            </div>
+
+            <div className="flex items-center space-x-3">
+                <span className="font-semibold text-gray-600">Dòng tiêu đề:</span>
+                <select
+                    value={mapping.headerRowIndex}
+                    onChange={(e) => handleHeaderRowChange(parseInt(e.target.value, 10))}
+                    className="p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition"
+                >
+                    {previewRows.slice(0, 10).map((row, index) => (
+                        <option key={index} value={index}>
+                            Dòng {index + 1}: {row.filter(c => c !== null && String(c).trim() !== '').slice(0, 3).join(' | ')}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {MAPPING_FIELDS[role].map(def => (
+                    <label key={def.field} className="flex items-center justify-between space-x-3">
+                        <span className="text-gray-700">
+                            {def.label}{def.required && <span className="text-red-500"> *</span>}
+                        </span>
+                        <select
+                            value={mapping.columns[def.field] ?? ''}
+                            onChange={(e) => handleFieldChange(def.field, e.target.value)}
+                            className="p-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 transition w-1/2"
+                        >
+                            <option value="">-- Không dùng --</option>
+                            {headers.map((header, index) => (
+                                <option key={index} value={index}>
+                                    Cột {index + 1}{header ? `: ${header}` : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+            </div>
+
+            <div className="overflow-x-auto border rounded-xl">
+                <table className="w-full text-sm text-left text-gray-600">
+                    <thead className="text-xs text-gray-700 bg-gray-100">
+                        <tr>
+                            {headers.map((header, index) => (
+                                <th key={index} className="px-4 py-2 whitespace-nowrap">
+                                    {fieldByColumn.has(index) && (
+                                        <span className="block text-blue-600 font-bold">→ {fieldByColumn.get(index)}</span>
+                                    )}
+                                    {header || `Cột ${index + 1}`}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {dataPreview.map((row, rowIndex) => (
+                            <tr key={rowIndex} className="border-b">
+                                {headers.map((_, colIndex) => (
+                                    <td key={colIndex} className={`px-4 py-2 whitespace-nowrap ${fieldByColumn.has(colIndex) ? 'bg-blue-50' : ''}`}>
+                                        {row[colIndex] ?? ''}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="pt-4 border-t border-gray-200 space-y-3">
+                <div className="flex items-center space-x-3">
+                    <span className="font-semibold text-gray-600">Hồ sơ đã lưu:</span>
+                    <select
+                        value=""
+                        onChange={(e) => handleApplyProfile(e.target.value)}
+                        className="p-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 transition"
+                        disabled={roleProfiles.length === 0}
+                    >
+                        <option value="">{roleProfiles.length === 0 ? 'Chưa có hồ sơ' : '-- Áp dụng hồ sơ --'}</option>
+                        {roleProfiles.map(p => (
+                            <option key={p.id} value={p.id}>{p.faculty ? `${p.faculty} — ${p.name}` : p.name}</option>
+                        ))}
+                    </select>
+                </div>
+                {profileError && <p className="text-sm text-red-600">{profileError}</p>}
+                {roleProfiles.length > 0 && (
+                    <ul className="text-sm space-y-1">
+                        {roleProfiles.map(p => (
+                            <li key={p.id} className="flex items-center justify-between text-gray-600">
+                                <span>{p.faculty ? `${p.faculty} — ${p.name}` : p.name}</span>
+                                <button onClick={() => onDeleteProfile(p.id)} className="p-1 rounded hover:bg-gray-100" aria-label="Xóa hồ sơ">
+                                    <Trash2 size={16} className="text-gray-500" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div className="flex items-center space-x-3">
+                    <input
+                        type="text"
+                        value={profileName}
+                        onChange={(e) => setProfileName(e.target.value)}
+                        placeholder="Tên hồ sơ ghép cột"
+                        className="flex-1 p-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 transition"
+                    />
+                    <button
+                        onClick={handleSave}
+                        disabled={!profileName.trim() || missingFields.length > 0}
+                        className="flex items-center text-white font-semibold py-2 px-4 rounded-xl bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Save size={16} className="mr-2" /> Lưu hồ sơ
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,7 +1,7 @@
 
 import React from 'react';
-import { Book, Users, AlertCircle, ShieldX, Edit, ShieldCheck } from 'lucide-react';
-import { DashboardStats } from '../types';
+import { Book, Users, AlertCircle, ShieldX, Edit, ShieldCheck, BookX, TrendingDown } from 'lucide-react';
+import { DashboardStats, MergedData, SupervisorSummary } from '../types';
 
 type StatCategory = keyof Omit<DashboardStats, 'totalProjects' | 'totalStudents'>;
 
@@ -35,9 +35,118 @@ const StatCard: React.FC<StatCardProps> = ({ icon, title, value, color, onClick,
     );
 };
 
-export const Dashboard: React.FC<{ stats: DashboardStats, onStatClick: (category: StatCategory) => void }> = ({ stats, onStatClick }) => {
+const SheetBreakdown: React.FC<{ data: MergedData[] }> = ({ data }) => {
+    const bySheet = new Map<string, { projects: number, students: number }>();
+    data.forEach(row => {
+        const sheet = row.tensheet || '';
+        const entry = bySheet.get(sheet) || { projects: 0, students: 0 };
+        entry.projects++;
+        entry.students += row.sohocvien || 0;
+        bySheet.set(sheet, entry);
+    });
+
+    if (bySheet.size < 2) return null;
+
+    return (
+        <div className="md:col-span-2 bg-white p-6 rounded-2xl shadow-lg border border-gray-100">
+            <h2 className="text-xl font-bold text-gray-800 mb-4">Theo sheet</h2>
+            <table className="w-full text-sm text-left text-gray-600">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                    <tr>
+                        <th className="px-4 py-2">Sheet</th>
+                        <th className="px-4 py-2">Số đề tài</th>
+                        <th className="px-4 py-2">Số học viên</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {Array.from(bySheet.entries()).map(([sheet, counts]) => (
+                        <tr key={sheet} className="border-b">
+                            <td className="px-4 py-2">{sheet || '—'}</td>
+                            <td className="px-4 py-2">{counts.projects}</td>
+                            <td className="px-4 py-2">{counts.students}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const SUPERVISOR_COLUMNS: [StatCategory, string][] = [
+    ['withinLimit', 'Đảm bảo'],
+    ['l1Edit', 'Chỉnh sửa (L1)'],
+    ['l2Process', 'Xử lý (L2)'],
+    ['l2Exceeded', 'Vượt tối đa (L2)'],
+    ['chapterExceeded', 'Chương vượt'],
+];
+
+const SupervisorBreakdown: React.FC<{ supervisors: SupervisorSummary[], onSupervisorClick?: (supervisor: SupervisorSummary) => void }> = ({ supervisors, onSupervisorClick }) => {
+    if (supervisors.length === 0) return null;
+
+    return (
+        <div className="md:col-span-2 bg-white p-6 rounded-2xl shadow-lg border border-gray-100 overflow-x-auto">
+            <h2 className="text-xl font-bold text-gray-800 mb-4">Theo người hướng dẫn</h2>
+            <table className="w-full text-sm text-left text-gray-600">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                    <tr>
+                        <th className="px-4 py-2">Người hướng dẫn</th>
+                        <th className="px-4 py-2">Số đề tài</th>
+                        <th className="px-4 py-2">Số học viên</th>
+                        {SUPERVISOR_COLUMNS.map(([category, label]) => <th key={category} className="px-4 py-2">{label}</th>)}
+                        <th className="px-4 py-2">TV trung bình</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {supervisors.map(supervisor => (
+                        <tr
+                            key={supervisor.name}
+                            onClick={onSupervisorClick ? () => onSupervisorClick(supervisor) : undefined}
+                            className={`border-b ${onSupervisorClick ? 'cursor-pointer hover:bg-blue-50' : ''}`}
+                        >
+                            <td className="px-4 py-2 font-medium text-gray-800">{supervisor.name}</td>
+                            <td className="px-4 py-2">{supervisor.projects.length}</td>
+                            <td className="px-4 py-2">{supervisor.students}</td>
+                            {SUPERVISOR_COLUMNS.map(([category]) => <td key={category} className="px-4 py-2">{supervisor.counts[category] || '—'}</td>)}
+                            <td className="px-4 py-2">{supervisor.averageTv.toFixed(2)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+interface DashboardProps {
+    stats: DashboardStats;
+    data?: MergedData[] | null;
+    supervisors?: SupervisorSummary[];
+    onStatClick: (category: StatCategory) => void;
+    onSupervisorClick?: (supervisor: SupervisorSummary) => void;
+    reportSync?: { downloadedAt: Date, changes: string[] } | null; // Compared with the last reports ZIP; null before the first
+}
+
+const ReportSyncNotice: React.FC<{ reportSync: { downloadedAt: Date, changes: string[] } | null }> = ({ reportSync }) => {
+    if (!reportSync) {
+        return <p className="md:col-span-2 text-sm text-gray-500">Thống kê được tính trực tiếp từ dữ liệu, lần kiểm tra và loại tài liệu đang chọn; chưa sinh báo cáo nào.</p>;
+    }
+    const time = reportSync.downloadedAt.toLocaleTimeString('vi-VN');
+    if (reportSync.changes.length === 0) {
+        return <p className="md:col-span-2 text-sm text-gray-500">Thống kê khớp với file 'Cac_Bao_Cao.zip' tải xuống lúc {time}.</p>;
+    }
+    return (
+        <div className="md:col-span-2 p-4 rounded-xl bg-yellow-50 border border-yellow-300 text-sm text-yellow-800">
+            <p className="font-semibold">Thống kê không còn khớp với file 'Cac_Bao_Cao.zip' tải xuống lúc {time}. Hãy sinh lại báo cáo nếu cần gửi kết quả theo phân loại hiện tại.</p>
+            <ul className="mt-1 list-disc pl-5">
+                {reportSync.changes.map(change => <li key={change}>{change}</li>)}
+            </ul>
+        </div>
+    );
+};
+
+export const Dashboard: React.FC<DashboardProps> = ({ stats, data, supervisors, onStatClick, onSupervisorClick, reportSync = null }) => {
     return (
         <div className="animate-fade-in grid grid-cols-1 md:grid-cols-2 gap-6">
+            <ReportSyncNotice reportSync={reportSync} />
             <StatCard
                 icon={<Book />}
                 title="Tổng số đề tài"
@@ -84,6 +193,26 @@ export const Dashboard: React.FC<{ stats: DashboardStats, onStatClick: (category
                 onClick={() => onStatClick('l2Exceeded')}
                 isClickable={true}
             />
+            <StatCard
+                icon={<BookX />}
+                title="Có chương vượt ngưỡng"
+                value={stats.chapterExceeded}
+                color="bg-pink-100 text-pink-800 border-pink-200"
+                onClick={() => onStatClick('chapterExceeded')}
+                isClickable={true}
+            />
+            {stats.resubmittedAfterEdit > 0 && (
+                <StatCard
+                    icon={<TrendingDown />}
+                    title={`Đã khắc phục sau chỉnh sửa (trên ${stats.resubmittedAfterEdit} đề tài nộp lại)`}
+                    value={stats.fixedAfterEdit}
+                    color="bg-emerald-100 text-emerald-800 border-emerald-200"
+                    onClick={() => onStatClick('fixedAfterEdit')}
+                    isClickable={true}
+                />
+            )}
+            {data && <SheetBreakdown data={data} />}
+            {supervisors && <SupervisorBreakdown supervisors={supervisors} onSupervisorClick={onSupervisorClick} />}
         </div>
     );
 };
@@ -1,10 +1,17 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { INTERPRETATION_LABELS } from '../services/numberParser';
+import { Eye } from 'lucide-react';
 
 interface DataTableProps {
     data: Record<string, any>[];
+    chapterViolations?: string[][]; // Chapter keys over the limit, by row index
+    selectedRowIndex?: number | null;
+    onPreviewRow?: (rowIndex: number) => void;
 }
 
-export const DataTable: React.FC<DataTableProps> = ({ data }) => {
+export const DataTable: React.FC<DataTableProps> = ({ data, chapterViolations = [], selectedRowIndex = null, onPreviewRow }) => {
+    const [onlyChapterViolations, setOnlyChapterViolations] = useState(false);
+
     if (!data || data.length === 0) {
         return <div className="text-center p-8 text-gray-500">Không có dữ liệu để hiển thị.</div>;
     }
@@ -13,7 +20,8 @@ export const DataTable: React.FC<DataTableProps> = ({ data }) => {
     // This prevents columns from being missed if they aren't present in the first row.
     const allHeadersSet = new Set<string>();
     data.forEach(row => {
-        Object.keys(row).forEach(key => allHeadersSet.add(key));
+        // Object values (e.g. the source cell references) are metadata, not columns
+        Object.keys(row).filter(key => typeof row[key] !== 'object').forEach(key => allHeadersSet.add(key));
     });
     const allHeaders = Array.from(allHeadersSet);
 
@@ -25,7 +33,7 @@ export const DataTable: React.FC<DataTableProps> = ({ data }) => {
     const standardHeaders = allHeaders.filter(h => !chapterHeaders.includes(h));
 
     // Define a preferred order for standard headers
-    const preferredOrder = ['tendetai', 'hotenhv', 'sohocvien', 'nguoihuongdan', 'tv'];
+    const preferredOrder = ['tenfile', 'tensheet', 'tendetai', 'hotenhv', 'sohocvien', 'nguoihuongdan', 'tv'];
     standardHeaders.sort((a, b) => {
         const indexA = preferredOrder.indexOf(a.toLowerCase());
         const indexB = preferredOrder.indexOf(b.toLowerCase());
@@ -43,15 +51,36 @@ export const DataTable: React.FC<DataTableProps> = ({ data }) => {
         sohocvien: 'Số HV',
         nguoihuongdan: 'Người hướng dẫn',
         tv: 'TV',
+        dokhop: 'Độ khớp (%)',
+        tensheet: 'Sheet',
+        tenfile: 'File nguồn',
     }
 
+    const violationCount = chapterViolations.filter(keys => keys.length > 0).length;
+    // Original row indexes are kept so that the violations still line up after filtering
+    const visibleRows = data
+        .map((row, rowIndex) => ({ row, rowIndex }))
+        .filter(({ rowIndex }) => !onlyChapterViolations || (chapterViolations[rowIndex]?.length || 0) > 0);
+
     return (
         <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100 animate-fade-in">
-            <h2 className="text-xl font-bold text-gray-800 mb-4">Dữ liệu đã gộp</h2>
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-800">Dữ liệu đã gộp</h2>
+                <label className="flex items-center space-x-2 cursor-pointer text-sm">
+                    <input
+                        type="checkbox"
+                        checked={onlyChapterViolations}
+                        onChange={(e) => setOnlyChapterViolations(e.target.checked)}
+                        className="h-4 w-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <span className="font-semibold text-gray-600">Chỉ đề tài có chương vượt ngưỡng ({violationCount})</span>
+                </label>
+            </div>
             <div className="overflow-x-auto max-h-[60vh]">
                 <table className="w-full text-sm text-left text-gray-600">
                     <thead className="text-xs text-gray-700 uppercase bg-gray-100 sticky top-0">
                         <tr>
+                            {onPreviewRow && <th scope="col" className="px-3 py-3"><span className="sr-only">Xem trước</span></th>}
                             {headers.map((header) => (
                                 <th key={header} scope="col" className="px-6 py-3 whitespace-nowrap">
                                     {headerDisplayNames[header.toLowerCase()] || header.toUpperCase()}
@@ -60,13 +89,29 @@ export const DataTable: React.FC<DataTableProps> = ({ data }) => {
                         </tr>
                     </thead>
                     <tbody>
-                        {data.map((row, rowIndex) => (
-                            <tr key={rowIndex} className="bg-white border-b hover:bg-blue-50 transition-colors">
-                                {headers.map((header, colIndex) => (
-                                    <td key={`${rowIndex}-${colIndex}`} className="px-6 py-4 whitespace-nowrap">
-                                        {typeof row[header] === 'number' ? row[header].toFixed(2) : row[header]}
+                        {visibleRows.map(({ row, rowIndex }) => (
+                            <tr key={rowIndex} className={`border-b hover:bg-blue-50 transition-colors ${rowIndex === selectedRowIndex ? 'bg-blue-100' : 'bg-white'}`}>
+                                {onPreviewRow && (
+                                    <td className="px-3 py-4">
+                                        <button onClick={() => onPreviewRow(rowIndex)} className="text-blue-600 hover:text-blue-800" title="Xem trước báo cáo">
+                                            <Eye size={18} />
+                                        </button>
                                     </td>
-                                ))}
+                                )}
+                                {headers.map((header, colIndex) => {
+                                    // Show how a converted number was read, e.g. "25,5 %" as a percentage
+                                    const reading = row.nguon?.numbers?.[header];
+                                    const overLimit = chapterViolations[rowIndex]?.includes(header);
+                                    return (
+                                        <td
+                                            key={`${rowIndex}-${colIndex}`}
+                                            className={`px-6 py-4 whitespace-nowrap ${reading ? 'underline decoration-dotted cursor-help' : ''} ${overLimit ? 'bg-red-50 text-red-700 font-semibold' : ''}`}
+                                            title={reading ? `"${reading.raw}" — ${INTERPRETATION_LABELS[reading.interpretation]}` : overLimit ? 'Vượt ngưỡng chương' : undefined}
+                                        >
+                                            {typeof row[header] === 'number' ? row[header].toFixed(2) : row[header]}
+                                        </td>
+                                    );
+                                })}
                             </tr>
                         ))}
                     </tbody>
@@ -1,21 +1,47 @@
 
 import React, { useRef, useState } from 'react';
 
-interface FileUploaderProps {
+interface FileUploaderBaseProps {
     icon: React.ReactNode;
     title: string;
-    onFileSelect: (file: File | null) => void;
     acceptedTypes: string;
+}
+
+// One file at a time
+interface SingleFileUploaderProps extends FileUploaderBaseProps {
+    onFileSelect: (file: File | null) => void;
     file: File | null;
+    multiple?: false;
+    files?: never;
+    onFilesSelect?: never;
+}
+
+// Batch mode: accept several files at once
+interface MultipleFileUploaderProps extends FileUploaderBaseProps {
+    onFileSelect?: never;
+    file?: never;
+    multiple: true;
+    files: File[];
+    onFilesSelect: (files: File[]) => void;
 }
 
-export const FileUploader: React.FC<FileUploaderProps> = ({ icon, title, onFileSelect, acceptedTypes, file }) => {
+type FileUploaderProps = SingleFileUploaderProps | MultipleFileUploaderProps;
+
+export const FileUploader: React.FC<FileUploaderProps> = ({ icon, title, onFileSelect, acceptedTypes, file = null, multiple = false, files = [], onFilesSelect }) => {
     const inputRef = useRef<HTMLInputElement>(null);
     const [isDragOver, setIsDragOver] = useState(false);
 
+    const selectFiles = (fileList: FileList) => {
+        if (onFilesSelect) {
+            onFilesSelect(Array.from(fileList));
+        } else {
+            onFileSelect?.(fileList[0]);
+        }
+    };
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files.length > 0) {
-            onFileSelect(e.target.files[0]);
+            selectFiles(e.target.files);
         }
     };
 
@@ -40,7 +66,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ icon, title, onFileS
         e.stopPropagation();
         setIsDragOver(false);
         if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-            onFileSelect(e.dataTransfer.files[0]);
+            selectFiles(e.dataTransfer.files);
         }
     };
 
@@ -61,13 +87,16 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ icon, title, onFileS
                 ref={inputRef}
                 onChange={handleFileChange}
                 accept={acceptedTypes}
+                multiple={multiple}
                 className="hidden"
             />
             <div className="w-16 h-16 flex items-center justify-center rounded-full bg-gray-100 mb-2">
                 {icon}
             </div>
             <h3 className="text-lg font-bold text-gray-700">{title}</h3>
-            {file ? (
+            {multiple && files.length > 0 ? (
+                <p className="text-sm text-green-600 font-medium">Đã chọn {files.length} file</p>
+            ) : file ? (
                 <p className="text-sm text-green-600 font-medium break-all">{file.name}</p>
             ) : (
                 <p className="text-sm text-gray-500">Kéo thả hoặc nhấn để chọn file</p>
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { CheckRound, ConclusionKey, RoundRecord } from '../types';
+import { buildProjectTimelines } from '../services/checkHistory';
+import { CONCLUSION_LABELS } from '../services/conclusionPolicy';
+import { normalizeString } from '../services/stringUtils';
+import { ChevronDown, ChevronRight, Trash2 } from 'lucide-react';
+
+interface HistoryPanelProps {
+    rounds: CheckRound[];
+    onDeleteRound: (id: string) => void;
+}
+
+const conclusionColors: Record<ConclusionKey, string> = {
+    kl1: 'bg-cyan-100 text-cyan-800',
+    kl2: 'bg-orange-100 text-orange-800',
+    kl3: 'bg-yellow-100 text-yellow-800',
+    kl4: 'bg-red-100 text-red-800',
+};
+
+const formatRatio = (value: number | undefined): string => typeof value === 'number' ? value.toFixed(2) : '—';
+
+const TimelineRow: React.FC<{ timeline: RoundRecord[], roundNumbers: number[] }> = ({ timeline, roundNumbers }) => {
+    const [expanded, setExpanded] = useState(false);
+    const latest = timeline[timeline.length - 1];
+    const byRound = new Map<number, RoundRecord>(timeline.map(record => [record.round, record]));
+    const chapterKeys = Array.from(new Set<string>(timeline.flatMap(record => Object.keys(record.chapters))))
+        .sort((a, b) => parseInt(a.substring(1)) - parseInt(b.substring(1)));
+
+    return (
+        <>
+            <tr className="bg-white border-b hover:bg-blue-50 transition-colors cursor-pointer" onClick={() => setExpanded(!expanded)}>
+                <td className="px-4 py-3">{expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}</td>
+                <td className="px-4 py-3 max-w-xs truncate" title={latest.tendetai}>{latest.tendetai}</td>
+                <td className="px-4 py-3 max-w-[12rem] truncate" title={latest.hotenhv}>{latest.hotenhv}</td>
+                {roundNumbers.map(round => {
+                    const record = byRound.get(round);
+                    return (
+                        <td key={round} className="px-4 py-3 whitespace-nowrap">
+                            {record ? (
+                                <span className={`px-2 py-1 rounded-md font-semibold ${conclusionColors[record.conclusion]}`} title={`${record.date} — ${CONCLUSION_LABELS[record.conclusion]}`}>
+                                    {formatRatio(record.tv)}
+                                </span>
+                            ) : <span className="text-gray-300">—</span>}
+                        </td>
+                    );
+                })}
+            </tr>
+            {expanded && (
+                <tr className="bg-gray-50 border-b">
+                    <td></td>
+                    <td colSpan={2 + roundNumbers.length} className="px-4 py-3">
+                        {chapterKeys.length === 0 ? (
+                            <p className="text-gray-500">Không có tỉ lệ theo chương.</p>
+                        ) : (
+                            <table className="text-xs text-left">
+                                <thead>
+                                    <tr>
+                                        <th className="px-3 py-1">Chương</th>
+                                        {roundNumbers.map(round => <th key={round} className="px-3 py-1">Lần {round}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {chapterKeys.map(key => (
+                                        <tr key={key}>
+                                            <td className="px-3 py-1">Chương {key.substring(1)}</td>
+                                            {roundNumbers.map(round => (
+                                                <td key={round} className="px-3 py-1">{formatRatio(byRound.get(round)?.chapters[key])}</td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </td>
+                </tr>
+            )}
+        </>
+    );
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ rounds, onDeleteRound }) => {
+    const [search, setSearch] = useState('');
+    const timelines = useMemo(() => buildProjectTimelines(rounds), [rounds]);
+    const roundNumbers = Array.from(new Set<number>(rounds.map(r => r.round))).sort((a, b) => a - b);
+
+    const query = normalizeString(search);
+    const visibleTimelines = query
+        ? timelines.filter(t => t.some(record => normalizeString(record.tendetai).includes(query) || normalizeString(record.hotenhv).includes(query)))
+        : timelines;
+
+    if (rounds.length === 0) {
+        return <div className="text-center text-gray-500 mt-10">Chưa có lần kiểm tra nào được lưu. Kết quả được lưu mỗi khi sinh báo cáo.</div>;
+    }
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Các lần kiểm tra đã lưu</h2>
+                <table className="w-full text-sm text-left text-gray-600">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                        <tr>
+                            <th className="px-4 py-2">Lần</th>
+                            <th className="px-4 py-2">Ngày kiểm tra</th>
+                            <th className="px-4 py-2">Số đề tài</th>
+                            <th className="px-4 py-2">Nguồn</th>
+                            <th className="px-4 py-2">Loại tài liệu</th>
+                            <th className="px-4 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {[...rounds].sort((a, b) => a.round - b.round || a.date.localeCompare(b.date)).map(round => (
+                            <tr key={round.id} className="border-b">
+                                <td className="px-4 py-2 font-semibold">{round.round}</td>
+                                <td className="px-4 py-2">{round.date}</td>
+                                <td className="px-4 py-2">{round.projects.length}</td>
+                                <td className="px-4 py-2 max-w-xs truncate" title={round.sources.join(', ')}>{round.sources.join(', ') || '—'}</td>
+                                <td className="px-4 py-2">{round.documentTypeId}</td>
+                                <td className="px-4 py-2">
+                                    <button onClick={() => onDeleteRound(round.id)} className="text-red-600 hover:text-red-800" title="Xóa lần kiểm tra này">
+                                        <Trash2 size={16} />
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-bold text-gray-800">Diễn biến TV theo đề tài</h2>
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Tìm đề tài hoặc học viên"
+                        className="w-64 p-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 transition"
+                    />
+                </div>
+                <div className="overflow-x-auto max-h-[60vh]">
+                    <table className="w-full text-sm text-left text-gray-600">
+                        <thead className="text-xs text-gray-700 uppercase bg-gray-100 sticky top-0">
+                            <tr>
+                                <th className="px-4 py-3"></th>
+                                <th className="px-4 py-3">Đề tài</th>
+                                <th className="px-4 py-3">Học viên</th>
+                                {roundNumbers.map(round => <th key={round} className="px-4 py-3 whitespace-nowrap">TV lần {round}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleTimelines.map((timeline, index) => (
+                                <TimelineRow key={index} timeline={timeline} roundNumbers={roundNumbers} />
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { MailRecipients, MailTemplate, MissingRecipient } from '../types';
+import { DEFAULT_MAIL_TEXTS, MAIL_FIELDS, MAIL_FOLDER, MAIL_RECIPIENT_OPTIONS, findUnknownMailPlaceholders } from '../services/mailMerge';
+
+interface MailMergeOptionsProps {
+    enabled: boolean;
+    onEnabledChange: (enabled: boolean) => void;
+    template: MailTemplate;
+    onChange: (template: MailTemplate) => void;
+    missing: MissingRecipient[]; // Reports of the current data that would get no email
+}
+
+const inputClass = "p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition";
+
+export const MailMergeOptions: React.FC<MailMergeOptionsProps> = ({ enabled, onEnabledChange, template, onChange, missing }) => {
+    const unknownPlaceholders = Array.from(new Set([...findUnknownMailPlaceholders(template.subject), ...findUnknownMailPlaceholders(template.body)]));
+
+    // Untouched default texts follow the kind of recipient; edited ones are kept
+    const changeRecipients = (recipients: MailRecipients) => {
+        const current = DEFAULT_MAIL_TEXTS[template.recipients];
+        const isDefault = template.subject === current.subject && template.body === current.body;
+        onChange({ ...template, recipients, ...(isDefault ? DEFAULT_MAIL_TEXTS[recipients] : {}) });
+    };
+
+    return (
+        <div className="space-y-3">
+            <label className="flex items-center space-x-2 cursor-pointer">
+                <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} className="h-5 w-5 text-blue-600 rounded focus:ring-blue-500" />
+                <span className="font-semibold text-gray-600">Soạn sẵn thư gửi kết quả (.eml, đính kèm báo cáo)</span>
+            </label>
+            {enabled && (
+                <div className="space-y-3 pl-7">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <label className="flex flex-col text-sm text-gray-600">
+                            <span>Người nhận</span>
+                            <select value={template.recipients} onChange={(e) => changeRecipients(e.target.value as MailRecipients)} className={inputClass}>
+                                {MAIL_RECIPIENT_OPTIONS.map(({ recipients, label }) => <option key={recipients} value={recipients}>{label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex flex-col text-sm text-gray-600">
+                            <span>Địa chỉ gửi (nếu cần)</span>
+                            <input type="email" value={template.sender} onChange={(e) => onChange({ ...template, sender: e.target.value })} placeholder="Để trống để dùng tài khoản của trình gửi thư" className={inputClass} />
+                        </label>
+                    </div>
+                    <label className="flex flex-col text-sm text-gray-600">
+                        <span>Tiêu đề</span>
+                        <input type="text" value={template.subject} onChange={(e) => onChange({ ...template, subject: e.target.value })} className={`${inputClass} font-mono text-sm`} />
+                    </label>
+                    <label className="flex flex-col text-sm text-gray-600">
+                        <span>Nội dung</span>
+                        <textarea value={template.body} onChange={(e) => onChange({ ...template, body: e.target.value })} rows={8} className={`${inputClass} font-mono text-sm`} />
+                    </label>
+                    <p className="text-xs text-gray-500">
+                        Dùng các placeholder của file mẫu Word như <span className="font-mono">{'{hoten_hv}'}</span>, <span className="font-mono">{'{ten_detai}'}</span>, <span className="font-mono">{'{TV}'}</span>, <span className="font-mono">{'{han_nop_lai}'}</span>, cùng với{' '}
+                        {MAIL_FIELDS.map(({ name, label }, index) => <React.Fragment key={name}>{index > 0 && ', '}<span className="font-mono" title={label}>{`{${name}}`}</span></React.Fragment>)}.
+                        {' '}Thư được lưu trong thư mục <span className="font-mono">{MAIL_FOLDER}</span> của file ZIP; mở từng file bằng Outlook, Thunderbird... rồi bấm Gửi.
+                        {' '}{template.recipients === 'supervisor' ? "Địa chỉ lấy từ cột 'Email người hướng dẫn'" : "Địa chỉ lấy từ cột 'Email'"} của file chính.
+                    </p>
+                    {unknownPlaceholders.length > 0 && (
+                        <p className="text-xs text-red-600">Không nhận ra {unknownPlaceholders.map(t => `{${t}}`).join(', ')}; các mục này sẽ giữ nguyên trong thư.</p>
+                    )}
+                    {missing.length > 0 && (
+                        <div className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+                            <p className="font-semibold">{missing.length} báo cáo chưa có địa chỉ email hợp lệ, sẽ không có thư:</p>
+                            <ul className="mt-1 max-h-40 overflow-y-auto list-disc pl-5">
+                                {missing.map((entry, index) => (
+                                    <li key={index}>Dòng {entry.rowIndex + 1}: {entry.recipient} - {entry.tendetai || '(chưa có tên đề tài)'}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
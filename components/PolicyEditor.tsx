@@ -0,0 +1,342 @@
+import React, { useState } from 'react';
+import { ConclusionKey, ConclusionPolicy, DeductionStep, DocumentTypePolicy, RatioBand } from '../types';
+import { CONCLUSION_KEYS, CONCLUSION_LABELS, DEFAULT_CHAPTER_NOTE, DEFAULT_POLICY, validateConclusionPolicy } from '../services/conclusionPolicy';
+import { AlertTriangle, CheckCircle, Plus, Save, Trash2 } from 'lucide-react';
+
+interface PolicyEditorProps {
+    policies: ConclusionPolicy[];
+    activePolicyId: string;
+    onSave: (policy: ConclusionPolicy) => ConclusionPolicy; // Returns the saved version
+    onDelete: (id: string) => void;
+}
+
+const deepCopy = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Keywords are edited as a comma-separated list and only cleaned up when saved, so typing a comma works.
+const cleanKeywords = (policy: ConclusionPolicy): ConclusionPolicy => ({
+    ...policy,
+    documentTypes: policy.documentTypes.map(type => ({
+        ...type,
+        fileNameKeywords: type.fileNameKeywords.map(k => k.trim()).filter(Boolean),
+    })),
+});
+
+// The conclusion a band gives in a round; rounds past the end of the list reuse its last entry.
+const conclusionInRound = (band: RatioBand, round: number): ConclusionKey =>
+    band.conclusions[Math.min(round, band.conclusions.length - 1)] || 'kl1';
+
+const selectClass = "p-1 border rounded-md text-sm focus:ring-2 focus:ring-blue-500";
+const inputClass = "p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition";
+
+export const PolicyEditor: React.FC<PolicyEditorProps> = ({ policies, activePolicyId, onSave, onDelete }) => {
+    const [selectedId, setSelectedId] = useState(activePolicyId);
+    const selected = policies.find(p => p.id === selectedId) || DEFAULT_POLICY;
+    const [draft, setDraft] = useState<ConclusionPolicy>(() => deepCopy(selected));
+
+    const problems = validateConclusionPolicy(cleanKeywords(draft));
+    const roundCount = Math.max(2, ...draft.documentTypes.flatMap(t => t.bands.map(b => b.conclusions.length)));
+    const sortedPolicies = [...policies].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom) || a.version - b.version);
+
+    const handleSelect = (id: string) => {
+        setSelectedId(id);
+        setDraft(deepCopy(policies.find(p => p.id === id) || DEFAULT_POLICY));
+    };
+
+    const updateType = (typeIndex: number, changes: Partial<DocumentTypePolicy>) => {
+        setDraft(prev => ({
+            ...prev,
+            documentTypes: prev.documentTypes.map((type, i) => i === typeIndex ? { ...type, ...changes } : type),
+        }));
+    };
+
+    const updateBand = (typeIndex: number, bandIndex: number, changes: Partial<RatioBand>) => {
+        const bands = draft.documentTypes[typeIndex].bands.map((band, i) => i === bandIndex ? { ...band, ...changes } : band);
+        updateType(typeIndex, { bands });
+    };
+
+    const setBandConclusion = (typeIndex: number, bandIndex: number, round: number, conclusion: ConclusionKey) => {
+        const band = draft.documentTypes[typeIndex].bands[bandIndex];
+        const conclusions = Array.from({ length: roundCount }, (_, r) => conclusionInRound(band, r));
+        conclusions[round] = conclusion;
+        updateBand(typeIndex, bandIndex, { conclusions });
+    };
+
+    const addBand = (typeIndex: number) => {
+        const bands = [...draft.documentTypes[typeIndex].bands];
+        const previousMax = bands.length > 1 ? bands[bands.length - 2].max || 0 : 0;
+        // New bands go before the last, unbounded one
+        bands.splice(Math.max(bands.length - 1, 0), 0, { max: previousMax + 5, maxInclusive: false, conclusions: ['kl1'] });
+        updateType(typeIndex, { bands });
+    };
+
+    const removeBand = (typeIndex: number, bandIndex: number) => {
+        updateType(typeIndex, { bands: draft.documentTypes[typeIndex].bands.filter((_, i) => i !== bandIndex) });
+    };
+
+    const updateDeduction = (typeIndex: number, stepIndex: number, changes: Partial<DeductionStep>) => {
+        const deductions = (draft.documentTypes[typeIndex].deductions || []).map((step, i) => i === stepIndex ? { ...step, ...changes } : step);
+        updateType(typeIndex, { deductions });
+    };
+
+    const addDeduction = (typeIndex: number) => {
+        const deductions = draft.documentTypes[typeIndex].deductions || [];
+        const last = deductions[deductions.length - 1];
+        updateType(typeIndex, { deductions: [...deductions, { from: last ? last.from + 5 : 0, points: last ? last.points + 0.5 : 0.5 }] });
+    };
+
+    const removeDeduction = (typeIndex: number, stepIndex: number) => {
+        updateType(typeIndex, { deductions: (draft.documentTypes[typeIndex].deductions || []).filter((_, i) => i !== stepIndex) });
+    };
+
+    const setRoundCount = (count: number) => {
+        setDraft(prev => ({
+            ...prev,
+            documentTypes: prev.documentTypes.map(type => ({
+                ...type,
+                bands: type.bands.map(band => ({ ...band, conclusions: Array.from({ length: count }, (_, r) => conclusionInRound(band, r)) })),
+            })),
+        }));
+    };
+
+    const addDocumentType = () => {
+        const template = draft.documentTypes[0];
+        setDraft(prev => ({
+            ...prev,
+            documentTypes: [...prev.documentTypes, {
+                id: '',
+                label: '',
+                fileNameKeywords: [],
+                outputPrefix: '',
+                bands: template ? deepCopy(template.bands) : [{ maxInclusive: false, conclusions: ['kl1'] }],
+            }],
+        }));
+    };
+
+    const handleSave = () => {
+        if (problems.length > 0) return;
+        const saved = onSave(cleanKeywords(draft));
+        setSelectedId(saved.id);
+        setDraft(deepCopy(saved));
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100 space-y-4">
+                <h2 className="text-xl font-bold text-gray-800">Quy định kết luận</h2>
+                <p className="text-sm text-gray-500">
+                    Mỗi lần lưu tạo một phiên bản mới; các phiên bản cũ được giữ lại để đánh giá lại các đợt kiểm tra trước theo quy định có hiệu lực khi đó.
+                </p>
+                <div className="flex flex-wrap items-center gap-3">
+                    <span className="font-semibold text-gray-600">Phiên bản:</span>
+                    <select value={selected.id} onChange={(e) => handleSelect(e.target.value)} className={inputClass}>
+                        {sortedPolicies.map(p => (
+                            <option key={p.id} value={p.id}>
+                                {p.name} - phiên bản {p.version} (từ {p.effectiveFrom}){p.id === activePolicyId ? ' - đang áp dụng' : ''}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => { onDelete(selected.id); handleSelect(DEFAULT_POLICY.id); }}
+                        disabled={selected.id === DEFAULT_POLICY.id}
+                        className="flex items-center text-sm text-red-600 font-semibold hover:underline disabled:opacity-50 disabled:no-underline"
+                    >
+                        <Trash2 size={16} className="mr-1" /> Xóa phiên bản
+                    </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <label className="flex flex-col text-sm font-semibold text-gray-600">
+                        Tên quy định
+                        <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={`${inputClass} mt-1 font-normal`} />
+                    </label>
+                    <label className="flex flex-col text-sm font-semibold text-gray-600">
+                        Hiệu lực từ ngày
+                        <input type="date" value={draft.effectiveFrom} onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })} className={`${inputClass} mt-1 font-normal`} />
+                    </label>
+                    <label className="md:col-span-2 flex flex-col text-sm font-semibold text-gray-600">
+                        Ghi chú
+                        <input type="text" value={draft.note || ''} onChange={(e) => setDraft({ ...draft, note: e.target.value })} placeholder="Ví dụ: Theo Quyết định số .../QĐ-..." className={`${inputClass} mt-1 font-normal`} />
+                    </label>
+                </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100 space-y-3">
+                <h3 className="text-lg font-bold text-gray-700">Nội dung kết luận</h3>
+                {CONCLUSION_KEYS.map((key, index) => (
+                    <label key={key} className="flex flex-col text-sm font-semibold text-gray-600">
+                        {CONCLUSION_LABELS[key]} <span className="font-mono text-xs text-gray-400">{`{ketluan${index + 1}}`}, {`{${key}_box}`}</span>
+                        <textarea
+                            value={draft.conclusionTexts[key]}
+                            onChange={(e) => setDraft({ ...draft, conclusionTexts: { ...draft.conclusionTexts, [key]: e.target.value } })}
+                            rows={2}
+                            className={`${inputClass} mt-1 font-normal`}
+                        />
+                    </label>
+                ))}
+                <label className="flex flex-col text-sm font-semibold text-gray-600">
+                    Ghi chú cho chương vượt ngưỡng <span className="font-mono text-xs text-gray-400">{'{ghi chu}'} trong {'{#chuong_data}'}</span>
+                    <input
+                        type="text"
+                        value={draft.chapterNote ?? DEFAULT_CHAPTER_NOTE}
+                        onChange={(e) => setDraft({ ...draft, chapterNote: e.target.value })}
+                        className={`${inputClass} mt-1 font-normal`}
+                    />
+                </label>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100 space-y-4">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-bold text-gray-700">Loại tài liệu và khoảng tỉ lệ TV</h3>
+                    <div className="flex items-center space-x-3 text-sm">
+                        <span className="text-gray-600">{roundCount} lần kiểm tra</span>
+                        <button onClick={() => setRoundCount(roundCount + 1)} className="text-blue-600 font-semibold hover:underline">Thêm lần</button>
+                        <button onClick={() => setRoundCount(roundCount - 1)} disabled={roundCount <= 2} className="text-gray-600 font-semibold hover:underline disabled:opacity-50 disabled:no-underline">Bớt lần</button>
+                    </div>
+                </div>
+                {draft.documentTypes.map((type, typeIndex) => (
+                    <div key={typeIndex} className="border rounded-xl p-4 space-y-3">
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+                            <label className="flex flex-col font-semibold text-gray-600">
+                                Mã
+                                <input type="text" value={type.id} onChange={(e) => updateType(typeIndex, { id: e.target.value })} placeholder="ThS" className={`${inputClass} mt-1 font-normal`} />
+                            </label>
+                            <label className="flex flex-col font-semibold text-gray-600">
+                                Tên trong báo cáo
+                                <input type="text" value={type.label} onChange={(e) => updateType(typeIndex, { label: e.target.value })} placeholder="Luận văn thạc sĩ" className={`${inputClass} mt-1 font-normal`} />
+                            </label>
+                            <label className="flex flex-col font-semibold text-gray-600">
+                                Từ khóa tên file mẫu
+                                <input type="text" value={type.fileNameKeywords.join(',')} onChange={(e) => updateType(typeIndex, { fileNameKeywords: e.target.value.split(',') })} placeholder="lvths, thacsi" className={`${inputClass} mt-1 font-normal`} />
+                            </label>
+                            <label className="flex flex-col font-semibold text-gray-600">
+                                Tiền tố tên file kết quả
+                                <input type="text" value={type.outputPrefix} onChange={(e) => updateType(typeIndex, { outputPrefix: e.target.value })} placeholder="KQ_ThS" className={`${inputClass} mt-1 font-normal`} />
+                            </label>
+                            <label className="flex flex-col font-semibold text-gray-600">
+                                Ngưỡng mỗi chương (%)
+                                <input
+                                    type="number"
+                                    value={type.chapterLimit ?? ''}
+                                    onChange={(e) => updateType(typeIndex, { chapterLimit: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                    placeholder="Không giới hạn"
+                                    className={`${inputClass} mt-1 font-normal`}
+                                />
+                            </label>
+                            <label className="flex flex-col font-semibold text-gray-600">
+                                Số ngày làm việc để nộp lại
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={type.resubmissionDays ?? ''}
+                                    onChange={(e) => updateType(typeIndex, { resubmissionDays: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                    placeholder="Không tính hạn"
+                                    className={`${inputClass} mt-1 font-normal`}
+                                />
+                            </label>
+                        </div>
+                        <table className="w-full text-sm text-left text-gray-600">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                                <tr>
+                                    <th className="px-3 py-2">TV đến (%)</th>
+                                    <th className="px-3 py-2">Tính cả mốc</th>
+                                    {Array.from({ length: roundCount }, (_, round) => (
+                                        <th key={round} className="px-3 py-2">Lần {round + 1}{round === roundCount - 1 ? ' trở đi' : ''}</th>
+                                    ))}
+                                    <th className="px-3 py-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {type.bands.map((band, bandIndex) => {
+                                    const isLast = bandIndex === type.bands.length - 1;
+                                    return (
+                                        <tr key={bandIndex} className="border-b">
+                                            <td className="px-3 py-2">
+                                                {isLast ? <span className="text-gray-400">Không giới hạn</span> : (
+                                                    <input
+                                                        type="number"
+                                                        value={band.max ?? ''}
+                                                        onChange={(e) => updateBand(typeIndex, bandIndex, { max: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                                        className="w-20 p-1 border rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+                                                    />
+                                                )}
+                                            </td>
+                                            <td className="px-3 py-2">
+                                                {!isLast && (
+                                                    <input type="checkbox" checked={band.maxInclusive} onChange={(e) => updateBand(typeIndex, bandIndex, { maxInclusive: e.target.checked })} className="h-4 w-4 text-blue-600 rounded focus:ring-blue-500" />
+                                                )}
+                                            </td>
+                                            {Array.from({ length: roundCount }, (_, round) => (
+                                                <td key={round} className="px-3 py-2">
+                                                    <select value={conclusionInRound(band, round)} onChange={(e) => setBandConclusion(typeIndex, bandIndex, round, e.target.value as ConclusionKey)} className={selectClass}>
+                                                        {CONCLUSION_KEYS.map(key => <option key={key} value={key}>{CONCLUSION_LABELS[key]}</option>)}
+                                                    </select>
+                                                </td>
+                                            ))}
+                                            <td className="px-3 py-2">
+                                                {!isLast && (
+                                                    <button onClick={() => removeBand(typeIndex, bandIndex)} className="text-red-600 hover:text-red-800" title="Xóa khoảng">
+                                                        <Trash2 size={16} />
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                        <div className="text-sm">
+                            <button onClick={() => addBand(typeIndex)} className="flex items-center text-blue-600 font-semibold hover:underline">
+                                <Plus size={16} className="mr-1" /> Thêm khoảng
+                            </button>
+                        </div>
+                        <div className="space-y-2 text-sm">
+                            <span className="font-semibold text-gray-600">Bảng trừ điểm ({CONCLUSION_LABELS.kl2}) <span className="font-mono text-xs text-gray-400">{'{diem_tru}'}</span></span>
+                            {(type.deductions || []).length === 0 && <p className="text-gray-400">Chưa có mốc trừ điểm, {'{diem_tru}'} để trống.</p>}
+                            {(type.deductions || []).map((step, stepIndex) => (
+                                <div key={stepIndex} className="flex items-center space-x-2">
+                                    <span>TV từ</span>
+                                    <input type="number" value={step.from} onChange={(e) => updateDeduction(typeIndex, stepIndex, { from: Number(e.target.value) })} className="w-20 p-1 border rounded-md text-sm focus:ring-2 focus:ring-blue-500" />
+                                    <span>% trừ</span>
+                                    <input type="number" step={0.25} min={0} value={step.points} onChange={(e) => updateDeduction(typeIndex, stepIndex, { points: Number(e.target.value) })} className="w-20 p-1 border rounded-md text-sm focus:ring-2 focus:ring-blue-500" />
+                                    <span>điểm</span>
+                                    <button onClick={() => removeDeduction(typeIndex, stepIndex)} className="text-red-600 hover:text-red-800" title="Xóa mốc">
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex items-center justify-between text-sm">
+                            <button onClick={() => addDeduction(typeIndex)} className="flex items-center text-blue-600 font-semibold hover:underline">
+                                <Plus size={16} className="mr-1" /> Thêm mốc trừ điểm
+                            </button>
+                            <button
+                                onClick={() => setDraft(prev => ({ ...prev, documentTypes: prev.documentTypes.filter((_, i) => i !== typeIndex) }))}
+                                className="flex items-center text-red-600 font-semibold hover:underline"
+                            >
+                                <Trash2 size={16} className="mr-1" /> Xóa loại tài liệu
+                            </button>
+                        </div>
+                    </div>
+                ))}
+                <button onClick={addDocumentType} className="flex items-center text-sm text-blue-600 font-semibold hover:underline">
+                    <Plus size={16} className="mr-1" /> Thêm loại tài liệu
+                </button>
+            </div>
+
+            <div className={`p-4 rounded-2xl border flex items-start space-x-3 ${problems.length > 0 ? 'bg-red-50 border-red-200 text-red-800' : 'bg-green-50 border-green-200 text-green-800'}`}>
+                {problems.length > 0 ? <AlertTriangle /> : <CheckCircle />}
+                <div className="flex-1 text-sm">
+                    {problems.length > 0
+                        ? <ul className="list-disc pl-4">{problems.map(p => <li key={p}>{p}</li>)}</ul>
+                        : 'Quy định hợp lệ.'}
+                </div>
+                <button
+                    onClick={handleSave}
+                    disabled={problems.length > 0}
+                    className="flex items-center text-white font-bold py-2 px-4 rounded-xl shadow-md bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Save size={18} className="mr-2" /> Lưu thành phiên bản mới
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { JobProgress } from '../types';
+import { XCircle } from 'lucide-react';
+
+interface ProgressPanelProps {
+    progress: JobProgress;
+    onCancel: () => void;
+}
+
+const formatDuration = (ms: number): string => {
+    const seconds = Math.max(1, Math.round(ms / 1000));
+    if (seconds < 60) return `${seconds} giây`;
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds % 60;
+    return rest > 0 ? `${minutes} phút ${rest} giây` : `${minutes} phút`;
+};
+
+export const ProgressPanel: React.FC<ProgressPanelProps> = ({ progress, onCancel }) => {
+    const { label, done, total, startedAt } = progress;
+    const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+
+    // The remaining time assumes the items left take as long as the ones done so far
+    let estimate = 'Đang ước tính thời gian...';
+    if (done > 0 && done < total) {
+        const elapsed = Date.now() - startedAt;
+        estimate = `Còn khoảng ${formatDuration((elapsed / done) * (total - done))}`;
+    } else if (total > 0 && done >= total) {
+        estimate = 'Đang hoàn tất...';
+    }
+
+    return (
+        <div className="space-y-2 animate-fade-in">
+            <div className="flex items-center justify-between text-sm">
+                <span className="font-semibold text-gray-700">{label}</span>
+                <span className="text-gray-500">{total > 0 ? `${done}/${total}` : ''}</span>
+            </div>
+            <div className="w-full h-3 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                    className="h-full bg-gradient-to-r from-blue-500 to-purple-600 transition-all duration-300"
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+            <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>{percent}% · {estimate}</span>
+                <button onClick={onCancel} className="flex items-center text-red-600 font-semibold hover:underline">
+                    <XCircle size={14} className="mr-1" /> Hủy
+                </button>
+            </div>
+        </div>
+    );
+};
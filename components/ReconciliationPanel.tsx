@@ -0,0 +1,198 @@
+import React from 'react';
+import { ReconciliationResult, MatchStatus, SupplementaryEntry } from '../types';
+import { assignMatch, confirmMatch, confirmPositionalMatches, dismissSupplementaryEntry, getUnmatchedSupplementaryEntries, countPendingIssues, isPendingMatch } from '../services/matching';
+import { CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+
+interface ReconciliationPanelProps {
+    reconciliation: ReconciliationResult;
+    onChange: (reconciliation: ReconciliationResult) => void;
+    onComplete: () => void;
+}
+
+const statusConfig: Record<MatchStatus, { label: string, color: string }> = {
+    [MatchStatus.Matched]: { label: 'Khớp', color: 'bg-green-100 text-green-800' },
+    [MatchStatus.Ambiguous]: { label: 'Cần xác nhận', color: 'bg-yellow-100 text-yellow-800' },
+    [MatchStatus.Unmatched]: { label: 'Không khớp', color: 'bg-red-100 text-red-800' },
+    [MatchStatus.Manual]: { label: 'Đã xác nhận', color: 'bg-blue-100 text-blue-800' },
+    [MatchStatus.Positional]: { label: 'Theo thứ tự dòng', color: 'bg-yellow-100 text-yellow-800' },
+    [MatchStatus.PositionalConfirmed]: { label: 'Đã xác nhận thứ tự dòng', color: 'bg-gray-100 text-gray-800' },
+};
+
+const describeEntry = (entry: SupplementaryEntry): string => {
+    const key = [entry.tendetai, entry.hotenhv].filter(Boolean).join(' — ') || `Dòng ${entry.index + 1}`;
+    const sheet = entry.tensheet ? `[${entry.tensheet}] ` : '';
+    const tv = entry.tv !== undefined ? ` (TV: ${entry.tv.toFixed(2)})` : '';
+    return `${sheet}${key}${tv}`;
+};
+
+const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)}%`;
+
+export const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ reconciliation, onChange, onComplete }) => {
+    const pendingCount = countPendingIssues(reconciliation);
+    const unmatchedEntries = getUnmatchedSupplementaryEntries(reconciliation);
+    const issues = reconciliation.matches.filter(isPendingMatch);
+    const resolved = reconciliation.matches.filter(m => !isPendingMatch(m));
+    const positionalCount = issues.filter(m => m.status === MatchStatus.Positional).length;
+    const isPositional = (status: MatchStatus) => status === MatchStatus.Positional || status === MatchStatus.PositionalConfirmed;
+
+    const handleSelect = (mainIndex: number, value: string) => {
+        if (value === '') return;
+        const suppIndex = value === 'none' ? null : parseInt(value, 10);
+        onChange(assignMatch(reconciliation, mainIndex, suppIndex));
+    };
+
+    const renderEntrySelect = (mainIndex: number, currentSuppIndex: number | null) => (
+        <select
+            value=""
+            onChange={(e) => handleSelect(mainIndex, e.target.value)}
+            className="p-2 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 transition max-w-xs"
+        >
+            <option value="">-- Chọn dữ liệu tỉ lệ --</option>
+            {reconciliation.suppEntries.map(entry => (
+                <option key={entry.index} value={entry.index} disabled={entry.index === currentSuppIndex}>
+                    {describeEntry(entry)}
+                </option>
+            ))}
+            <option value="none">Không có dữ liệu tỉ lệ</option>
+        </select>
+    );
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className={`p-4 rounded-2xl border flex items-center space-x-3 ${pendingCount > 0 ? 'bg-yellow-50 border-yellow-200 text-yellow-800' : 'bg-green-50 border-green-200 text-green-800'}`}>
+                {pendingCount > 0 ? <AlertTriangle /> : <CheckCircle />}
+                <p className="flex-1 font-medium">
+                    {pendingCount > 0
+                        ? `Còn ${pendingCount} mục cần đối chiếu trước khi sinh báo cáo.`
+                        : 'Tất cả đề tài đã được đối chiếu.'}
+                </p>
+                <button
+                    onClick={onComplete}
+                    disabled={pendingCount > 0}
+                    className="text-white font-bold py-2 px-4 rounded-xl shadow-md bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Hoàn tất đối chiếu
+                </button>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Đề tài cần đối chiếu (File chính)</h2>
+                {positionalCount > 0 && (
+                    <div className="mb-4 p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800 flex items-center justify-between space-x-4">
+                        <span>File bổ sung không có cột 'Tên đề tài' hoặc 'Họ tên HV', nên {positionalCount} đề tài được ghép với dữ liệu tỉ lệ theo thứ tự dòng. Chỉ xác nhận khi hai file liệt kê đề tài theo cùng một thứ tự.</span>
+                        <button
+                            onClick={() => onChange(confirmPositionalMatches(reconciliation))}
+                            className="text-blue-600 font-semibold hover:underline whitespace-nowrap"
+                        >
+                            Xác nhận tất cả
+                        </button>
+                    </div>
+                )}
+                {issues.length === 0 ? (
+                    <p className="text-gray-500">Không có đề tài nào cần đối chiếu.</p>
+                ) : (
+                    <div className="space-y-4">
+                        {issues.map(match => {
+                            const project = reconciliation.mainProjects[match.mainIndex];
+                            const proposed = reconciliation.suppEntries.find(e => e.index === match.suppIndex);
+                            return (
+                                <div key={match.mainIndex} className="p-4 border rounded-xl space-y-2">
+                                    <div className="flex items-start justify-between space-x-4">
+                                        <div>
+                                            <p className="font-semibold text-gray-800">{project.tendetai}</p>
+                                            <p className="text-sm text-gray-500">{project.hotenhv}</p>
+                                        </div>
+                                        <span className={`text-xs font-semibold px-2 py-1 rounded-full whitespace-nowrap ${statusConfig[match.status].color}`}>
+                                            {statusConfig[match.status].label}
+                                        </span>
+                                    </div>
+                                    {proposed && (
+                                        <div className="flex items-center space-x-3 text-sm">
+                                            <span className="text-gray-600">Đề xuất: {describeEntry(proposed)} — {isPositional(match.status) ? 'cùng thứ tự dòng' : `độ khớp ${formatConfidence(match.confidence)}`}</span>
+                                            <button
+                                                onClick={() => onChange(confirmMatch(reconciliation, match.mainIndex))}
+                                                className="text-blue-600 font-semibold hover:underline"
+                                            >
+                                                Xác nhận
+                                            </button>
+                                        </div>
+                                    )}
+                                    {match.candidates.length > 1 && (
+                                        <p className="text-xs text-gray-500">
+                                            Ứng viên khác: {match.candidates
+                                                .filter(c => c.suppIndex !== match.suppIndex)
+                                                .map(c => {
+                                                    const entry = reconciliation.suppEntries.find(e => e.index === c.suppIndex);
+                                                    return entry ? `${describeEntry(entry)} (${formatConfidence(c.confidence)})` : '';
+                                                })
+                                                .filter(Boolean)
+                                                .join('; ')}
+                                        </p>
+                                    )}
+                                    {renderEntrySelect(match.mainIndex, match.suppIndex)}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Dữ liệu tỉ lệ chưa được sử dụng (File bổ sung)</h2>
+                {unmatchedEntries.length === 0 ? (
+                    <p className="text-gray-500">Không có dữ liệu nào bị bỏ sót.</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {unmatchedEntries.map(entry => (
+                            <li key={entry.index} className="flex items-center justify-between p-3 border rounded-xl">
+                                <span className="flex items-center text-sm text-gray-700">
+                                    <XCircle size={16} className="text-red-500 mr-2 flex-shrink-0" />
+                                    {describeEntry(entry)}
+                                </span>
+                                <button
+                                    onClick={() => onChange(dismissSupplementaryEntry(reconciliation, entry.index))}
+                                    className="text-sm text-gray-600 font-semibold hover:underline whitespace-nowrap ml-4"
+                                >
+                                    Bỏ qua
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Đề tài đã khớp</h2>
+                <div className="overflow-x-auto max-h-[40vh]">
+                    <table className="w-full text-sm text-left text-gray-600">
+                        <thead className="text-xs text-gray-700 uppercase bg-gray-100 sticky top-0">
+                            <tr>
+                                <th className="px-4 py-3">Tên đề tài</th>
+                                <th className="px-4 py-3">Dữ liệu tỉ lệ</th>
+                                <th className="px-4 py-3">Độ khớp</th>
+                                <th className="px-4 py-3">Trạng thái</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {resolved.map(match => {
+                                const entry = reconciliation.suppEntries.find(e => e.index === match.suppIndex);
+                                return (
+                                    <tr key={match.mainIndex} className="bg-white border-b">
+                                        <td className="px-4 py-3">{reconciliation.mainProjects[match.mainIndex].tendetai}</td>
+                                        <td className="px-4 py-3">{entry ? describeEntry(entry) : 'Không có'}</td>
+                                        <td className="px-4 py-3">{isPositional(match.status) ? '—' : formatConfidence(match.confidence)}</td>
+                                        <td className="px-4 py-3 whitespace-nowrap">
+                                            <span className={`text-xs font-semibold px-2 py-1 rounded-full ${statusConfig[match.status].color}`}>
+                                                {statusConfig[match.status].label}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { ReportFolderGrouping, ReportNaming } from '../types';
+import { FILE_NAME_TOKENS, FOLDER_GROUPINGS, findUnknownTokens, getReportFolder, renderFileNamePattern } from '../services/reportNaming';
+import { SUPERVISOR_SUMMARY_FILE_NAME } from '../services/batchSummary';
+
+interface ReportNamingOptionsProps {
+    naming: ReportNaming;
+    onChange: (naming: ReportNaming) => void;
+    sample?: { [token: string]: string | undefined }; // Token values of the first report, for the preview
+}
+
+export const ReportNamingOptions: React.FC<ReportNamingOptionsProps> = ({ naming, onChange, sample }) => {
+    const unknownTokens = findUnknownTokens(naming.pattern);
+
+    const insertToken = (token: string) => {
+        const separator = naming.pattern && !naming.pattern.endsWith('_') ? '_' : '';
+        onChange({ ...naming, pattern: `${naming.pattern}${separator}{${token}}` });
+    };
+
+    let preview = '';
+    if (sample) {
+        const name = renderFileNamePattern(naming.pattern, sample) || `${sample.tien_to}_1`;
+        const folder = getReportFolder(naming.grouping, { nguoi_huongdan: sample.nguoi_huongdan, ket_luan: sample.ket_luan || '', sheet: sample.sheet });
+        preview = `${folder ? `${folder}${naming.archiveFolders ? '.zip' : ''}/` : ''}${name}.docx`;
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-3">
+                <span className="font-semibold text-gray-600">Tên file báo cáo:</span>
+                <input
+                    type="text"
+                    value={naming.pattern}
+                    onChange={(e) => onChange({ ...naming, pattern: e.target.value })}
+                    placeholder="Mặc định: {tien_to}_{stt}"
+                    className="flex-1 min-w-[16rem] p-2 border rounded-md font-mono text-sm focus:ring-2 focus:ring-blue-500 transition"
+                />
+                <select value={naming.grouping} onChange={(e) => onChange({ ...naming, grouping: e.target.value as ReportFolderGrouping })} className="p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition">
+                    {FOLDER_GROUPINGS.map(({ grouping, label }) => <option key={grouping} value={grouping}>{label}</option>)}
+                </select>
+            </div>
+            <div className="flex flex-wrap gap-2 pl-1">
+                {FILE_NAME_TOKENS.map(({ token, label }) => (
+                    <button
+                        key={token}
+                        onClick={() => insertToken(token)}
+                        title={label}
+                        className="px-2 py-0.5 rounded-md bg-gray-100 hover:bg-blue-100 font-mono text-xs text-gray-700"
+                    >
+                        {`{${token}}`}
+                    </button>
+                ))}
+            </div>
+            {unknownTokens.length > 0 && (
+                <p className="text-xs text-red-600 pl-1">Không nhận ra {unknownTokens.map(t => `{${t}}`).join(', ')}; các mục này sẽ để trống trong tên file.</p>
+            )}
+            {naming.grouping !== 'none' && (
+                <label className="flex items-center space-x-2 cursor-pointer pl-1 text-sm">
+                    <input
+                        type="checkbox"
+                        checked={naming.archiveFolders}
+                        onChange={(e) => onChange({ ...naming, archiveFolders: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <span>Nén mỗi thư mục thành một file ZIP riêng</span>
+                </label>
+            )}
+            {naming.grouping === 'supervisor' && (
+                <p className="text-xs text-gray-500 pl-1">Thư mục của mỗi người hướng dẫn có thêm file <span className="font-mono">{SUPERVISOR_SUMMARY_FILE_NAME}.xlsx</span> tổng hợp đề tài, tỉ lệ TV và kết luận của người đó.</p>
+            )}
+            {preview && <p className="text-xs text-gray-500 pl-1">Ví dụ: <span className="font-mono">{preview}</span></p>}
+        </div>
+    );
+};
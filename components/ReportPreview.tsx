@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { PreviewBlock } from '../types';
+import { parseDocumentXml, renderReportDocumentXml } from '../services/reportPreview';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface ReportPreviewProps {
+    templateFile: File | null;
+    templateData: { [key: string]: any };
+    title: string;
+    onClose: () => void;
+}
+
+const alignClasses = { left: 'text-left', center: 'text-center', right: 'text-right', justify: 'text-justify' };
+
+const Blocks: React.FC<{ blocks: PreviewBlock[] }> = ({ blocks }) => (
+    <>
+        {blocks.map((block, index) => block.type === 'paragraph' ? (
+            <p key={index} className={`min-h-[1em] whitespace-pre-wrap ${block.align ? alignClasses[block.align] : ''}`}>
+                {block.runs.map((run, runIndex) => (
+                    <span key={runIndex} className={`${run.bold ? 'font-bold' : ''} ${run.italic ? 'italic' : ''} ${run.underline ? 'underline' : ''}`}>
+                        {run.text}
+                    </span>
+                ))}
+            </p>
+        ) : (
+            <table key={index} className="w-full border-collapse my-2">
+                <tbody>
+                    {block.rows.map((row, rowIndex) => (
+                        <tr key={rowIndex}>
+                            {row.cells.map((cell, cellIndex) => (
+                                <td key={cellIndex} colSpan={cell.colSpan} className="border border-gray-400 px-2 py-1 align-top">
+                                    <Blocks blocks={cell.blocks} />
+                                </td>
+                            ))}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        ))}
+    </>
+);
+
+export const ReportPreview: React.FC<ReportPreviewProps> = ({ templateFile, templateData, title, onClose }) => {
+    const [blocks, setBlocks] = useState<PreviewBlock[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!templateFile) return;
+        // A later render replaces this one if the options change before it finishes
+        let current = true;
+        renderReportDocumentXml(templateFile, templateData)
+            .then(xml => {
+                if (!current) return;
+                setBlocks(parseDocumentXml(xml));
+                setError(null);
+            })
+            .catch(err => {
+                if (!current) return;
+                console.error(err);
+                setError(err instanceof Error ? err.message : 'Không thể hiển thị báo cáo.');
+            });
+        return () => { current = false; };
+    }, [templateFile, templateData]);
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100 mb-6 animate-fade-in">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-800 truncate" title={title}>Xem trước: {title}</h2>
+                <button onClick={onClose} className="text-gray-500 hover:text-gray-800" title="Đóng xem trước">
+                    <X size={20} />
+                </button>
+            </div>
+            {!templateFile ? (
+                <p className="text-gray-500">Chọn File Word mẫu ở mục "Chọn Files" để xem trước báo cáo.</p>
+            ) : error ? (
+                <p className="flex items-start text-red-700"><AlertTriangle size={18} className="mr-2 shrink-0" />{error}</p>
+            ) : !blocks ? (
+                <p className="text-gray-500">Đang dựng báo cáo...</p>
+            ) : (
+                <div className="max-h-[60vh] overflow-y-auto border rounded-xl bg-gray-50 p-6">
+                    <div className="bg-white shadow-md mx-auto max-w-3xl p-10 text-sm text-gray-900 font-serif">
+                        <Blocks blocks={blocks} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
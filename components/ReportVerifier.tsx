@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ManifestSignatureStatus, ReportVerification, ReportVerificationVerdict } from '../types';
+import { getSigningKeyId, verifyReport, MANIFEST_FILE_NAME } from '../services/reportIntegrity';
+import { FileUploader } from './FileUploader';
+import { Download, FileCheck2, FileJson, Upload } from 'lucide-react';
+
+interface ReportVerifierProps {
+    signingKey: string;
+    onExportKey: () => void;
+    onImportKey: (file: File) => void;
+}
+
+const VERDICTS: Record<ReportVerificationVerdict, { title: string, color: string }> = {
+    authentic: { title: 'Báo cáo chính thức, chưa bị chỉnh sửa', color: 'bg-green-50 border-green-300 text-green-800' },
+    unverifiable: { title: 'Không xác thực được: mã băm khớp với bản kê không có chữ ký hợp lệ của máy này', color: 'bg-yellow-50 border-yellow-300 text-yellow-800' },
+    modified: { title: 'Báo cáo đã bị chỉnh sửa sau khi phát hành', color: 'bg-red-50 border-red-300 text-red-800' },
+    notInManifest: { title: 'Không tìm thấy báo cáo này trong bản kê', color: 'bg-yellow-50 border-yellow-300 text-yellow-800' },
+    manifestTampered: { title: 'Bản kê đã bị chỉnh sửa, không thể dùng để xác thực', color: 'bg-red-50 border-red-300 text-red-800' },
+};
+
+const SIGNATURE_NOTES: Record<ManifestSignatureStatus, string> = {
+    valid: 'Chữ ký của bản kê hợp lệ.',
+    invalid: 'Chữ ký của bản kê không khớp với nội dung.',
+    unsigned: 'Bản kê không có chữ ký, nên có thể đã bị sửa cùng với tài liệu; mã băm trùng khớp không chứng minh được báo cáo là bản chính thức.',
+    otherKey: 'Bản kê được ký trên máy khác nên không kiểm tra được chữ ký; hãy xác thực trên máy đã phát hành báo cáo.',
+};
+
+export const ReportVerifier: React.FC<ReportVerifierProps> = ({ signingKey, onExportKey, onImportKey }) => {
+    const [documentFile, setDocumentFile] = useState<File | null>(null);
+    const [manifestFile, setManifestFile] = useState<File | null>(null);
+    const [result, setResult] = useState<ReportVerification | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [keyId, setKeyId] = useState('');
+    const keyInput = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        getSigningKeyId(signingKey).then(setKeyId);
+    }, [signingKey]);
+
+    useEffect(() => {
+        setResult(null);
+        setError(null);
+        if (!documentFile || !manifestFile) return;
+        let current = true;
+        verifyReport(documentFile, manifestFile, signingKey)
+            .then(verification => { if (current) setResult(verification); })
+            .catch(err => { if (current) setError(err instanceof Error ? err.message : 'Lỗi không xác định.'); });
+        return () => { current = false; };
+    }, [documentFile, manifestFile, signingKey]);
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100 space-y-6 animate-fade-in">
+            <div>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-bold text-gray-800">Xác thực báo cáo</h2>
+                    <div className="flex items-center space-x-2">
+                        <button onClick={() => keyInput.current?.click()} className="flex items-center text-sm font-semibold text-blue-600 hover:text-blue-800 px-3 py-2 rounded-lg border border-blue-200 hover:bg-blue-50">
+                            <Upload size={16} className="mr-1" /> Nhập khóa ký
+                        </button>
+                        <button onClick={onExportKey} className="flex items-center text-sm font-semibold text-blue-600 hover:text-blue-800 px-3 py-2 rounded-lg border border-blue-200 hover:bg-blue-50">
+                            <Download size={16} className="mr-1" /> Xuất khóa ký
+                        </button>
+                        <input
+                            ref={keyInput}
+                            type="file"
+                            accept=".json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) onImportKey(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </div>
+                </div>
+                <p className="text-sm text-gray-500 mt-1">
+                    Chọn báo cáo Word học viên nộp lại và file <span className="font-mono">{MANIFEST_FILE_NAME}.json</span> trong file ZIP của đợt đã phát hành báo cáo đó.
+                    {keyId && <> Mã khóa ký của máy này: <span className="font-mono">{keyId}</span>.</>}
+                </p>
+                <p className="text-sm text-gray-500 mt-1">
+                    Để xác thực trên máy khác, xuất khóa ký ở máy đã phát hành báo cáo rồi nhập vào máy kia. Khóa nhập vào thay cho khóa hiện tại, nên hãy xuất khóa hiện tại trước nếu còn cần. Giữ file khóa kín: ai có khóa đều ký được bản kê.
+                </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FileUploader icon={<FileCheck2 size={48} className="text-blue-500" />} title="Báo cáo cần kiểm tra" onFileSelect={setDocumentFile} acceptedTypes=".docx" file={documentFile} />
+                <FileUploader icon={<FileJson size={48} className="text-purple-500" />} title="Bản kê xác thực" onFileSelect={setManifestFile} acceptedTypes=".json" file={manifestFile} />
+            </div>
+
+            {error && <p className="p-4 rounded-xl bg-red-50 border border-red-200 text-red-700 whitespace-pre-wrap">{error}</p>}
+
+            {result && (
+                <div className="space-y-4">
+                    <div className={`p-4 rounded-xl border ${VERDICTS[result.verdict].color}`}>
+                        <p className="text-lg font-bold">{VERDICTS[result.verdict].title}</p>
+                        {result.entry && (
+                            <p className="text-sm mt-1">
+                                Đối chiếu với báo cáo {result.entry.reportLabel || `số ${result.entry.reportNumber}`} (<span className="font-mono">{result.entry.path}</span>).
+                                {result.hashMatches ? ' Mã băm SHA-256 trùng khớp với bản đã phát hành.' : ' Mã băm SHA-256 khác với bản đã phát hành.'}
+                            </p>
+                        )}
+                        {result.entry && !result.codeConsistent && <p className="text-sm mt-1">Mã xác thực ghi trong bản kê không khớp với các thông tin của báo cáo.</p>}
+                        <p className="text-sm mt-1">{SIGNATURE_NOTES[result.signature]}{result.signature === 'otherKey' && result.keyId ? ` (mã khóa ${result.keyId})` : ''}</p>
+                    </div>
+
+                    {result.fields.length > 0 && (
+                        <table className="w-full text-sm text-left text-gray-600">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                                <tr>
+                                    <th className="px-4 py-2">Thông tin</th>
+                                    <th className="px-4 py-2">Giá trị đã phát hành</th>
+                                    <th className="px-4 py-2">Trong tài liệu</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.fields.map(field => (
+                                    <tr key={field.label} className={`border-b ${field.found ? '' : 'bg-red-50'}`}>
+                                        <td className="px-4 py-2 font-medium text-gray-800">{field.label}</td>
+                                        <td className="px-4 py-2">{field.expected}</td>
+                                        <td className={`px-4 py-2 font-semibold ${field.found ? 'text-green-700' : 'text-red-700'}`}>{field.found ? 'Khớp' : 'Không còn giá trị này'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    {result.verdict === 'modified' && result.fields.every(field => field.found) && (
+                        <p className="text-sm text-gray-600">Các thông tin chính vẫn khớp, nhưng nội dung khác của tài liệu đã bị thay đổi.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { SheetInfo } from '../types';
+import { Layers } from 'lucide-react';
+
+interface SheetPickerProps {
+    sheets: SheetInfo[];
+    selected: string[];
+    onChange: (selected: string[]) => void;
+}
+
+export const SheetPicker: React.FC<SheetPickerProps> = ({ sheets, selected, onChange }) => {
+    const toggle = (name: string) => {
+        const next = selected.includes(name) ? selected.filter(s => s !== name) : [...selected, name];
+        // Keep the workbook order so batches are processed sheet by sheet
+        onChange(sheets.map(s => s.name).filter(s => next.includes(s)));
+    };
+
+    const allSelected = sheets.every(s => selected.includes(s.name));
+
+    return (
+        <div className="bg-white mt-3 p-4 rounded-2xl shadow-md border border-gray-100 space-y-3 animate-fade-in">
+            <div className="flex items-center justify-between">
+                <span className="flex items-center font-semibold text-gray-600">
+                    <Layers size={16} className="mr-2" /> {sheets.length} sheet
+                </span>
+                <button
+                    onClick={() => onChange(allSelected ? [sheets[0].name] : sheets.filter(s => s.rowCount > 0).map(s => s.name))}
+                    className="text-sm text-blue-600 font-semibold hover:underline"
+                >
+                    {allSelected ? 'Chỉ sheet đầu' : 'Xử lý tất cả'}
+                </button>
+            </div>
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {sheets.map(sheet => (
+                    <li key={sheet.name}>
+                        <label className="flex items-center justify-between cursor-pointer text-sm">
+                            <span className="flex items-center space-x-2">
+                                <input
+                                    type="checkbox"
+                                    checked={selected.includes(sheet.name)}
+                                    onChange={() => toggle(sheet.name)}
+                                    disabled={sheet.rowCount === 0}
+                                    className="h-4 w-4 text-blue-600 rounded focus:ring-blue-500"
+                                />
+                                <span className="text-gray-700">{sheet.name}</span>
+                            </span>
+                            <span className="text-gray-400">{sheet.rowCount} dòng</span>
+                        </label>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { FileUp, Combine, BarChart3, Settings } from 'lucide-react';
+import { FileUp, Combine, BarChart3, Settings, GitCompareArrows, Columns3, ListChecks, History, Library, ShieldCheck } from 'lucide-react';
 
 interface SidebarProps {
     activeView: string;
@@ -32,6 +32,24 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView }) =
                     isActive={activeView === 'files'}
                     onClick={() => setActiveView('files')}
                 />
+                <NavItem 
+                    icon={<Columns3 size={28} />} 
+                    label="Ghép cột" 
+                    isActive={activeView === 'mapping'}
+                    onClick={() => setActiveView('mapping')}
+                />
+                <NavItem 
+                    icon={<GitCompareArrows size={28} />} 
+                    label="Đối chiếu" 
+                    isActive={activeView === 'reconcile'}
+                    onClick={() => setActiveView('reconcile')}
+                />
+                <NavItem 
+                    icon={<ListChecks size={28} />} 
+                    label="Kiểm tra" 
+                    isActive={activeView === 'validation'}
+                    onClick={() => setActiveView('validation')}
+                />
                 <NavItem 
                     icon={<Combine size={28} />} 
                     label="Dữ liệu gộp" 
@@ -44,6 +62,24 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView }) =
                     isActive={activeView === 'stats'}
                     onClick={() => setActiveView('stats')}
                 />
+                <NavItem 
+                    icon={<History size={28} />} 
+                    label="Lịch sử" 
+                    isActive={activeView === 'history'}
+                    onClick={() => setActiveView('history')}
+                />
+                <NavItem 
+                    icon={<Library size={28} />} 
+                    label="Mẫu Word" 
+                    isActive={activeView === 'templates'}
+                    onClick={() => setActiveView('templates')}
+                />
+                <NavItem 
+                    icon={<ShieldCheck size={28} />} 
+                    label="Xác thực" 
+                    isActive={activeView === 'verify'}
+                    onClick={() => setActiveView('verify')}
+                />
             </nav>
             <div className="mt-auto">
                  <NavItem 
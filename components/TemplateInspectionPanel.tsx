@@ -0,0 +1,82 @@
+import React from 'react';
+import { IssueSeverity, TemplateInspection } from '../types';
+import { SUMMARY_TEMPLATE_FIELDS, TEMPLATE_FIELDS } from '../services/templateInspector';
+import { AlertTriangle, CheckCircle, Repeat, XCircle } from 'lucide-react';
+
+interface TemplateInspectionPanelProps {
+    inspection: TemplateInspection;
+}
+
+const fieldLabels = new Map([...TEMPLATE_FIELDS, ...SUMMARY_TEMPLATE_FIELDS].map(field => [field.name, field.label]));
+
+export const TemplateInspectionPanel: React.FC<TemplateInspectionPanelProps> = ({ inspection }) => {
+    const { tags, issues, unusedFields } = inspection;
+    const errorCount = issues.filter(i => i.severity === IssueSeverity.Error).length;
+    const warningCount = issues.length - errorCount;
+    const unknownTags = new Set(issues.filter(i => i.kind === 'unknown').map(i => i.tag));
+    const topLevel = tags.filter(t => !t.parent);
+
+    const tagClass = (name: string) => unknownTags.has(name)
+        ? 'bg-yellow-100 text-yellow-800'
+        : 'bg-blue-50 text-blue-800';
+
+    return (
+        <div className="bg-white mt-6 p-6 rounded-2xl shadow-lg border border-gray-100 space-y-4 animate-fade-in">
+            <div className={`p-4 rounded-xl border flex items-center space-x-3 ${errorCount > 0 ? 'bg-red-50 border-red-200 text-red-800' : warningCount > 0 ? 'bg-yellow-50 border-yellow-200 text-yellow-800' : 'bg-green-50 border-green-200 text-green-800'}`}>
+                {errorCount > 0 ? <XCircle /> : warningCount > 0 ? <AlertTriangle /> : <CheckCircle />}
+                <p className="flex-1 font-medium">
+                    {errorCount > 0
+                        ? 'File mẫu có lỗi cú pháp, cần sửa trước khi sinh báo cáo.'
+                        : warningCount > 0 ? 'File mẫu dùng được, nhưng có thẻ cần xem lại.' : 'File mẫu hợp lệ.'}
+                    <span className="block text-sm font-normal">
+                        {inspection.fileName}: {tags.length} thẻ, {errorCount} lỗi, {warningCount} cảnh báo.
+                    </span>
+                </p>
+            </div>
+
+            {issues.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                    {issues.map((issue, index) => (
+                        <li key={index} className={`flex items-start ${issue.severity === IssueSeverity.Error ? 'text-red-700' : 'text-yellow-700'}`}>
+                            {issue.severity === IssueSeverity.Error ? <XCircle size={16} className="mr-2 mt-0.5 shrink-0" /> : <AlertTriangle size={16} className="mr-2 mt-0.5 shrink-0" />}
+                            <span>{issue.message}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {topLevel.length > 0 && (
+                <div className="space-y-2">
+                    <h4 className="text-sm font-semibold text-gray-600">Thẻ trong file mẫu</h4>
+                    <div className="flex flex-wrap gap-2">
+                        {topLevel.map(tag => (
+                            <div key={`${tag.name}-${tag.isLoop}`} className={`px-2 py-1 rounded-md text-xs ${tagClass(tag.name)}`} title={fieldLabels.get(tag.name)}>
+                                {tag.isLoop && <Repeat size={12} className="inline mr-1" />}
+                                <span className="font-mono">{tag.isLoop ? `{#${tag.name}}` : `{${tag.name}}`}</span>
+                                {tag.count > 1 && <span className="ml-1 text-gray-500">×{tag.count}</span>}
+                                {tag.isLoop && (
+                                    <span className="ml-1 font-mono text-gray-600">
+                                        [{tags.filter(inner => inner.parent === tag.name).map(inner => inner.name).join(', ')}]
+                                    </span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {errorCount === 0 && unusedFields.length > 0 && (
+                <div className="space-y-2">
+                    <h4 className="text-sm font-semibold text-gray-600">Dữ liệu có sẵn nhưng file mẫu chưa dùng</h4>
+                    <div className="flex flex-wrap gap-2">
+                        {unusedFields.map(name => (
+                            <span key={name} className="px-2 py-1 rounded-md bg-gray-100 text-gray-600 text-xs" title={fieldLabels.get(name)}>
+                                <span className="font-mono">{`{${name}}`}</span>
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
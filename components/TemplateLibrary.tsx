@@ -0,0 +1,201 @@
+import React, { useRef, useState } from 'react';
+import { DocumentTypePolicy, LibraryTemplate, LibraryTemplateDetails } from '../types';
+import { formatReportDate } from '../services/workingCalendar';
+import { CheckCircle, Download, Pencil, Plus, Save, Star, Trash2, Upload, X } from 'lucide-react';
+
+interface TemplateLibraryProps {
+    templates: LibraryTemplate[];
+    documentTypes: DocumentTypePolicy[];
+    activeTemplateId: string | null;
+    suggestDocumentType: (fileName: string) => string; // For a new template, from the keywords in its filename
+    onAdd: (file: File, details: LibraryTemplateDetails) => void;
+    onUpdate: (id: string, details: LibraryTemplateDetails) => void;
+    onSetDefault: (id: string) => void;
+    onDelete: (id: string) => void;
+    onUse: (id: string) => void;
+    onExport: () => void;
+    onImport: (file: File) => void;
+}
+
+const inputClass = "p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition";
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const TemplateLibrary: React.FC<TemplateLibraryProps> = ({
+    templates, documentTypes, activeTemplateId, suggestDocumentType, onAdd, onUpdate, onSetDefault, onDelete, onUse, onExport, onImport,
+}) => {
+    const emptyDetails: LibraryTemplateDetails = { documentType: documentTypes[0]?.id || '', versionLabel: '', notes: '' };
+    const [newFile, setNewFile] = useState<File | null>(null);
+    const [newDetails, setNewDetails] = useState<LibraryTemplateDetails>(emptyDetails);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editDetails, setEditDetails] = useState<LibraryTemplateDetails>(emptyDetails);
+    const newFileInput = useRef<HTMLInputElement>(null);
+    const bundleInput = useRef<HTMLInputElement>(null);
+
+    const knownTypes = new Set(documentTypes.map(t => t.id));
+    // Templates whose type the current policy no longer has are listed under their own heading
+    const groups = [
+        ...documentTypes.map(type => ({ id: type.id, label: `${type.id} - ${type.label}`, known: true })),
+        ...Array.from(new Set(templates.map(t => t.documentType).filter(id => !knownTypes.has(id))))
+            .map(id => ({ id, label: `${id || 'Chưa rõ loại'} (không có trong quy định đang áp dụng)`, known: false })),
+    ];
+
+    const selectNewFile = (file: File | null) => {
+        setNewFile(file);
+        if (file) setNewDetails(prev => ({ ...prev, documentType: suggestDocumentType(file.name) }));
+    };
+
+    const addTemplate = () => {
+        if (!newFile) return;
+        onAdd(newFile, { ...newDetails, versionLabel: newDetails.versionLabel.trim(), notes: newDetails.notes.trim() });
+        setNewFile(null);
+        setNewDetails(emptyDetails);
+        if (newFileInput.current) newFileInput.current.value = '';
+    };
+
+    const startEditing = (template: LibraryTemplate) => {
+        setEditingId(template.id);
+        setEditDetails({ documentType: template.documentType, versionLabel: template.versionLabel, notes: template.notes });
+    };
+
+    const saveEditing = () => {
+        if (!editingId) return;
+        onUpdate(editingId, { ...editDetails, versionLabel: editDetails.versionLabel.trim(), notes: editDetails.notes.trim() });
+        setEditingId(null);
+    };
+
+    const typeSelect = (value: string, onChange: (value: string) => void) => (
+        <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+            {!knownTypes.has(value) && <option value={value}>{value || '—'}</option>}
+            {documentTypes.map(type => <option key={type.id} value={type.id}>{type.id}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100 space-y-6 animate-fade-in">
+            <div className="flex items-center justify-between">
+                <h2 className="text-xl font-bold text-gray-800">Thư viện file mẫu Word</h2>
+                <div className="flex items-center space-x-2">
+                    <button onClick={() => bundleInput.current?.click()} className="flex items-center text-sm font-semibold text-blue-600 hover:text-blue-800 px-3 py-2 rounded-lg border border-blue-200 hover:bg-blue-50">
+                        <Upload size={16} className="mr-1" /> Nhập gói
+                    </button>
+                    <button onClick={onExport} disabled={templates.length === 0} className="flex items-center text-sm font-semibold text-blue-600 hover:text-blue-800 px-3 py-2 rounded-lg border border-blue-200 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed">
+                        <Download size={16} className="mr-1" /> Xuất gói
+                    </button>
+                    <input
+                        ref={bundleInput}
+                        type="file"
+                        accept=".zip"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+            </div>
+            <p className="text-sm text-gray-500">
+                File mẫu được lưu trong trình duyệt này. Loại tài liệu của báo cáo lấy theo loại ghi trong thư viện, không phụ thuộc tên file. File mẫu mặc định của mỗi loại được tự động chọn khi mở ứng dụng.
+            </p>
+
+            <div className="p-4 rounded-xl bg-gray-50 border border-gray-200 space-y-3">
+                <h3 className="font-semibold text-gray-700">Thêm file mẫu</h3>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-center">
+                    <input ref={newFileInput} type="file" accept=".docx" onChange={(e) => selectNewFile(e.target.files?.[0] || null)} className="text-sm" />
+                    {typeSelect(newDetails.documentType, documentType => setNewDetails({ ...newDetails, documentType }))}
+                    <input type="text" value={newDetails.versionLabel} onChange={(e) => setNewDetails({ ...newDetails, versionLabel: e.target.value })} placeholder="Phiên bản, ví dụ: 2025.1" className={inputClass} />
+                    <input type="text" value={newDetails.notes} onChange={(e) => setNewDetails({ ...newDetails, notes: e.target.value })} placeholder="Ghi chú" className={inputClass} />
+                </div>
+                <div className="flex justify-end">
+                    <button
+                        onClick={addTemplate}
+                        disabled={!newFile}
+                        className="flex items-center text-white font-bold py-2 px-4 rounded-xl shadow-md bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Plus size={18} className="mr-2" /> Thêm vào thư viện
+                    </button>
+                </div>
+            </div>
+
+            {templates.length === 0 ? (
+                <p className="text-center text-gray-500">Thư viện chưa có file mẫu nào.</p>
+            ) : groups.map(group => {
+                const groupTemplates = templates.filter(t => t.documentType === group.id);
+                if (groupTemplates.length === 0) return null;
+                return (
+                    <div key={group.id} className="space-y-2">
+                        <h3 className={`font-semibold ${group.known ? 'text-gray-700' : 'text-yellow-700'}`}>{group.label}</h3>
+                        <table className="w-full text-sm text-left text-gray-600">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                                <tr>
+                                    <th className="px-3 py-2">Mặc định</th>
+                                    <th className="px-3 py-2">File</th>
+                                    <th className="px-3 py-2">Loại</th>
+                                    <th className="px-3 py-2">Phiên bản</th>
+                                    <th className="px-3 py-2">Ghi chú</th>
+                                    <th className="px-3 py-2">Ngày thêm</th>
+                                    <th className="px-3 py-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {groupTemplates.map(template => {
+                                    const editing = editingId === template.id;
+                                    return (
+                                        <tr key={template.id} className={`border-b ${template.id === activeTemplateId ? 'bg-blue-50' : ''}`}>
+                                            <td className="px-3 py-2">
+                                                <button
+                                                    onClick={() => onSetDefault(template.id)}
+                                                    disabled={template.isDefault}
+                                                    className={template.isDefault ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-500'}
+                                                    title={template.isDefault ? `Mặc định cho ${template.documentType}` : 'Đặt làm mặc định'}
+                                                >
+                                                    <Star size={18} fill={template.isDefault ? 'currentColor' : 'none'} />
+                                                </button>
+                                            </td>
+                                            <td className="px-3 py-2">
+                                                <span className="font-medium text-gray-800">{template.fileName}</span>
+                                                <span className="block text-xs text-gray-400">{formatSize(template.size)}</span>
+                                                {template.id === activeTemplateId && <span className="text-xs font-semibold text-blue-700">Đang dùng</span>}
+                                            </td>
+                                            {editing ? (
+                                                <>
+                                                    <td className="px-3 py-2">{typeSelect(editDetails.documentType, documentType => setEditDetails({ ...editDetails, documentType }))}</td>
+                                                    <td className="px-3 py-2"><input type="text" value={editDetails.versionLabel} onChange={(e) => setEditDetails({ ...editDetails, versionLabel: e.target.value })} className={`${inputClass} w-full`} /></td>
+                                                    <td className="px-3 py-2"><input type="text" value={editDetails.notes} onChange={(e) => setEditDetails({ ...editDetails, notes: e.target.value })} className={`${inputClass} w-full`} /></td>
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <td className="px-3 py-2">{template.documentType}</td>
+                                                    <td className="px-3 py-2">{template.versionLabel || '—'}</td>
+                                                    <td className="px-3 py-2">{template.notes || '—'}</td>
+                                                </>
+                                            )}
+                                            <td className="px-3 py-2 whitespace-nowrap">{formatReportDate(template.addedAt.slice(0, 10))}</td>
+                                            <td className="px-3 py-2">
+                                                <div className="flex items-center space-x-3">
+                                                    {editing ? (
+                                                        <>
+                                                            <button onClick={saveEditing} className="text-blue-600 hover:text-blue-800" title="Lưu thay đổi"><Save size={16} /></button>
+                                                            <button onClick={() => setEditingId(null)} className="text-gray-500 hover:text-gray-800" title="Hủy"><X size={16} /></button>
+                                                        </>
+                                                    ) : (
+                                                        <>
+                                                            <button onClick={() => onUse(template.id)} className="text-green-600 hover:text-green-800" title="Dùng file mẫu này"><CheckCircle size={16} /></button>
+                                                            <button onClick={() => startEditing(template)} className="text-blue-600 hover:text-blue-800" title="Sửa thông tin"><Pencil size={16} /></button>
+                                                            <button onClick={() => onDelete(template.id)} className="text-red-600 hover:text-red-800" title="Xóa khỏi thư viện"><Trash2 size={16} /></button>
+                                                        </>
+                                                    )}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
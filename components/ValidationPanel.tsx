@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { MergedData, ValidationIssue, IssueSeverity, IssueCode } from '../types';
+import { getBlockingIssues } from '../services/validation';
+import { parseLocaleNumber } from '../services/numberParser';
+import { CheckCircle, AlertTriangle, XCircle, DownloadCloud } from 'lucide-react';
+
+interface ValidationPanelProps {
+    data: MergedData[];
+    issues: ValidationIssue[];
+    overriddenIds: string[];
+    onFixValue: (rowIndex: number, field: string, value: number) => void;
+    onScaleRow: (rowIndex: number) => void;
+    onOverride: (ids: string[], overridden: boolean) => void;
+    onDownloadReport: () => void;
+}
+
+// Issues whose value can be corrected by typing a number
+const EDITABLE_CODES = [IssueCode.MissingTv, IssueCode.UnparsedNumber, IssueCode.InvalidNumber, IssueCode.OutOfRange, IssueCode.StudentCount];
+
+const FixInput: React.FC<{ onSubmit: (value: number) => void }> = ({ onSubmit }) => {
+    const [text, setText] = useState('');
+    const value = parseLocaleNumber(text).value ?? NaN;
+    return (
+        <span className="flex items-center space-x-2">
+            <input
+                type="text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Giá trị đúng"
+                className="w-28 p-1 border rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+                onClick={() => { onSubmit(value); setText(''); }}
+                disabled={isNaN(value)}
+                className="text-blue-600 font-semibold hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+                Sửa
+            </button>
+        </span>
+    );
+};
+
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ data, issues, overriddenIds, onFixValue, onScaleRow, onOverride, onDownloadReport }) => {
+    const blocking = getBlockingIssues(issues, overriddenIds);
+    const errorCount = issues.filter(i => i.severity === IssueSeverity.Error).length;
+    const warningCount = issues.length - errorCount;
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className={`p-4 rounded-2xl border flex items-center space-x-3 ${blocking.length > 0 ? 'bg-red-50 border-red-200 text-red-800' : 'bg-green-50 border-green-200 text-green-800'}`}>
+                {blocking.length > 0 ? <XCircle /> : <CheckCircle />}
+                <p className="flex-1 font-medium">
+                    {blocking.length > 0
+                        ? `Còn ${blocking.length} lỗi cần sửa hoặc bỏ qua trước khi sinh báo cáo.`
+                        : 'Không còn lỗi chặn việc sinh báo cáo.'}
+                    <span className="block text-sm font-normal">{errorCount} lỗi, {warningCount} cảnh báo trên {data.length} đề tài.</span>
+                </p>
+                {blocking.length > 0 && (
+                    <button
+                        onClick={() => onOverride(blocking.map(i => i.id), true)}
+                        className="text-sm font-semibold hover:underline whitespace-nowrap"
+                    >
+                        Bỏ qua tất cả lỗi
+                    </button>
+                )}
+                <button
+                    onClick={onDownloadReport}
+                    disabled={issues.length === 0}
+                    className="flex items-center text-white font-bold py-2 px-4 rounded-xl shadow-md bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <DownloadCloud size={18} className="mr-2" /> Tải báo cáo lỗi
+                </button>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Kết quả kiểm tra dữ liệu</h2>
+                {issues.length === 0 ? (
+                    <p className="text-gray-500">Không phát hiện vấn đề nào.</p>
+                ) : (
+                    <div className="overflow-x-auto max-h-[60vh]">
+                        <table className="w-full text-sm text-left text-gray-600">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-100 sticky top-0">
+                                <tr>
+                                    <th className="px-4 py-3">Dòng</th>
+                                    <th className="px-4 py-3">Mức độ</th>
+                                    <th className="px-4 py-3">Đề tài</th>
+                                    <th className="px-4 py-3">Vấn đề</th>
+                                    <th className="px-4 py-3">Ô nguồn</th>
+                                    <th className="px-4 py-3">Xử lý</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {issues.map(issue => {
+                                    const isOverridden = overriddenIds.includes(issue.id);
+                                    const isError = issue.severity === IssueSeverity.Error;
+                                    return (
+                                        <tr key={issue.id} className={`border-b ${isOverridden ? 'bg-gray-50 text-gray-400' : 'bg-white'}`}>
+                                            <td className="px-4 py-3">{issue.rowIndex + 1}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap">
+                                                <span className={`flex items-center font-semibold ${isError ? 'text-red-600' : 'text-yellow-600'}`}>
+                                                    {isError ? <XCircle size={16} className="mr-1" /> : <AlertTriangle size={16} className="mr-1" />}
+                                                    {isError ? 'Lỗi' : 'Cảnh báo'}
+                                                </span>
+                                            </td>
+                                            <td className="px-4 py-3 max-w-xs truncate" title={data[issue.rowIndex].tendetai}>{data[issue.rowIndex].tendetai}</td>
+                                            <td className="px-4 py-3">{issue.message}</td>
+                                            <td className="px-4 py-3 font-mono text-xs break-all">{issue.cell || '—'}</td>
+                                            <td className="px-4 py-3 space-y-1">
+                                                {EDITABLE_CODES.includes(issue.code) && (
+                                                    <FixInput onSubmit={(value) => onFixValue(issue.rowIndex, issue.field, value)} />
+                                                )}
+                                                {issue.code === IssueCode.LikelyFraction && (
+                                                    <button onClick={() => onScaleRow(issue.rowIndex)} className="text-blue-600 font-semibold hover:underline whitespace-nowrap">
+                                                        Nhân 100
+                                                    </button>
+                                                )}
+                                                {isError && (
+                                                    <button
+                                                        onClick={() => onOverride([issue.id], !isOverridden)}
+                                                        className="block text-gray-600 font-semibold hover:underline whitespace-nowrap"
+                                                    >
+                                                        {isOverridden ? 'Hủy bỏ qua' : 'Bỏ qua'}
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { Holiday, WorkingCalendar } from '../types';
+import { WEEKDAY_LABELS, formatReportDate } from '../services/workingCalendar';
+import { Plus, Save, Trash2 } from 'lucide-react';
+
+interface WorkingCalendarEditorProps {
+    calendar: WorkingCalendar;
+    onSave: (calendar: WorkingCalendar) => void;
+}
+
+// Monday first, as in the Vietnamese week
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const inputClass = "p-2 border rounded-md focus:ring-2 focus:ring-blue-500 transition";
+
+export const WorkingCalendarEditor: React.FC<WorkingCalendarEditorProps> = ({ calendar, onSave }) => {
+    const [draft, setDraft] = useState<WorkingCalendar>(calendar);
+    const [newHoliday, setNewHoliday] = useState<Holiday>({ date: '', name: '', recurring: false });
+
+    useEffect(() => setDraft(calendar), [calendar]);
+
+    const toggleWorkingDay = (day: number) => {
+        setDraft(prev => ({
+            ...prev,
+            workingDays: prev.workingDays.includes(day) ? prev.workingDays.filter(d => d !== day) : [...prev.workingDays, day],
+        }));
+    };
+
+    const addHoliday = () => {
+        if (!newHoliday.date) return;
+        setDraft(prev => ({ ...prev, holidays: [...prev.holidays, { ...newHoliday, name: newHoliday.name.trim() }] }));
+        setNewHoliday({ date: '', name: '', recurring: false });
+    };
+
+    const removeHoliday = (index: number) => {
+        setDraft(prev => ({ ...prev, holidays: prev.holidays.filter((_, i) => i !== index) }));
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-lg border border-gray-100 space-y-4 animate-fade-in">
+            <h2 className="text-xl font-bold text-gray-800">Lịch làm việc</h2>
+            <p className="text-sm text-gray-500">
+                Hạn nộp lại được tính bằng số ngày làm việc sau ngày kiểm tra, bỏ qua ngày nghỉ trong tuần và ngày nghỉ lễ. Các ngày lễ theo âm lịch cần được thêm cho từng năm.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+                <span className="font-semibold text-gray-600">Ngày làm việc:</span>
+                {WEEK_ORDER.map(day => (
+                    <label key={day} className="flex items-center space-x-1 cursor-pointer">
+                        <input type="checkbox" checked={draft.workingDays.includes(day)} onChange={() => toggleWorkingDay(day)} className="h-4 w-4 text-blue-600 rounded focus:ring-blue-500" />
+                        <span>{WEEKDAY_LABELS[day]}</span>
+                    </label>
+                ))}
+            </div>
+            <table className="w-full text-sm text-left text-gray-600">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                    <tr>
+                        <th className="px-3 py-2">Ngày</th>
+                        <th className="px-3 py-2">Tên ngày nghỉ</th>
+                        <th className="px-3 py-2">Hằng năm</th>
+                        <th className="px-3 py-2"></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {draft.holidays.map((holiday, index) => (
+                        <tr key={`${holiday.date}-${index}`} className="border-b">
+                            <td className="px-3 py-2">{holiday.recurring ? formatReportDate(holiday.date).slice(0, 5) : formatReportDate(holiday.date)}</td>
+                            <td className="px-3 py-2">{holiday.name || '—'}</td>
+                            <td className="px-3 py-2">{holiday.recurring ? 'Có' : ''}</td>
+                            <td className="px-3 py-2">
+                                <button onClick={() => removeHoliday(index)} className="text-red-600 hover:text-red-800" title="Xóa ngày nghỉ">
+                                    <Trash2 size={16} />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                    <tr>
+                        <td className="px-3 py-2">
+                            <input type="date" value={newHoliday.date} onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })} className={inputClass} />
+                        </td>
+                        <td className="px-3 py-2">
+                            <input type="text" value={newHoliday.name} onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })} placeholder="Ví dụ: Tết Nguyên đán" className={`${inputClass} w-full`} />
+                        </td>
+                        <td className="px-3 py-2">
+                            <input type="checkbox" checked={!!newHoliday.recurring} onChange={(e) => setNewHoliday({ ...newHoliday, recurring: e.target.checked })} className="h-4 w-4 text-blue-600 rounded focus:ring-blue-500" />
+                        </td>
+                        <td className="px-3 py-2">
+                            <button onClick={addHoliday} disabled={!newHoliday.date} className="text-blue-600 hover:text-blue-800 disabled:opacity-50" title="Thêm ngày nghỉ">
+                                <Plus size={16} />
+                            </button>
+                        </td>
+                    </tr>
+                </tbody>
+            </table>
+            <div className="flex items-center justify-end space-x-3">
+                {draft.workingDays.length === 0 && <span className="text-sm text-red-600">Cần chọn ít nhất một ngày làm việc.</span>}
+                <button
+                    onClick={() => onSave(draft)}
+                    disabled={draft.workingDays.length === 0}
+                    className="flex items-center text-white font-bold py-2 px-4 rounded-xl shadow-md bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Save size={18} className="mr-2" /> Lưu lịch làm việc
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,146 @@
+import { BatchFilePair, BatchPairResult, InputFileSummary, LogType, MergedData, MergeOptions, ReconciliationResult } from '../types';
+import { normalizeString } from './stringUtils';
+import { stringSimilarity, combineReconciliations, buildMergedData } from './matching';
+import { generateMergedExcel, buildMergedWorkbook } from './fileProcessor';
+
+// Words that only say which kind of file it is; they are dropped before comparing names.
+const MAIN_NAME_WORDS = ['filechinh', 'chinh', 'danhsach', 'main'];
+const SUPPLEMENTARY_NAME_WORDS = ['filebosung', 'bosung', 'tile', 'ketqua', 'supp', 'ratio'];
+
+// Minimum similarity of two name stems to pair files by filename.
+const FILENAME_PAIR_THRESHOLD = 0.6;
+// Minimum share of supplementary keys found in the main file to pair files by content.
+const CONTENT_PAIR_THRESHOLD = 0.5;
+const KEY_MATCH_THRESHOLD = 0.85;
+
+/**
+ * Reduces a filename to the part that identifies the class, e.g.
+ * 'File_chinh_K65_CNTT.xlsx' and 'Bo_sung K65-CNTT.xlsx' both become 'k65cntt'.
+ */
+const fileStem = (fileName: string): string => {
+    let stem = normalizeString(fileName.replace(/\.[^.]+$/, ''));
+    [...MAIN_NAME_WORDS, ...SUPPLEMENTARY_NAME_WORDS].forEach(word => {
+        stem = stem.split(word).join('');
+    });
+    return stem;
+};
+
+/**
+ * Guesses the role of a file from its name, for files whose headers were inconclusive.
+ */
+const roleFromFileName = (fileName: string): InputFileSummary['role'] => {
+    const name = normalizeString(fileName);
+    if (SUPPLEMENTARY_NAME_WORDS.some(w => name.includes(w))) return 'supplementary';
+    if (MAIN_NAME_WORDS.some(w => name.includes(w))) return 'main';
+    return null;
+};
+
+/**
+ * Share of the supplementary file's keys that appear among the main file's keys.
+ */
+const contentOverlap = (main: InputFileSummary, supp: InputFileSummary): number => {
+    if (supp.keys.length === 0 || main.keys.length === 0) return 0;
+    const found = supp.keys.filter(key => main.keys.some(mainKey => stringSimilarity(mainKey, key) >= KEY_MATCH_THRESHOLD));
+    return found.length / supp.keys.length;
+};
+
+/**
+ * Greedily pairs main and supplementary files from the highest score down.
+ */
+const pairGreedily = (
+    mains: InputFileSummary[],
+    supps: InputFileSummary[],
+    score: (main: InputFileSummary, supp: InputFileSummary) => number,
+    threshold: number
+): [InputFileSummary, InputFileSummary][] => {
+    const candidates: { main: InputFileSummary, supp: InputFileSummary, score: number }[] = [];
+    mains.forEach(main => supps.forEach(supp => {
+        const value = score(main, supp);
+        if (value >= threshold) candidates.push({ main, supp, score: value });
+    }));
+    candidates.sort((a, b) => b.score - a.score);
+
+    const used = new Set<InputFileSummary>();
+    const pairs: [InputFileSummary, InputFileSummary][] = [];
+    for (const c of candidates) {
+        if (used.has(c.main) || used.has(c.supp)) continue;
+        used.add(c.main);
+        used.add(c.supp);
+        pairs.push([c.main, c.supp]);
+    }
+    return pairs;
+};
+
+/**
+ * Sorts the files of a batch into main and supplementary files and pairs them,
+ * first by filename and then, for the files left over, by the projects they contain.
+ * @param summaries One summary per uploaded file.
+ * @returns The pairs found, plus the files that could not be paired.
+ */
+export const pairBatchFiles = (summaries: InputFileSummary[]): { pairs: BatchFilePair[], unpaired: File[] } => {
+    const withRoles = summaries.map(s => ({ ...s, role: s.role || roleFromFileName(s.file.name) }));
+    let mains = withRoles.filter(s => s.role === 'main');
+    let supps = withRoles.filter(s => s.role === 'supplementary');
+    const pairs: BatchFilePair[] = [];
+
+    const byName = pairGreedily(mains, supps, (m, s) => stringSimilarity(fileStem(m.file.name), fileStem(s.file.name)), FILENAME_PAIR_THRESHOLD);
+    byName.forEach(([m, s]) => pairs.push({ main: m.file, supplementary: s.file, pairedBy: 'filename' }));
+    mains = mains.filter(m => !byName.some(([pm]) => pm === m));
+    supps = supps.filter(s => !byName.some(([, ps]) => ps === s));
+
+    const byContent = pairGreedily(mains, supps, contentOverlap, CONTENT_PAIR_THRESHOLD);
+    byContent.forEach(([m, s]) => pairs.push({ main: m.file, supplementary: s.file, pairedBy: 'content' }));
+
+    const pairedFiles = new Set(pairs.flatMap(p => [p.main, p.supplementary]));
+    return {
+        pairs: pairs.sort((a, b) => a.main.name.localeCompare(b.main.name)),
+        unpaired: summaries.map(s => s.file).filter(f => !pairedFiles.has(f)),
+    };
+};
+
+/**
+ * Runs generateMergedExcel for every pair and combines the successful results.
+ * A failing pair does not stop the batch; its error is kept in the per-pair results.
+ * @param pairs The file pairs to merge.
+ * @param addLog Logger for warnings raised while merging each pair.
+ * @param options Merge options applied to every pair. Sheets are chosen per file, so each pair uses its first sheets;
+ *   columns are mapped with the saved mapping profiles, or detected from the headers.
+ * @param onProgress Called after each pair with the number of pairs done so far.
+ * @returns The combined dataset, its workbook and reconciliation, and one result per pair.
+ */
+export const runBatchMerge = async (
+    pairs: BatchFilePair[],
+    addLog: (message: string, type: LogType) => void,
+    options: Pick<MergeOptions, 'topicFill' | 'suppLayout' | 'assessment' | 'policy' | 'format' | 'mappingProfiles' | 'faculty'> = {},
+    onProgress?: (done: number, total: number) => void
+): Promise<{ data: MergedData[], buffer: ArrayBuffer, reconciliation: ReconciliationResult, results: BatchPairResult[] }> => {
+    const batches: ReconciliationResult[] = [];
+    const results: BatchPairResult[] = [];
+
+    for (const pair of pairs) {
+        // Only warnings and errors are forwarded, so the log stays readable for 20 pairs
+        const pairLog = (message: string, type: LogType) => {
+            if (type !== LogType.Info) addLog(`[${pair.main.name}] ${message}`, type);
+        };
+        try {
+            const { reconciliation } = await generateMergedExcel(pair.main, pair.supplementary, pairLog, options);
+            batches.push({
+                ...reconciliation,
+                mainProjects: reconciliation.mainProjects.map(p => ({ ...p, tenfile: pair.main.name })),
+            });
+            results.push({ pair, projectCount: reconciliation.mainProjects.length });
+        } catch (error) {
+            console.error(error);
+            results.push({ pair, projectCount: 0, error: error instanceof Error ? error.message : 'Lỗi không xác định.' });
+        }
+        onProgress?.(results.length, pairs.length);
+    }
+
+    if (batches.length === 0) {
+        throw new Error("Không gộp được cặp file nào.");
+    }
+
+    const reconciliation = combineReconciliations(batches);
+    const data = buildMergedData(reconciliation);
+    return { data, buffer: buildMergedWorkbook(data, options.assessment, options.policy, options.format), reconciliation, results };
+};
@@ -0,0 +1,41 @@
+import { BatchMetadata } from '../types';
+
+const STORAGE_KEY = 'baocaopro.batchMetadata';
+
+export const DEFAULT_BATCH_METADATA: BatchMetadata = {
+    batchName: '',
+    faculty: '',
+    officer: '',
+    place: '',
+    serialStart: 1,
+    serialSuffix: '',
+};
+
+/**
+ * Loads the batch details last entered, so the faculty, officer and numbering carry over to the next batch.
+ */
+export const loadBatchMetadata = (): BatchMetadata => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        return parsed && typeof parsed === 'object' ? { ...DEFAULT_BATCH_METADATA, ...parsed } : DEFAULT_BATCH_METADATA;
+    } catch (error) {
+        console.error("Không đọc được thông tin đợt kiểm tra đã lưu:", error);
+        return DEFAULT_BATCH_METADATA;
+    }
+};
+
+/**
+ * Saves the batch details.
+ * @returns The saved details.
+ */
+export const saveBatchMetadata = (metadata: BatchMetadata): BatchMetadata => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(metadata));
+    return metadata;
+};
+
+/**
+ * Formats a report's number with the batch's suffix, e.g. '015/BC-ĐBCL'. Numbers take at least three digits.
+ */
+export const formatReportNumber = (metadata: BatchMetadata, reportNumber: number): string =>
+    `${String(reportNumber).padStart(3, '0')}${metadata.serialSuffix.trim()}`;
@@ -0,0 +1,310 @@
+import * as XLSX from 'xlsx';
+import PizZip from 'pizzip';
+import Docxtemplater from 'docxtemplater';
+import { AssessmentContext, BatchMetadata, BatchSummary, BatchSummaryProject, CategorizedProjects, ClassificationSnapshot, ConclusionCategory, ConclusionPolicy, DashboardStats, MergedData, RoundRecord, SupervisorSummary } from '../types';
+import { assessProject, buildDashboardStats, categorizeProjects, findChapterViolations, CONCLUSION_CATEGORIES, CONCLUSION_LABELS } from './conclusionPolicy';
+import { NO_SUPERVISOR_LABEL } from './reportNaming';
+import { getChapterKeys } from './validation';
+import { formatReportDate, formatVietnameseDate } from './workingCalendar';
+import { SheetFormatting } from './workbookFormatting';
+
+export const SUMMARY_FILE_NAME = 'Bien_ban_tong_hop';
+export const SUPERVISOR_SUMMARY_FILE_NAME = 'Tong_hop_huong_dan';
+
+const SUMMARY_TITLE = 'BIÊN BẢN TỔNG HỢP KẾT QUẢ KIỂM TRA TỈ LỆ TRÙNG LẶP';
+
+// The dashboard's counts, in the order its cards show them.
+const STAT_LABELS: [keyof DashboardStats, string][] = [
+    ['totalProjects', 'Tổng số đề tài'],
+    ['totalStudents', 'Tổng số học viên'],
+    ['withinLimit', 'Đảm bảo tỉ lệ'],
+    ['l1Edit', 'Cần chỉnh sửa (L1)'],
+    ['l2Process', 'Cần xử lý (L2)'],
+    ['l2Exceeded', 'Vượt tối đa (L2)'],
+    ['chapterExceeded', 'Có chương vượt ngưỡng'],
+    ['resubmittedAfterEdit', 'Nộp lại sau chỉnh sửa'],
+    ['fixedAfterEdit', 'Đã khắc phục sau chỉnh sửa'],
+];
+
+const CONCLUSION_CATEGORY_SET = new Set<ConclusionCategory>(Object.values(CONCLUSION_CATEGORIES));
+
+// The categories a project is sorted into by its TV ratio and chapters, in the order of the dashboard cards.
+const SUMMARY_CATEGORIES: ConclusionCategory[] = ['withinLimit', 'l1Edit', 'l2Process', 'l2Exceeded', 'chapterExceeded'];
+
+// Row colours of the categories in exported workbooks, matching the dashboard cards.
+export const CATEGORY_FILLS: Record<ConclusionCategory, string> = {
+    withinLimit: 'CFFAFE',
+    l1Edit: 'FEF9C3',
+    l2Process: 'FFEDD5',
+    l2Exceeded: 'FEE2E2',
+    chapterExceeded: 'FCE7F3',
+    fixedAfterEdit: 'DCFCE7',
+};
+
+const categoryLabel = (category: ConclusionCategory) => STAT_LABELS.find(([key]) => key === category)![1];
+
+/**
+ * The name of a chapter key, e.g. 'Chương 3' for 'c3'.
+ */
+export const chapterName = (key: string) => `Chương ${key.substring(1)}`;
+
+const joinStudentCodes = (row: MergedData) => (row.hocvien || []).map(s => s.mahv).filter(Boolean).join(', ');
+
+const averageTv = (projects: MergedData[]) => projects.reduce((sum, p) => sum + (p.tv || 0), 0) / (projects.length || 1);
+
+/**
+ * Assesses every project of a batch and counts them as the dashboard does.
+ * @param histories Each row's records in earlier check rounds.
+ */
+export const buildBatchSummary = (data: MergedData[], context: AssessmentContext, histories: RoundRecord[][] = []): BatchSummary => {
+    const projects = data.map(project => {
+        const highestChapter = getChapterKeys(project)
+            .filter(key => typeof project[key] === 'number')
+            .reduce<{ key: string, value: number } | undefined>((highest, key) => {
+                const value = project[key] as number;
+                return !highest || value > highest.value ? { key, value } : highest;
+            }, undefined);
+        return {
+            project,
+            ...assessProject(context, project),
+            highestChapter,
+            chapterViolations: findChapterViolations(context.documentType, project),
+        };
+    });
+    const categorized = categorizeProjects(data, context.documentType, context.checkRound, histories);
+    return { projects, stats: buildDashboardStats(data, categorized, histories) };
+};
+
+/**
+ * Lists how the current classification differs from the one a reports ZIP was generated with.
+ * @returns One line per difference, e.g. 'Lần kiểm tra: 1 → 2' or 'Cần chỉnh sửa (L1): 3 → 5'; empty if they match.
+ */
+export const describeClassificationChanges = (generated: ClassificationSnapshot, current: ClassificationSnapshot): string[] => {
+    const policyName = (policy: ConclusionPolicy) => `${policy.name} (phiên bản ${policy.version})`;
+    return [
+        ...(generated.data !== current.data ? ['Dữ liệu đã thay đổi (gộp lại, nạp file khác hoặc sửa giá trị)'] : []),
+        ...(generated.checkRound !== current.checkRound ? [`Lần kiểm tra: ${generated.checkRound} → ${current.checkRound}`] : []),
+        ...(generated.documentType.id !== current.documentType.id ? [`Loại tài liệu: ${generated.documentType.id} → ${current.documentType.id}`] : []),
+        ...(generated.policy.id !== current.policy.id ? [`Quy định: ${policyName(generated.policy)} → ${policyName(current.policy)}`] : []),
+        ...STAT_LABELS
+            .filter(([key]) => generated.stats[key] !== current.stats[key])
+            .map(([key, label]) => `${label}: ${generated.stats[key]} → ${current.stats[key]}`),
+    ];
+};
+
+/**
+ * Groups the projects of each dashboard category by supervisor, in name order.
+ * @param categorized The projects as sorted by categorizeProjects.
+ */
+export const summarizeSupervisors = (categorized: CategorizedProjects): SupervisorSummary[] => {
+    const bySupervisor = new Map<string, SupervisorSummary>();
+    const emptyCounts = () => Object.fromEntries(Object.keys(categorized).map(category => [category, 0])) as Record<ConclusionCategory, number>;
+    (Object.keys(categorized) as ConclusionCategory[]).forEach(category => {
+        categorized[category].forEach(project => {
+            const name = project.nguoihuongdan?.trim() || NO_SUPERVISOR_LABEL;
+            const entry = bySupervisor.get(name) || { name, projects: [], students: 0, counts: emptyCounts(), averageTv: 0 };
+            entry.counts[category]++;
+            // Every project is in exactly one of the conclusion categories; the others overlap them
+            if (CONCLUSION_CATEGORY_SET.has(category)) {
+                entry.projects.push(project);
+                entry.students += project.sohocvien || 0;
+            }
+            bySupervisor.set(name, entry);
+        });
+    });
+    return Array.from(bySupervisor.values())
+        .map(entry => ({ ...entry, averageTv: averageTv(entry.projects) }))
+        .sort((a, b) => a.name.localeCompare(b.name, 'vi'));
+};
+
+/**
+ * Builds the data the batch summary template is filled with: a de_tai loop over the projects and the counts.
+ */
+export const getBatchSummaryTemplateData = (summary: BatchSummary, policy: ConclusionPolicy, context: AssessmentContext, metadata: BatchMetadata): { [key: string]: any } => {
+    const { stats } = summary;
+    return {
+        ten_dot: metadata.batchName,
+        khoa: metadata.faculty,
+        can_bo_kiem_tra: metadata.officer,
+        dia_diem: metadata.place,
+        loai_tai_lieu: context.documentType.label,
+        lan_kiem_tra: String(context.checkRound),
+        ngay_kiem_tra: formatReportDate(context.checkDate),
+        ngay_kiem_tra_chu: formatVietnameseDate(context.checkDate),
+        quy_dinh: `${policy.name} (phiên bản ${policy.version})`,
+        de_tai: summary.projects.map(({ project, conclusion, dueDate, deduction, highestChapter, chapterViolations }, index) => ({
+            stt: index + 1,
+            ten_detai: project.tendetai,
+            hoten_hv: project.hotenhv,
+            ma_hv: joinStudentCodes(project),
+            nguoi_huongdan: project.nguoihuongdan || '',
+            so_hoc_vien: project.sohocvien,
+            sheet: project.tensheet || '',
+            TV: project.tv ? project.tv.toFixed(2) : '0.00',
+            chuong_max: highestChapter ? highestChapter.value.toFixed(2) : '',
+            chuong_max_ten: highestChapter ? chapterName(highestChapter.key) : '',
+            chuong_vuot: chapterViolations.map(chapterName).join(', '),
+            ket_luan: CONCLUSION_LABELS[conclusion],
+            han_nop_lai: dueDate ? formatReportDate(dueDate) : '',
+            diem_tru: deduction !== undefined ? String(deduction) : '',
+        })),
+        tong_de_tai: stats.totalProjects,
+        tong_hoc_vien: stats.totalStudents,
+        dam_bao: stats.withinLimit,
+        can_chinh_sua: stats.l1Edit,
+        can_xu_ly: stats.l2Process,
+        vuot_toi_da: stats.l2Exceeded,
+        chuong_vuot_nguong: stats.chapterExceeded,
+        da_khac_phuc: stats.fixedAfterEdit,
+        nop_lai: stats.resubmittedAfterEdit,
+    };
+};
+
+/**
+ * Fills the batch summary template.
+ * @param templateBuffer The .docx template.
+ * @returns The filled document.
+ */
+export const renderBatchSummaryDocument = (templateBuffer: ArrayBuffer, templateData: { [key: string]: any }): ArrayBuffer => {
+    let doc: Docxtemplater;
+    try {
+        // Syntax errors are thrown while the template compiles, data errors while it renders
+        doc = new Docxtemplater(new PizZip(templateBuffer), {
+            paragraphLoop: true,
+            linebreaks: true,
+        });
+        doc.setData(templateData);
+        doc.render();
+    } catch (error: any) {
+        console.error("Docxtemplater error in batch summary:", error);
+        const errors: any[] = Array.isArray(error.properties?.errors) ? error.properties.errors : [error];
+        const explanations = errors.map(err => err.properties?.explanation || err.message).join('\n- ');
+        throw new Error(`Lỗi file mẫu biên bản tổng hợp:\n- ${explanations}\n\nDanh sách đề tài cần dùng cú pháp lặp {#de_tai} ... {/de_tai}.`);
+    }
+    return doc.getZip().generate({
+        type: "arraybuffer",
+        mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    });
+};
+
+const formatDecimalColumns = (sheet: XLSX.WorkSheet, columns: number[]) => {
+    const range = XLSX.utils.decode_range(sheet['!ref'] || 'A1');
+    columns.forEach(c => {
+        for (let r = range.s.r + 1; r <= range.e.r; r++) {
+            const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+            if (cell?.t === 'n') cell.z = '0.00';
+        }
+    });
+};
+
+/**
+ * Builds a sheet counting the projects of each dashboard category with their students and TV ratios,
+ * each row coloured as its category.
+ * @param categorized The projects as sorted by categorizeProjects.
+ */
+export const buildCategorySummarySheet = (categorized: CategorizedProjects): { sheet: XLSX.WorkSheet, formatting: SheetFormatting } => {
+    const all = SUMMARY_CATEGORIES.filter(category => CONCLUSION_CATEGORY_SET.has(category)).flatMap(category => categorized[category]);
+    const line = (label: string, projects: MergedData[]) => [
+        label,
+        projects.length,
+        all.length > 0 ? projects.length / all.length * 100 : 0,
+        projects.reduce((sum, p) => sum + (p.sohocvien || 0), 0),
+        averageTv(projects),
+        projects.reduce((max, p) => Math.max(max, p.tv || 0), 0),
+    ];
+    const sheet = XLSX.utils.aoa_to_sheet([
+        ['Phân loại', 'Số đề tài', 'Tỉ lệ đề tài (%)', 'Số học viên', 'TV trung bình', 'TV cao nhất'],
+        ...SUMMARY_CATEGORIES.map(category => line(categoryLabel(category), categorized[category])),
+        line('Tổng cộng', all),
+    ]);
+    sheet['!cols'] = [{ wch: 28 }, { wch: 10 }, { wch: 14 }, { wch: 12 }, { wch: 14 }, { wch: 12 }];
+    formatDecimalColumns(sheet, [2, 4, 5]);
+    return {
+        sheet,
+        formatting: { headerRow: 0, frozenRows: 1, rowFills: new Map(SUMMARY_CATEGORIES.map((category, index) => [index + 1, CATEGORY_FILLS[category]])) },
+    };
+};
+
+/**
+ * Builds a sheet with each supervisor's projects counted by dashboard category.
+ * @param supervisors The summaries from summarizeSupervisors.
+ */
+export const buildSupervisorSummarySheet = (supervisors: SupervisorSummary[]): { sheet: XLSX.WorkSheet, formatting: SheetFormatting } => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+        ['Người hướng dẫn', 'Số đề tài', 'Số học viên', ...SUMMARY_CATEGORIES.map(categoryLabel), 'TV trung bình'],
+        ...supervisors.map(s => [s.name, s.projects.length, s.students, ...SUMMARY_CATEGORIES.map(category => s.counts[category]), s.averageTv]),
+    ]);
+    sheet['!cols'] = [{ wch: 30 }, { wch: 10 }, { wch: 12 }, ...SUMMARY_CATEGORIES.map(() => ({ wch: 14 })), { wch: 14 }];
+    if (supervisors.length > 0) sheet['!autofilter'] = { ref: sheet['!ref']! };
+    formatDecimalColumns(sheet, [3 + SUMMARY_CATEGORIES.length]);
+    return { sheet, formatting: { headerRow: 0, frozenRows: 1, frozenColumns: 1 } };
+};
+
+/**
+ * Builds the batch summary workbook: a 'Tong_hop' sheet listing the projects under a title block,
+ * and a 'Thong_ke' sheet with the counts per category.
+ * @param title First line of the title block; a supervisor's summary names the supervisor.
+ * @returns The workbook as an ArrayBuffer.
+ */
+export const buildBatchSummaryWorkbook = (
+    summary: BatchSummary,
+    policy: ConclusionPolicy,
+    context: AssessmentContext,
+    metadata: BatchMetadata,
+    title: string = SUMMARY_TITLE
+): ArrayBuffer => {
+    const hasSheets = summary.projects.some(({ project }) => project.tensheet);
+    const columns: { header: string, width: number, value: (line: BatchSummaryProject, index: number) => string | number, decimal?: boolean }[] = [
+        { header: 'STT', width: 5, value: (_, index) => index + 1 },
+        { header: 'Tên đề tài', width: 50, value: ({ project }) => project.tendetai },
+        { header: 'Họ tên HV', width: 28, value: ({ project }) => project.hotenhv },
+        { header: 'Mã HV', width: 14, value: ({ project }) => joinStudentCodes(project) },
+        { header: 'Người hướng dẫn', width: 26, value: ({ project }) => project.nguoihuongdan || '' },
+        { header: 'Số HV', width: 7, value: ({ project }) => project.sohocvien },
+        ...(hasSheets ? [{ header: 'Sheet', width: 14, value: ({ project }: BatchSummaryProject) => project.tensheet || '' }] : []),
+        { header: 'TV', width: 8, value: ({ project }) => project.tv ?? 0, decimal: true },
+        { header: 'Chương cao nhất', width: 15, value: ({ highestChapter }) => highestChapter ? chapterName(highestChapter.key) : '' },
+        { header: 'Tỉ lệ chương cao nhất', width: 12, value: ({ highestChapter }) => highestChapter ? highestChapter.value : '', decimal: true },
+        { header: 'Chương vượt ngưỡng', width: 20, value: ({ chapterViolations }) => chapterViolations.map(chapterName).join(', ') },
+        { header: 'Kết luận', width: 28, value: ({ conclusion }) => CONCLUSION_LABELS[conclusion] },
+        { header: 'Hạn nộp lại', width: 12, value: ({ dueDate }) => dueDate ? formatReportDate(dueDate) : '' },
+        { header: 'Điểm trừ', width: 9, value: ({ deduction }) => deduction ?? '' },
+    ];
+
+    const titleRows = [
+        [title],
+        [[metadata.batchName, metadata.faculty, context.documentType.label].filter(Boolean).join(' - ')],
+        [`Lần kiểm tra ${context.checkRound} - Ngày kiểm tra ${formatReportDate(context.checkDate)}${metadata.officer ? ` - Cán bộ kiểm tra: ${metadata.officer}` : ''}`],
+        [`Quy định: ${policy.name} (phiên bản ${policy.version})`],
+        [],
+    ];
+    const headerRow = titleRows.length;
+    const projectSheet = XLSX.utils.aoa_to_sheet([
+        ...titleRows,
+        columns.map(c => c.header),
+        ...summary.projects.map((line, index) => columns.map(c => c.value(line, index))),
+    ]);
+    const lastColumn = columns.length - 1;
+    const lastRow = headerRow + summary.projects.length;
+    projectSheet['!merges'] = [0, 1, 2, 3].map(r => ({ s: { r, c: 0 }, e: { r, c: lastColumn } }));
+    projectSheet['!cols'] = columns.map(c => ({ wch: c.width }));
+    projectSheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: headerRow, c: 0 }, e: { r: lastRow, c: lastColumn } }) };
+    columns.forEach((column, c) => {
+        if (!column.decimal) return;
+        for (let r = headerRow + 1; r <= lastRow; r++) {
+            const cell = projectSheet[XLSX.utils.encode_cell({ r, c })];
+            if (cell?.t === 'n') cell.z = '0.00';
+        }
+    });
+
+    const statsSheet = XLSX.utils.aoa_to_sheet([
+        ['Chỉ tiêu', 'Số lượng'],
+        ...STAT_LABELS.map(([key, label]) => [label, summary.stats[key]]),
+    ]);
+    statsSheet['!cols'] = [{ wch: 32 }, { wch: 12 }];
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, projectSheet, 'Tong_hop');
+    XLSX.utils.book_append_sheet(workbook, statsSheet, 'Thong_ke');
+    return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+};
@@ -0,0 +1,211 @@
+import { CheckRound, ConclusionPolicy, DocumentTypePolicy, MergedData, RoundProjectRecord, RoundRecord } from '../types';
+import { normalizeString } from './stringUtils';
+import { getChapterKeys } from './validation';
+import { evaluateConclusion, CONCLUSION_LABELS } from './conclusionPolicy';
+
+const STORAGE_KEY = 'baocaopro.checkRounds';
+
+// Share of a saved round's projects that must reappear for a new save of the same round to replace it.
+const RERUN_OVERLAP = 0.5;
+
+/**
+ * Loads the saved check rounds from localStorage, in the order they were saved.
+ */
+export const loadCheckRounds = (): CheckRound[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.error("Không đọc được lịch sử kiểm tra đã lưu:", error);
+        return [];
+    }
+};
+
+const persist = (rounds: CheckRound[]): CheckRound[] => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rounds));
+    return rounds;
+};
+
+const studentKeyOf = (names: string): string =>
+    names.split(',').map(normalizeString).filter(Boolean).sort().join('|');
+
+/**
+ * Returns the keys that link a project across rounds: its topic, and its set of students.
+ */
+export const getProjectKeys = (row: { tendetai?: string, hotenhv?: string }): { topicKey: string, studentKey: string } => ({
+    topicKey: normalizeString(row.tendetai),
+    studentKey: studentKeyOf(String(row.hotenhv || '')),
+});
+
+// Name of the file a row was read from, from its source cell reference such as "[File.xlsx]Sheet1!B5".
+const sourceFileOf = (row: MergedData): string | undefined =>
+    row.tenfile || row.nguon?.cells.tendetai?.match(/^\[([^\]]+)\]/)?.[1];
+
+const isSameProject = (a: { topicKey: string, studentKey: string }, b: { topicKey: string, studentKey: string }): boolean =>
+    (!!a.topicKey && a.topicKey === b.topicKey) || (!!a.studentKey && a.studentKey === b.studentKey);
+
+/**
+ * Records the projects of a batch as they stand in this round.
+ */
+export const buildCheckRound = (
+    data: MergedData[],
+    round: number,
+    date: string,
+    policy: ConclusionPolicy,
+    documentType: DocumentTypePolicy
+): CheckRound => ({
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    round,
+    date,
+    policyId: policy.id,
+    policyVersion: policy.version,
+    documentTypeId: documentType.id,
+    sources: Array.from(new Set(data.map(sourceFileOf).filter((s): s is string => !!s))),
+    projects: data.map(row => {
+        const chapters: RoundProjectRecord['chapters'] = {};
+        getChapterKeys(row).forEach(key => {
+            const value = row[key];
+            if (typeof value === 'number') chapters[key] = value;
+        });
+        return {
+            ...getProjectKeys(row),
+            tendetai: row.tendetai,
+            hotenhv: row.hotenhv,
+            tv: row.tv,
+            chapters,
+            conclusion: evaluateConclusion(documentType, row.tv || 0, round),
+        };
+    }),
+    savedAt: new Date().toISOString(),
+});
+
+/**
+ * Saves a check round. A saved round with the same number and mostly the same projects
+ * is a re-run of this check and is replaced.
+ * @returns The updated list of rounds.
+ */
+export const saveCheckRound = (checkRound: CheckRound): CheckRound[] => {
+    const others = loadCheckRounds().filter(saved => {
+        if (saved.round !== checkRound.round || saved.projects.length === 0) return true;
+        const overlap = saved.projects.filter(p => checkRound.projects.some(q => isSameProject(p, q))).length;
+        return overlap / saved.projects.length < RERUN_OVERLAP;
+    });
+    return persist([...others, checkRound]);
+};
+
+/**
+ * Deletes a saved check round by id.
+ * @returns The updated list of rounds.
+ */
+export const deleteCheckRound = (id: string): CheckRound[] => {
+    return persist(loadCheckRounds().filter(r => r.id !== id));
+};
+
+/**
+ * Finds the earlier records of each project, following the project back round by round.
+ * @param data The projects of the current batch.
+ * @param rounds The saved rounds.
+ * @param currentRound Only rounds before this one are searched.
+ * @returns For each row, its records in earlier rounds, oldest first.
+ */
+export const linkProjectHistory = (data: MergedData[], rounds: CheckRound[], currentRound: number): RoundRecord[][] => {
+    // Latest save first, so a re-run of a round wins over an older save
+    const earlier = rounds
+        .map((round, order) => ({ round, order }))
+        .filter(({ round }) => round.round < currentRound)
+        .sort((a, b) => b.round.round - a.round.round || b.order - a.order)
+        .map(({ round }) => round);
+
+    return data.map(row => {
+        const records: RoundRecord[] = [];
+        let keys = getProjectKeys(row);
+        let lastRound = currentRound;
+        for (const round of earlier) {
+            if (round.round >= lastRound) continue;
+            const record = round.projects.find(p => isSameProject(p, keys));
+            if (!record) continue;
+            records.unshift({ ...record, round: round.round, date: round.date });
+            // The topic may have been renamed between rounds, so follow the keys of the record found
+            keys = { topicKey: record.topicKey || keys.topicKey, studentKey: record.studentKey || keys.studentKey };
+            lastRound = round.round;
+        }
+        return records;
+    });
+};
+
+/**
+ * Suggests the round number of a batch: one more than the latest round its projects were checked in.
+ * @param histories The earlier records of each project, as returned by linkProjectHistory.
+ */
+export const suggestCheckRound = (histories: RoundRecord[][]): number => {
+    const latest = histories.map(records => records.length > 0 ? records[records.length - 1].round : 0);
+    return Math.max(0, ...latest) + 1;
+};
+
+const formatDelta = (current: number | undefined, previous: number | undefined): string => {
+    if (typeof current !== 'number' || typeof previous !== 'number') return '';
+    const delta = current - previous;
+    return `${delta > 0 ? '+' : ''}${delta.toFixed(2)}`;
+};
+
+/**
+ * Builds the previous-round placeholders of a report.
+ * @param records The project's records in earlier rounds, oldest first.
+ * @returns lan_truoc, ngay_truoc, tv_truoc, chenh_lech_tv (TV change, negative when it went down) and
+ *          the lich_su loop, plus per chapter the values to add to chuong_data.
+ */
+export const getHistoryTemplateData = (row: MergedData, records: RoundRecord[]): {
+    fields: { [key: string]: string | { [key: string]: string }[] },
+    chapters: { [chapterKey: string]: { tyle_truoc: string, chenh_lech: string } },
+} => {
+    const previous = records[records.length - 1];
+    const chapters: { [chapterKey: string]: { tyle_truoc: string, chenh_lech: string } } = {};
+    getChapterKeys(row).forEach(key => {
+        const before = previous?.chapters[key];
+        const value = row[key];
+        chapters[key] = {
+            tyle_truoc: typeof before === 'number' ? before.toFixed(2) : '',
+            chenh_lech: formatDelta(typeof value === 'number' ? value : undefined, before),
+        };
+    });
+
+    return {
+        fields: {
+            lan_truoc: previous ? String(previous.round) : '',
+            ngay_truoc: previous ? previous.date : '',
+            tv_truoc: typeof previous?.tv === 'number' ? previous.tv.toFixed(2) : '',
+            chenh_lech_tv: formatDelta(row.tv, previous?.tv),
+            lich_su: records.map(record => ({
+                lan: String(record.round),
+                ngay: record.date,
+                tv: typeof record.tv === 'number' ? record.tv.toFixed(2) : '',
+                ket_luan: CONCLUSION_LABELS[record.conclusion],
+            })),
+        },
+        chapters,
+    };
+};
+
+/**
+ * Groups the projects of all saved rounds into one timeline per project, for the history view.
+ * @returns Each project's records, oldest round first.
+ */
+export const buildProjectTimelines = (rounds: CheckRound[]): RoundRecord[][] => {
+    const timelines: RoundRecord[][] = [];
+    [...rounds]
+        .sort((a, b) => a.round - b.round || a.date.localeCompare(b.date))
+        .forEach(round => round.projects.forEach(project => {
+            const record: RoundRecord = { ...project, round: round.round, date: round.date };
+            const timeline = timelines.find(t => {
+                const last = t[t.length - 1];
+                return last.round < round.round && isSameProject(last, project);
+            });
+            if (timeline) {
+                timeline.push(record);
+            } else {
+                timelines.push([record]);
+            }
+        }));
+    return timelines;
+};
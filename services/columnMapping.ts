@@ -0,0 +1,237 @@
+import { ColumnInspection, ColumnMapping, MappedField, MappingProfile, MappingRole } from '../types';
+import { normalizeString } from './stringUtils';
+
+type Cell = string | number | null | undefined;
+
+export interface FieldDefinition {
+    field: MappedField;
+    label: string;
+    required: boolean;
+    keywords: string[];
+}
+
+/**
+ * The columns each kind of file provides, with the keywords used to detect them automatically.
+ */
+export const MAPPING_FIELDS: Record<MappingRole, FieldDefinition[]> = {
+    main: [
+        { field: 'tendetai', label: 'Tên đề tài', required: true, keywords: ["Tên đề tài", "De tai", "Tên luận văn"] },
+        { field: 'hotenhv', label: 'Họ tên HV', required: true, keywords: ["Họ tên HV", "Ten hoc vien"] },
+        { field: 'nguoihuongdan', label: 'Người hướng dẫn', required: false, keywords: ["Người hướng dẫn", "GVHD"] },
+        { field: 'emailhuongdan', label: 'Email người hướng dẫn', required: false, keywords: ["Email người hướng dẫn", "Email GVHD", "Email hướng dẫn"] },
+        { field: 'mahv', label: 'Mã học viên', required: false, keywords: ["Mã HV", "Mã học viên", "MSHV", "Mã SV", "MSSV"] },
+        { field: 'lop', label: 'Lớp', required: false, keywords: ["Lớp", "Mã lớp"] },
+        { field: 'email', label: 'Email', required: false, keywords: ["Email", "Thư điện tử"] },
+    ],
+    supplementary: [
+        { field: 'tv', label: 'TV', required: false, keywords: ["TV"] },
+        { field: 'tendetai', label: 'Tên đề tài', required: false, keywords: ["Tên đề tài", "De tai", "Tên luận văn", "Tên tài liệu", "Document"] },
+        { field: 'hotenhv', label: 'Họ tên HV', required: false, keywords: ["Họ tên HV", "Ten hoc vien", "Họ tên"] },
+        { field: 'chuong', label: 'Chương (dạng dọc)', required: false, keywords: ["Chương", "Chapter"] },
+        { field: 'tile', label: 'Tỉ lệ (dạng dọc)', required: false, keywords: ["Tỉ lệ", "Tỷ lệ", "Similarity", "Trùng lặp"] },
+    ],
+    report: [
+        { field: 'tendetai', label: 'Tên đề tài', required: true, keywords: ['Tên đề tài', 'tendetai', 'Tên luận văn'] },
+        { field: 'hotenhv', label: 'Họ tên HV', required: true, keywords: ['Họ tên HV', 'hotenhv'] },
+        { field: 'sohocvien', label: 'Số học viên', required: false, keywords: ['Số học viên', 'sohocvien'] },
+        { field: 'nguoihuongdan', label: 'Người hướng dẫn', required: false, keywords: ['Người hướng dẫn', 'nguoihuongdan', 'GVHD'] },
+        { field: 'emailhuongdan', label: 'Email người hướng dẫn', required: false, keywords: ['Email người hướng dẫn', 'emailhuongdan', 'Email GVHD'] },
+        { field: 'tv', label: 'TV', required: false, keywords: ['TV'] },
+        { field: 'tensheet', label: 'Sheet', required: false, keywords: ['Sheet', 'tensheet'] },
+        { field: 'tenfile', label: 'File nguồn', required: false, keywords: ['File nguồn', 'tenfile'] },
+        { field: 'mahv', label: 'Mã học viên', required: false, keywords: ['Mã HV', 'Mã học viên', 'MSHV'] },
+        { field: 'lop', label: 'Lớp', required: false, keywords: ['Lớp'] },
+        { field: 'email', label: 'Email', required: false, keywords: ['Email'] },
+    ],
+};
+
+// Keywords used to locate the header row of each kind of file.
+const HEADER_KEYWORDS: Record<MappingRole, string[]> = {
+    main: ["Tên đề tài", "Họ tên HV", "Người hướng dẫn"],
+    supplementary: ["TV", "Tỉ lệ"],
+    report: ["Tên đề tài", "Họ tên HV", "TV"],
+};
+
+/**
+ * Detects the header row in a 2D array of data based on expected keywords.
+ * @param data The 2D array of data.
+ * @param keywords The keywords to look for in header cells.
+ * @returns The index of the header row, or 0 if not found.
+ */
+export const detectHeaderRow = (data: Cell[][], keywords: string[]): number => {
+    for (let i = 0; i < Math.min(10, data.length); i++) {
+        const row = data[i];
+        let matchCount = 0;
+        for (const cell of row) {
+            const normalizedCell = normalizeString(cell);
+            if (keywords.some(kw => normalizedCell.includes(normalizeString(kw)))) {
+                matchCount++;
+            }
+        }
+        if (matchCount >= 2) {
+            return i;
+        }
+    }
+    return 0; // Default to the first row if no better match is found
+};
+
+/**
+ * Finds the original column name that matches a list of keywords.
+ * @param headers An array of header strings.
+ * @param keywords An array of keywords to search for.
+ * @returns The original column name or null if not found.
+ */
+export const findColumn = (headers: string[], keywords: string[]): string | null => {
+    const normalizedHeaders = headers.map(h => ({ original: h, normalized: normalizeString(h) }));
+    for (const keyword of keywords) {
+        const normKey = normalizeString(keyword);
+        const found = normalizedHeaders.find(h => h.normalized.includes(normKey));
+        if (found) {
+            return found.original;
+        }
+    }
+    return null;
+};
+
+/**
+ * Returns the trimmed header texts of the given row.
+ */
+export const getHeaders = (data: Cell[][], headerRowIndex: number): string[] => {
+    return (data[headerRowIndex] || []).map(h => String(h ?? '').trim());
+};
+
+/**
+ * Maps every known field to a column of the given header row using the keyword lists. Each column is
+ * mapped to one field at most: a header matching several fields goes to the longest matching keyword,
+ * so 'Email người hướng dẫn' is the supervisor's email rather than the supervisor or the student's email.
+ */
+export const detectColumnsInRow = (data: Cell[][], headerRowIndex: number, role: MappingRole): ColumnMapping => {
+    const headers = getHeaders(data, headerRowIndex).map(normalizeString);
+    const columns: ColumnMapping['columns'] = {};
+    const claimed = new Set<number>();
+    // Each field's first keyword, in list order, found in a column not taken yet
+    const findMatch = (def: FieldDefinition) => {
+        for (const keyword of def.keywords.map(normalizeString)) {
+            const index = headers.findIndex((header, i) => !claimed.has(i) && header.includes(keyword));
+            if (index !== -1) return { field: def.field, index, specificity: keyword.length };
+        }
+        return null;
+    };
+    let pending = MAPPING_FIELDS[role];
+    while (pending.length > 0) {
+        const best = pending
+            .map(findMatch)
+            .reduce<ReturnType<typeof findMatch>>((best, match) => match && (!best || match.specificity > best.specificity) ? match : best, null);
+        if (!best) break;
+        columns[best.field] = best.index;
+        claimed.add(best.index);
+        pending = pending.filter(def => def.field !== best.field);
+    }
+    return { headerRowIndex, columns };
+};
+
+/**
+ * Detects the header row and maps every known field to a column using the keyword lists.
+ * @param data Raw 2D array read from the file.
+ * @param role Which kind of file the data comes from.
+ * @returns The detected mapping. Fields that were not found are left out.
+ */
+export const detectColumnMapping = (data: Cell[][], role: MappingRole): ColumnMapping => {
+    const keywords = [...HEADER_KEYWORDS[role], ...MAPPING_FIELDS[role].flatMap(def => def.keywords)];
+    return detectColumnsInRow(data, detectHeaderRow(data, keywords), role);
+};
+
+/**
+ * Tries to apply a saved profile to a file. Every column named in the profile must be
+ * present (accent-insensitive) in one of the first rows for the profile to apply.
+ * @returns The resulting mapping, or null if the file does not have the profile's columns.
+ */
+export const applyMappingProfile = (data: Cell[][], profile: MappingProfile): ColumnMapping | null => {
+    const wanted = Object.entries(profile.columns) as [MappedField, string][];
+    if (wanted.length === 0) return null;
+
+    for (let i = 0; i < Math.min(10, data.length); i++) {
+        const normalizedHeaders = getHeaders(data, i).map(h => normalizeString(h));
+        const columns: ColumnMapping['columns'] = {};
+        const allFound = wanted.every(([field, header]) => {
+            const index = normalizedHeaders.indexOf(normalizeString(header));
+            if (index === -1) return false;
+            columns[field] = index;
+            return true;
+        });
+        if (allFound) {
+            return { headerRowIndex: i, columns };
+        }
+    }
+    return null;
+};
+
+/**
+ * Builds a mapping for a newly uploaded file: the first saved profile that applies wins
+ * (profiles of the given faculty are tried first), otherwise keyword detection is used.
+ */
+export const resolveColumnMapping = (
+    data: Cell[][],
+    role: MappingRole,
+    profiles: MappingProfile[],
+    faculty: string
+): { mapping: ColumnMapping, profile?: MappingProfile } => {
+    const normalizedFaculty = normalizeString(faculty);
+    const candidates = profiles
+        .filter(p => p.role === role)
+        .sort((a, b) => {
+            const aOwn = normalizeString(a.faculty) === normalizedFaculty ? 0 : 1;
+            const bOwn = normalizeString(b.faculty) === normalizedFaculty ? 0 : 1;
+            return aOwn - bOwn;
+        });
+
+    for (const profile of candidates) {
+        const mapping = applyMappingProfile(data, profile);
+        if (mapping) return { mapping, profile };
+    }
+    return { mapping: detectColumnMapping(data, role) };
+};
+
+/**
+ * Lists the labels of required fields that the mapping does not assign.
+ */
+export const getMissingRequiredFields = (mapping: ColumnMapping, role: MappingRole): string[] => {
+    return MAPPING_FIELDS[role]
+        .filter(def => def.required && mapping.columns[def.field] === undefined)
+        .map(def => def.label);
+};
+
+/**
+ * Captures a mapping as a profile, storing the header text of each mapped column.
+ */
+export const createMappingProfile = (
+    data: Cell[][],
+    mapping: ColumnMapping,
+    role: MappingRole,
+    name: string,
+    faculty: string
+): MappingProfile => {
+    const headers = getHeaders(data, mapping.headerRowIndex);
+    const columns: MappingProfile['columns'] = {};
+    (Object.entries(mapping.columns) as [MappedField, number][]).forEach(([field, index]) => {
+        if (headers[index]) columns[field] = headers[index];
+    });
+    return { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name, faculty, role, columns };
+};
+
+/**
+ * Resolves the mapping for one sheet of a workbook. The sheet shown in the mapping step
+ * uses the confirmed mapping as is; other sheets reuse it by header text, falling back
+ * to keyword detection when their headers differ.
+ */
+export const resolveSheetMapping = (
+    data: Cell[][],
+    sheetName: string,
+    role: MappingRole,
+    inspection?: ColumnInspection
+): ColumnMapping => {
+    if (!inspection) return detectColumnMapping(data, role);
+    if (inspection.sheetName === sheetName) return inspection.mapping;
+    const reference = createMappingProfile(inspection.previewRows, inspection.mapping, role, inspection.fileName, '');
+    return applyMappingProfile(data, reference) || detectColumnMapping(data, role);
+};
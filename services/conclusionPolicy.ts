@@ -0,0 +1,313 @@
+import { AssessmentContext, CategorizedProjects, ConclusionCategory, ConclusionKey, ConclusionPolicy, DashboardStats, DeductionStep, DocumentTypePolicy, MergedData, ProjectAssessment, RatioBand, RoundRecord } from '../types';
+import { normalizeString } from './stringUtils';
+import { getChapterKeys } from './validation';
+import { addWorkingDays, formatReportDate, formatVietnameseDate } from './workingCalendar';
+
+const STORAGE_KEY = 'baocaopro.conclusionPolicies';
+
+export const CONCLUSION_KEYS: ConclusionKey[] = ['kl1', 'kl2', 'kl3', 'kl4'];
+
+// Dashboard category of each conclusion.
+export const CONCLUSION_CATEGORIES: Record<ConclusionKey, ConclusionCategory> = {
+    kl1: 'withinLimit',
+    kl2: 'l2Process',
+    kl3: 'l1Edit',
+    kl4: 'l2Exceeded',
+};
+
+// Short names of the conclusions, for the policy editor.
+export const CONCLUSION_LABELS: Record<ConclusionKey, string> = {
+    kl1: 'KL1 - Đảm bảo tỉ lệ',
+    kl2: 'KL2 - Cần xử lý, trừ điểm',
+    kl3: 'KL3 - Chỉnh sửa, nộp lại',
+    kl4: 'KL4 - Vượt tối đa',
+};
+
+export const DEFAULT_CHAPTER_NOTE = 'Vượt ngưỡng chương';
+
+export const CHECKED_BOX = '☑';
+export const UNCHECKED_BOX = '☐';
+
+// Below the limit the work passes; within the range it is sent back in round 1 and penalised afterwards;
+// above the maximum it is sent back in round 1 and fails afterwards.
+const standardBands = (limit: number, maximum: number): RatioBand[] => [
+    { max: limit, maxInclusive: false, conclusions: ['kl1'] },
+    { max: maximum, maxInclusive: true, conclusions: ['kl3', 'kl2'] },
+    { maxInclusive: false, conclusions: ['kl3', 'kl4'] },
+];
+
+// Half a point from the limit, one point from halfway through the processing band.
+const standardDeductions = (limit: number, maximum: number): DeductionStep[] => [
+    { from: limit, points: 0.5 },
+    { from: (limit + maximum) / 2, points: 1 },
+];
+
+/**
+ * The rules the application shipped with: ĐATN/KLTN 25%-35%, BCCĐ 30%-40%.
+ */
+export const DEFAULT_POLICY: ConclusionPolicy = {
+    id: 'default',
+    name: 'Quy định mặc định',
+    version: 1,
+    effectiveFrom: '2000-01-01',
+    createdAt: '2000-01-01T00:00:00.000Z',
+    documentTypes: [
+        // Listed before ĐATN so that a 'KLTN' template names its reports KQ_KLTN
+        { id: 'KLTN', label: 'ĐATN/KLTN', fileNameKeywords: ['kltn'], outputPrefix: 'KQ_KLTN', bands: standardBands(25, 35), resubmissionDays: 3, deductions: standardDeductions(25, 35) },
+        { id: 'ĐATN', label: 'ĐATN/KLTN', fileNameKeywords: ['datn'], outputPrefix: 'KQ_ĐATN', bands: standardBands(25, 35), resubmissionDays: 3, deductions: standardDeductions(25, 35) },
+        { id: 'BCCĐ', label: 'BCCĐ', fileNameKeywords: ['bccd'], outputPrefix: 'KQ_BCCĐ', bands: standardBands(30, 40), resubmissionDays: 2, deductions: standardDeductions(30, 40) },
+    ],
+    conclusionTexts: {
+        kl1: 'Đảm bảo tỉ lệ cho phép, đề nghị Hội đồng đánh giá ĐATN / Cán bộ chấm thi BCCĐ đánh giá và kết luận.',
+        kl2: 'Tỉ lệ trùng lặp trong khoảng cần xử lý (ĐATN: 25%-35%; BCCĐ: 30%-40%), đề nghị Hội đồng đánh giá ĐATN / Cán bộ chấm thi BCCĐ trừ điểm theo Quy định.',
+        kl3: 'Vượt tỉ lệ, đề nghị học viên chỉnh sửa trong thời gian 03 ngày (ĐATN) / 02 ngày (BCCĐ) và nộp lại để kiểm tra lần tiếp theo.',
+        kl4: 'Vượt tỉ lệ tối đa (ĐATN > 35%; BCCĐ > 40%): không được bảo vệ/không được chấm, điểm 0.',
+    },
+    chapterNote: DEFAULT_CHAPTER_NOTE,
+};
+
+/**
+ * Loads every saved policy version from localStorage, after the built-in default policy.
+ */
+export const loadConclusionPolicies = (): ConclusionPolicy[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return [DEFAULT_POLICY, ...(Array.isArray(parsed) ? parsed : [])];
+    } catch (error) {
+        console.error("Không đọc được quy định kết luận đã lưu:", error);
+        return [DEFAULT_POLICY];
+    }
+};
+
+const persist = (policies: ConclusionPolicy[]): ConclusionPolicy[] => {
+    const saved = policies.filter(p => p.id !== DEFAULT_POLICY.id);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    return [DEFAULT_POLICY, ...saved];
+};
+
+/**
+ * Saves an edited policy as a new version. Existing versions are never overwritten,
+ * so batches checked under an older version can still be re-evaluated with it.
+ * @returns The saved version and the updated list of policies.
+ */
+export const saveConclusionPolicyVersion = (edited: ConclusionPolicy): { policy: ConclusionPolicy, policies: ConclusionPolicy[] } => {
+    const policies = loadConclusionPolicies();
+    const sameName = policies.filter(p => p.name === edited.name);
+    const policy: ConclusionPolicy = {
+        ...edited,
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        version: Math.max(0, ...sameName.map(p => p.version)) + 1,
+        createdAt: new Date().toISOString(),
+    };
+    return { policy, policies: persist([...policies, policy]) };
+};
+
+/**
+ * Deletes a saved policy version. The default policy cannot be deleted.
+ * @returns The updated list of policies.
+ */
+export const deleteConclusionPolicy = (id: string): ConclusionPolicy[] => {
+    return persist(loadConclusionPolicies().filter(p => p.id !== id));
+};
+
+/**
+ * Returns today's local date as YYYY-MM-DD, the format of ConclusionPolicy.effectiveFrom.
+ */
+export const todayIsoDate = (): string => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Picks the policy in force on a date: the latest effective one, and its highest version.
+ * @param date ISO date (YYYY-MM-DD) of the check.
+ * @returns The policy, or the earliest one if the date precedes them all.
+ */
+export const getEffectivePolicy = (policies: ConclusionPolicy[], date: string): ConclusionPolicy => {
+    const byRecency = [...policies].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || b.version - a.version);
+    return byRecency.find(p => p.effectiveFrom <= date) || byRecency[byRecency.length - 1] || DEFAULT_POLICY;
+};
+
+/**
+ * Checks that a policy can be evaluated for every TV ratio.
+ * @returns A message per problem found; empty if the policy is usable.
+ */
+export const validateConclusionPolicy = (policy: ConclusionPolicy): string[] => {
+    const problems: string[] = [];
+    if (!policy.name.trim()) problems.push('Chưa đặt tên quy định.');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(policy.effectiveFrom)) problems.push('Ngày hiệu lực không hợp lệ.');
+    if (policy.documentTypes.length === 0) problems.push('Cần ít nhất một loại tài liệu.');
+
+    const ids = new Set<string>();
+    policy.documentTypes.forEach(type => {
+        const name = type.id || '(chưa đặt mã)';
+        if (!type.id.trim()) problems.push('Có loại tài liệu chưa đặt mã.');
+        if (ids.has(type.id)) problems.push(`Mã loại tài liệu '${type.id}' bị trùng.`);
+        ids.add(type.id);
+        if (type.bands.length === 0) {
+            problems.push(`${name}: cần ít nhất một khoảng tỉ lệ.`);
+            return;
+        }
+        if (type.chapterLimit !== undefined && (isNaN(type.chapterLimit) || type.chapterLimit < 0 || type.chapterLimit > 100)) {
+            problems.push(`${name}: ngưỡng chương phải nằm trong khoảng 0–100%.`);
+        }
+        if (type.resubmissionDays !== undefined && (!Number.isInteger(type.resubmissionDays) || type.resubmissionDays < 1)) {
+            problems.push(`${name}: số ngày nộp lại phải là số nguyên dương.`);
+        }
+        (type.deductions || []).forEach((step, index, steps) => {
+            if (isNaN(step.from) || step.from < 0 || step.from > 100) problems.push(`${name}: mốc trừ điểm thứ ${index + 1} phải nằm trong khoảng 0–100%.`);
+            if (isNaN(step.points) || step.points < 0) problems.push(`${name}: điểm trừ ở mốc thứ ${index + 1} không hợp lệ.`);
+            if (index > 0 && step.from <= steps[index - 1].from) problems.push(`${name}: các mốc trừ điểm phải theo thứ tự tăng dần.`);
+        });
+        type.bands.forEach((band, index) => {
+            const isLast = index === type.bands.length - 1;
+            if (isLast && band.max !== undefined) problems.push(`${name}: khoảng cuối cùng không được có giới hạn trên.`);
+            if (!isLast && band.max === undefined) problems.push(`${name}: chỉ khoảng cuối cùng được bỏ trống giới hạn trên.`);
+            const previous = type.bands[index - 1];
+            if (band.max !== undefined && previous?.max !== undefined && band.max < previous.max) {
+                problems.push(`${name}: các khoảng tỉ lệ phải theo thứ tự tăng dần.`);
+            }
+            if (band.conclusions.length === 0) problems.push(`${name}: khoảng thứ ${index + 1} chưa có kết luận.`);
+        });
+    });
+    return problems;
+};
+
+/**
+ * Finds a document type of a policy by id, falling back to its first type.
+ */
+export const getDocumentType = (policy: ConclusionPolicy, id: string): DocumentTypePolicy =>
+    policy.documentTypes.find(type => type.id === id) || policy.documentTypes[0];
+
+/**
+ * Guesses the document type a template is for from the keywords in its filename, to pre-fill the type selector.
+ * @param templateFileName Filename of the Word template, e.g. 'Mau_KQ_DATN.docx'.
+ * @returns The first type whose keyword the filename contains, or undefined if it names none.
+ */
+export const suggestDocumentType = (policy: ConclusionPolicy, templateFileName: string): DocumentTypePolicy | undefined => {
+    const normalizedFileName = normalizeString(templateFileName);
+    return policy.documentTypes.find(type =>
+        type.fileNameKeywords.some(keyword => normalizeString(keyword) && normalizedFileName.includes(normalizeString(keyword)))
+    );
+};
+
+/**
+ * Finds the conclusion for a TV ratio.
+ * @param round Check round, starting at 1.
+ */
+export const evaluateConclusion = (documentType: DocumentTypePolicy, tv: number, round: number): ConclusionKey => {
+    const band = documentType.bands.find(b => b.max === undefined || tv < b.max || (b.maxInclusive && tv === b.max))
+        || documentType.bands[documentType.bands.length - 1];
+    const conclusions = band.conclusions;
+    return conclusions[Math.min(Math.max(round, 1), conclusions.length) - 1];
+};
+
+/**
+ * Looks up the points deducted for a TV ratio in the document type's deduction table.
+ * @returns The points of the highest step the ratio reaches, or undefined if it reaches none.
+ */
+export const findDeduction = (documentType: DocumentTypePolicy, tv: number): number | undefined => {
+    const reached = (documentType.deductions || []).filter(step => tv >= step.from);
+    return reached.length > 0 ? reached[reached.length - 1].points : undefined;
+};
+
+/**
+ * Works out a project's conclusion with its resubmission deadline (KL3) or point deduction (KL2).
+ */
+export const assessProject = (context: AssessmentContext, row: MergedData): ProjectAssessment => {
+    const { documentType, checkRound, checkDate, calendar } = context;
+    const tv = row.tv || 0;
+    const conclusion = evaluateConclusion(documentType, tv, checkRound);
+    const assessment: ProjectAssessment = { conclusion };
+    if (conclusion === 'kl3' && documentType.resubmissionDays) {
+        assessment.dueDate = addWorkingDays(calendar, checkDate, documentType.resubmissionDays) || undefined;
+    }
+    if (conclusion === 'kl2') {
+        assessment.deduction = findDeduction(documentType, tv);
+    }
+    return assessment;
+};
+
+/**
+ * Builds the date, deadline and deduction placeholders of a report: ngay_kiem_tra, so_ngay_nop_lai,
+ * han_nop_lai and diem_tru, with the dates also written out (ngay_kiem_tra_chu, han_nop_lai_chu).
+ * The deadline and deduction are blank for projects they do not apply to.
+ */
+export const getAssessmentTemplateData = (context: AssessmentContext, assessment: ProjectAssessment): { [key: string]: string } => ({
+    ngay_kiem_tra: formatReportDate(context.checkDate),
+    ngay_kiem_tra_chu: formatVietnameseDate(context.checkDate),
+    so_ngay_nop_lai: assessment.dueDate ? String(context.documentType.resubmissionDays) : '',
+    han_nop_lai: assessment.dueDate ? formatReportDate(assessment.dueDate) : '',
+    han_nop_lai_chu: assessment.dueDate ? formatVietnameseDate(assessment.dueDate) : '',
+    diem_tru: assessment.deduction !== undefined ? String(assessment.deduction) : '',
+});
+
+/**
+ * Lists the chapters of a project whose ratio is over the document type's chapter limit.
+ * @returns The chapter keys (c1, c2, ...) over the limit, in chapter order.
+ */
+export const findChapterViolations = (documentType: DocumentTypePolicy, row: MergedData): string[] => {
+    const limit = documentType.chapterLimit;
+    if (limit === undefined) return [];
+    return getChapterKeys(row).filter(key => {
+        const value = row[key];
+        return typeof value === 'number' && value > limit;
+    });
+};
+
+/**
+ * Builds the conclusion placeholders of a report: kl1_box..kl4_box and the texts ketluan1..4.
+ */
+export const getConclusionTemplateData = (policy: ConclusionPolicy, conclusion: ConclusionKey): { [key: string]: string } => {
+    const data: { [key: string]: string } = {};
+    CONCLUSION_KEYS.forEach((key, index) => {
+        data[`${key}_box`] = key === conclusion ? CHECKED_BOX : UNCHECKED_BOX;
+        data[`ketluan${index + 1}`] = policy.conclusionTexts[key];
+    });
+    return data;
+};
+
+// Whether a project was sent back for editing (KL3) in the latest round it was checked in.
+const wasSentBackForEditing = (records: RoundRecord[] | undefined): boolean =>
+    !!records && records.length > 0 && records[records.length - 1].conclusion === 'kl3';
+
+/**
+ * Counts the projects of a batch that were sent back for editing in their previous round.
+ * @param histories Each row's records in earlier rounds.
+ */
+export const countResubmittedAfterEdit = (histories: RoundRecord[][]): number =>
+    histories.filter(wasSentBackForEditing).length;
+
+/**
+ * Sorts projects into the dashboard categories, using the same evaluation as the reports.
+ * @param histories Each row's records in earlier rounds, to find the projects fixed since being sent back.
+ */
+export const categorizeProjects = (data: MergedData[], documentType: DocumentTypePolicy, round: number, histories: RoundRecord[][] = []): CategorizedProjects => {
+    const categorized: CategorizedProjects = { withinLimit: [], l1Edit: [], l2Process: [], l2Exceeded: [], chapterExceeded: [], fixedAfterEdit: [] };
+    data.forEach((row, index) => {
+        const conclusion = evaluateConclusion(documentType, row.tv || 0, round);
+        categorized[CONCLUSION_CATEGORIES[conclusion]].push(row);
+        // A project with a chapter over the limit is counted here as well as in its TV category
+        if (findChapterViolations(documentType, row).length > 0) categorized.chapterExceeded.push(row);
+        if (wasSentBackForEditing(histories[index]) && conclusion === 'kl1') categorized.fixedAfterEdit.push(row);
+    });
+    return categorized;
+};
+
+/**
+ * Counts the projects of each dashboard category.
+ * @param categorized The projects as sorted by categorizeProjects.
+ * @param histories Each row's records in earlier rounds.
+ */
+export const buildDashboardStats = (data: MergedData[], categorized: CategorizedProjects, histories: RoundRecord[][] = []): DashboardStats => ({
+    totalProjects: data.length,
+    totalStudents: data.reduce((acc, row) => acc + (row.sohocvien || 0), 0),
+    withinLimit: categorized.withinLimit.length,
+    l1Edit: categorized.l1Edit.length,
+    l2Process: categorized.l2Process.length,
+    l2Exceeded: categorized.l2Exceeded.length,
+    chapterExceeded: categorized.chapterExceeded.length,
+    fixedAfterEdit: categorized.fixedAfterEdit.length,
+    resubmittedAfterEdit: countResubmittedAfterEdit(histories),
+});
@@ -1,337 +1,517 @@
 import * as XLSX from 'xlsx';
 import PizZip from 'pizzip';
 import Docxtemplater from 'docxtemplater';
-import { MergedData, LogType } from '../types';
+import { MergedData, RowSource, StudentRecord, TopicFillMode, NumberReading, LogType, MainProject, ReconciliationResult, MatchStatus, ColumnMapping, ColumnInspection, MappingRole, MappingProfile, MergeOptions, SheetInfo, InputFileSummary, ConclusionPolicy, RoundRecord, AssessmentContext, ProjectAssessment, ReportBatchContext, ManifestEntry, MergedExportFormat, ValidationIssue, IssueSeverity, GenerateReportsOptions } from '../types';
+import { normalizeString } from './stringUtils';
+import { recordReading, describeNumberReadings } from './numberParser';
+import { readWorkbook, sheetToArray, cellRef, sourceLabel, readNumberCell, getSheetRowNumber, getSheetMerges } from './sheetReader';
+import { matchProjects, buildMergedData, combineReconciliations } from './matching';
+import { detectSupplementaryLayout, getSupplementaryAdapter } from './supplementaryAdapters';
+import { getHistoryTemplateData } from './checkHistory';
+import { getDocumentType, getConclusionTemplateData, findChapterViolations, assessProject, getAssessmentTemplateData, categorizeProjects, DEFAULT_CHAPTER_NOTE, CONCLUSION_CATEGORIES, CONCLUSION_LABELS } from './conclusionPolicy';
+import { buildBatchSummary, getBatchSummaryTemplateData, renderBatchSummaryDocument, buildBatchSummaryWorkbook, buildCategorySummarySheet, buildSupervisorSummarySheet, summarizeSupervisors, chapterName, CATEGORY_FILLS, SUMMARY_FILE_NAME, SUPERVISOR_SUMMARY_FILE_NAME } from './batchSummary';
+import { applyXlsxFormatting, SheetFormatting } from './workbookFormatting';
+import { validateMergedData } from './validation';
+import { DEFAULT_REPORT_NAMING, NO_SUPERVISOR_LABEL, renderFileNamePattern, getReportFolder, claimUniquePath, sanitizeFileNamePart } from './reportNaming';
+import { buildMailMessages, MailReport, MAIL_FOLDER } from './mailMerge';
+import { buildSignedManifest, sha256Hex, MANIFEST_FILE_NAME } from './reportIntegrity';
+import { formatReportDate } from './workingCalendar';
+import { DEFAULT_BATCH_METADATA, formatReportNumber } from './batchMetadata';
+import { createBatchId, computeVerificationCode } from './reportVerification';
+import { decimalToVietnameseWords } from './vietnameseText';
+import { detectColumnMapping, getMissingRequiredFields, resolveColumnMapping, resolveSheetMapping } from './columnMapping';
+
+export { normalizeString };
+
+// Per-student fields written to and read back from the merged workbook.
+const STUDENT_COLUMNS = [
+    { field: 'mahv', header: 'Mã HV' },
+    { field: 'lop', header: 'Lớp' },
+    { field: 'email', header: 'Email' },
+] as const;
 
 /**
- * Normalizes a string by removing Vietnamese accents, converting to lowercase, 
- * and removing special characters and spaces.
- * @param str The string to normalize.
- * @returns The normalized string.
+ * Lists every worksheet of a file with its number of non-empty rows.
+ * @param file The file to inspect.
  */
-export const normalizeString = (str: any): string => {
-    if (typeof str !== 'string' || !str) return '';
-    // First, normalize to decompose combined characters, then remove diacritics
-    let normalized = str.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
-    // Then, convert to lower case
-    normalized = normalized.toLowerCase();
-    // CRITICAL: Specifically handle the Vietnamese 'đ' character, converting it to 'd'
-    normalized = normalized.replace(/đ/g, 'd');
-    // Finally, remove all remaining non-alphanumeric characters
-    return normalized.replace(/[^a-z0-9]/g, '');
+export const listWorkbookSheets = async (file: File): Promise<SheetInfo[]> => {
+    const workbook = await readWorkbook(file);
+    return workbook.SheetNames.map(name => ({ name, rowCount: sheetToArray(workbook, name).length }));
 };
 
-/**
- * Reads a file (Excel or CSV) and returns its content as an array of arrays.
- * This version is robust and uses XLSX for both file types.
- * @param file The file to read.
- * @returns A promise that resolves to a 2D string array.
- */
-const readFileAsArray = (file: File): Promise<(string|null)[][]> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            try {
-                const data = e.target?.result;
-                const workbook = XLSX.read(data, { type: 'array', cellDates: false });
-                const sheetName = workbook.SheetNames[0];
-                const worksheet = workbook.Sheets[sheetName];
-                const json: (string|null)[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: null });
-                
-                // Filter out completely empty rows which can sometimes be read by the library
-                const filteredJson = json.filter(row => row.some(cell => cell !== null && String(cell).trim() !== ''));
-                resolve(filteredJson);
-            } catch (error) {
-                reject(error);
-            }
-        };
-        reader.onerror = (error) => reject(error);
-        
-        // Read as ArrayBuffer for both Excel and CSV. XLSX handles both.
-        reader.readAsArrayBuffer(file);
-    });
-};
-
-
-/**
- * Detects the header row in a 2D array of data based on expected keywords.
- * @param data The 2D array of data.
- * @param keywords The keywords to look for in header cells.
- * @returns The index of the header row, or 0 if not found.
- */
-const detectHeaderRow = (data: (string|null|undefined)[][], keywords: string[]): number => {
-    for (let i = 0; i < Math.min(10, data.length); i++) {
-        const row = data[i];
-        let matchCount = 0;
-        for (const cell of row) {
-            const normalizedCell = normalizeString(cell);
-            if (keywords.some(kw => normalizedCell.includes(normalizeString(kw)))) {
-                matchCount++;
-            }
-        }
-        if (matchCount >= 2) {
-            return i;
-        }
-    }
-    return 0; // Default to the first row if no better match is found
-};
-
-
-/**
- * Finds the original column name that matches a list of keywords.
- * @param headers An array of header strings.
- * @param keywords An array of keywords to search for.
- * @returns The original column name or null if not found.
- */
-const findColumn = (headers: string[], keywords: string[]): string | null => {
-    const normalizedHeaders = headers.map(h => ({ original: h, normalized: normalizeString(h) }));
-    for (const keyword of keywords) {
-        const normKey = normalizeString(keyword);
-        const found = normalizedHeaders.find(h => h.normalized.includes(normKey));
-        if (found) {
-            return found.original;
-        }
-    }
-    return null;
-};
 
 /**
  * Processes the raw data from the main file.
  * Groups students by project, forward-fills project names.
  * @param rawData Raw 2D array from the main file.
+ * @param mapping Column mapping confirmed by the user; detected from the headers if omitted.
+ * @param source "[file]sheet" prefix for the cell references kept on each project.
+ * @param topicFill How rows with an empty topic cell are assigned to a project. With 'merges',
+ * only rows inside a merged topic cell join the project above; other blank rows become
+ * projects of their own, flagged with nguon.blankTopic.
+ * @param onProgress Called after each data row with the number of rows read so far.
  * @returns Processed data ready for merging.
  */
-const processMainData = (rawData: (string|null|undefined)[][]): any[] => {
-    const headerRowIndex = detectHeaderRow(rawData, ["Tên đề tài", "Họ tên HV", "Người hướng dẫn"]);
-    const headers = rawData[headerRowIndex].map(h => String(h || '').trim());
+const processMainData = (
+    rawData: (string|null|undefined)[][],
+    mapping?: ColumnMapping,
+    source?: string,
+    topicFill: TopicFillMode = 'merges',
+    onProgress?: (done: number, total: number) => void
+): MainProject[] => {
+    const { headerRowIndex, columns } = mapping || detectColumnMapping(rawData, 'main');
     const dataRows = rawData.slice(headerRowIndex + 1);
 
-    const topicCol = findColumn(headers, ["Tên đề tài", "De tai"]);
-    const nameCol = findColumn(headers, ["Họ tên HV", "Ten hoc vien"]);
-    const guideCol = findColumn(headers, ["Người hướng dẫn"]);
+    const topicCol = columns.tendetai;
+    const nameCol = columns.hotenhv;
+    const guideCol = columns.nguoihuongdan;
+    const guideEmailCol = columns.emailhuongdan;
 
-    if (!topicCol || !nameCol) {
-        throw new Error("File chính phải có cột 'Tên đề tài' và 'Họ tên HV'.");
+    if (topicCol === undefined || nameCol === undefined) {
+        throw new Error("File chính phải có cột 'Tên đề tài' và 'Họ tên HV'. Vui lòng ghép cột thủ công ở mục 'Ghép cột'.");
     }
 
-    // Convert to objects and forward-fill topic
-    let lastTopic = '';
-    const filledData = dataRows.map(row => {
-        const obj: { [key: string]: any } = {};
-        headers.forEach((h, i) => obj[h] = row[i]);
-        
-        if (obj[topicCol]) {
-            lastTopic = obj[topicCol];
+    // Columns that are not mapped to a field are kept on each student record by header text
+    const headers = (rawData[headerRowIndex] || []).map(h => String(h ?? '').trim());
+    const mappedCols = new Set(Object.values(columns));
+    const extraCols = headers
+        .map((header, index) => ({ header, index }))
+        .filter(({ header, index }) => header && !mappedCols.has(index) && normalizeString(header) !== 'stt');
+
+    const readStudent = (row: (string|null|undefined)[]): StudentRecord => {
+        const student: StudentRecord = { hoten: String(row[nameCol] ?? '').trim() };
+        const readCell = (index: number | undefined) => index !== undefined && row[index] !== null && row[index] !== undefined
+            ? String(row[index]).trim()
+            : '';
+        if (readCell(columns.mahv)) student.mahv = readCell(columns.mahv);
+        if (readCell(columns.lop)) student.lop = readCell(columns.lop);
+        if (readCell(columns.email)) student.email = readCell(columns.email);
+        extraCols.forEach(({ header, index }) => {
+            const value = readCell(index);
+            if (value) student.khac = { ...student.khac, [header]: value };
+        });
+        return student;
+    };
+
+    // Finds the row holding the value of a merged topic cell that covers the given row
+    const merges = getSheetMerges(rawData).filter(m => m.s.c <= topicCol && topicCol <= m.e.c);
+    const rowsBySheetIndex = new Map(rawData.map(row => [getSheetRowNumber(row), row]));
+    const mergedTopicRow = (row: (string|null|undefined)[]) => {
+        const rowIndex = getSheetRowNumber(row);
+        if (rowIndex === undefined) return undefined;
+        const merge = merges.find(m => m.s.r < rowIndex && rowIndex <= m.e.r);
+        return merge ? rowsBySheetIndex.get(merge.s.r) : undefined;
+    };
+
+    let lastTopicRow: (string|null|undefined)[] | undefined;
+    const filledData = dataRows.map((row, rowPos) => {
+        let topicRow: (string|null|undefined)[] | undefined = row;
+        if (row[topicCol]) {
+            lastTopicRow = row;
         } else {
-            obj[topicCol] = lastTopic;
+            topicRow = topicFill === 'forwardFill' ? lastTopicRow : mergedTopicRow(row);
         }
-        return obj;
-    }).filter(obj => obj[nameCol]); // Only keep rows with a student name
+        const topic = topicRow?.[topicCol] ? String(topicRow[topicCol]) : '';
+        onProgress?.(rowPos + 1, dataRows.length);
+        return {
+            topic,
+            // Blank rows outside a merge must not be grouped together, so each gets its own key
+            key: topic || `\u0000blank${rowPos}`,
+            name: row[nameCol],
+            guide: guideCol !== undefined ? row[guideCol] : undefined,
+            guideEmail: guideEmailCol !== undefined ? row[guideEmailCol] : undefined,
+            student: readStudent(row),
+            topicCell: cellRef(source, topicRow || row, topicCol),
+            nameCell: cellRef(source, row, nameCol),
+        };
+    }).filter(obj => obj.name); // Only keep rows with a student name
+
+    // Count separate blocks per topic: a topic that reappears after another one is a duplicate
+    const topicBlocks: Record<string, number> = {};
+    filledData.forEach((row, index) => {
+        if (index === 0 || filledData[index - 1].key !== row.key) {
+            topicBlocks[row.key] = (topicBlocks[row.key] || 0) + 1;
+        }
+    });
 
     // Group by topic
     const grouped = filledData.reduce((acc, row) => {
-        const topic = row[topicCol];
-        if (!acc[topic]) {
-            acc[topic] = [];
+        if (!acc[row.key]) {
+            acc[row.key] = [];
         }
-        acc[topic].push(row);
+        acc[row.key].push(row);
         return acc;
-    }, {} as Record<string, any[]>);
+    }, {} as Record<string, typeof filledData>);
 
     // Aggregate groups
     return Object.values(grouped).map(group => {
         const first = group[0];
-        const studentNames = group.map(s => String(s[nameCol] || '').trim()).filter(Boolean).join(', ');
-        const result: any = {
-            'Tên đề tài': first[topicCol],
-            'Họ tên HV': studentNames,
-            'Số học viên': group.length,
-            'Người hướng dẫn': guideCol ? first[guideCol] || '' : ''
+        const students = group.map(s => s.student).filter(s => s.hoten);
+        const studentNames = students.map(s => s.hoten).join(', ');
+        const cells: RowSource['cells'] = {};
+        if (first.topicCell) cells.tendetai = first.topicCell;
+        if (first.nameCell) cells.hotenhv = first.nameCell;
+        return {
+            tendetai: String(first.topic),
+            hotenhv: studentNames,
+            sohocvien: group.length,
+            nguoihuongdan: String(first.guide || ''),
+            ...(first.guideEmail ? { emailhuongdan: String(first.guideEmail).trim() } : {}),
+            nguon: first.topic ? { cells, topicBlocks: topicBlocks[first.key] } : { cells, blankTopic: true },
+            hocvien: students,
         };
-        return result;
     });
 };
 
-/**
- * Merges the processed main data with supplementary data from a transposed layout.
- * It correctly reads ratio data vertically from columns ('Tỉ lệ 1', 'Tỉ lệ 2') and maps it to projects.
- * @param dfMain Processed main data.
- * @param dfSupp Raw 2D array from supplementary file.
- * @returns The final merged dataset.
- */
-const mergeMainAndRatios = (dfMain: any[], dfSupp: (string | null | undefined)[][]): MergedData[] => {
-    // 1. Get headers and data rows from supplementary file
-    const headerRowIndex = detectHeaderRow(dfSupp, ["TV", "Tỉ lệ"]);
-    const headers = dfSupp[headerRowIndex].map(h => String(h || '').trim());
-    const dataRows = dfSupp.slice(headerRowIndex + 1);
-
-    // 2. Find the TV column index (this is read row-wise, per project)
-    const tvColHeader = findColumn(headers, ["TV"]);
-    const tvColIndex = tvColHeader ? headers.indexOf(tvColHeader) : -1;
-
-    // 3. Find and sort all project ratio columns (e.g., 'Tỉ lệ 1', 'Tỉ lệ 2')
-    const projectRatioColumns = headers
-        .map((header, index) => ({ header, index, norm: normalizeString(header) }))
-        .filter(c => c.norm.match(/^(tile|ti le)\d+$/))
-        .sort((a, b) => {
-            const numA = parseInt(a.norm.replace(/^(tile|ti le)/, ''), 10);
-            const numB = parseInt(b.norm.replace(/^(tile|ti le)/, ''), 10);
-            return numA - numB;
-        });
-    
-    if (projectRatioColumns.length === 0 && tvColIndex === -1) {
-         throw new Error("File bổ sung không tìm thấy cột 'TV' hoặc các cột tỉ lệ (ví dụ: 'Tỉ lệ 1', 'Tỉ lệ 2', ...).");
-    }
-
-    // 4. Iterate through main projects and map data
-    const enrichedRows: MergedData[] = dfMain.map((mainRow, projectIndex) => {
-        const newRow: MergedData = {
-            hotenhv: mainRow['Họ tên HV'],
-            tendetai: mainRow['Tên đề tài'],
-            sohocvien: mainRow['Số học viên'],
-            nguoihuongdan: mainRow['Người hướng dẫn'],
-        };
-
-        const suppDataRowForTV = dataRows[projectIndex];
-        
-        // 5. Assign TV value from the corresponding row
-        if (suppDataRowForTV && tvColIndex !== -1) {
-            const tvVal = suppDataRowForTV[tvColIndex];
-            if (tvVal !== null && tvVal !== undefined) {
-                const numVal = typeof tvVal === 'string' ? parseFloat(tvVal.replace(',', '.')) : (typeof tvVal === 'number' ? tvVal : undefined);
-                if (numVal !== undefined && !isNaN(numVal)) {
-                   newRow.tv = numVal;
-                }
-            }
-        }
-        
-        // 6. Assign Chapter values by reading vertically from the corresponding 'Tỉ lệ X' column
-        const ratioColumnForProject = projectRatioColumns[projectIndex];
-        if (ratioColumnForProject) {
-            const ratioColIndex = ratioColumnForProject.index;
-            
-            // Iterate down the column to get all chapter values for this one project
-            dataRows.forEach((row, chapterIndex) => {
-                const cellValue = row[ratioColIndex];
-                if (cellValue !== null && cellValue !== undefined && String(cellValue).trim() !== '') {
-                    const numValue = typeof cellValue === 'string' 
-                        ? parseFloat(cellValue.replace(',', '.')) 
-                        : (typeof cellValue === 'number' ? cellValue : undefined);
-
-                    if (numValue !== undefined && !isNaN(numValue)) {
-                        const cKey = `c${chapterIndex + 1}`;
-                        newRow[cKey] = numValue;
-                    }
-                }
-            });
-        }
-        
-        return newRow;
-    });
-    
-    return enrichedRows;
-};
+// The formats the merged workbook can be downloaded as.
+export const MERGED_EXPORT_FORMATS: { format: MergedExportFormat, label: string, fileName: string, mimeType: string }[] = [
+    { format: 'xlsx', label: 'Excel (.xlsx), có màu và cố định dòng tiêu đề', fileName: 'File_Gop.xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+    { format: 'ods', label: 'OpenDocument (.ods)', fileName: 'File_Gop.ods', mimeType: 'application/vnd.oasis.opendocument.spreadsheet' },
+    { format: 'csv', label: 'CSV (UTF-8), chỉ sheet dữ liệu', fileName: 'File_Gop.csv', mimeType: 'text/csv;charset=utf-8' },
+];
 
+// Columns written with two decimals: the ratios. A percent format would be read back as a fraction.
+const DECIMAL_HEADER = /^(TV|C\d+|Độ khớp \(%\)|Tỉ lệ chương cao nhất)$/;
 
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 50;
 
 /**
- * Main function to generate the merged Excel file.
+ * Builds the 'File_Gop' workbook from merged data. The 'Gop' sheet keeps its header on the first
+ * row, so the file can be loaded again for reporting.
+ * @param mergedData The merged dataset.
+ * @param assessment When given, each row's deadline, deduction, conclusion and chapter figures are added as columns,
+ * its row is coloured by category, and sheets summarizing the categories and supervisors are added.
+ * @param policy When given with assessment, the text of each row's conclusion is added.
+ * @param format 'ods' and 'csv' carry the same data without colours or frozen panes; 'csv' only has the 'Gop' sheet.
+ * @returns The file as an ArrayBuffer.
  */
-export const generateMergedExcel = async (
-    mainFile: File, 
-    suppFile: File,
-    addLog: (message: string, type: LogType) => void
-): Promise<{ data: MergedData[], buffer: ArrayBuffer }> => {
-    
-    addLog('Đọc File chính...', LogType.Info);
-    const mainRawData = await readFileAsArray(mainFile);
-    if (mainRawData.length === 0) throw new Error("File chính rỗng hoặc không đọc được.");
-    
-    addLog('Xử lý File chính...', LogType.Info);
-    const mainProcessed = processMainData(mainRawData);
-    
-    addLog('Đọc File bổ sung...', LogType.Info);
-    const suppRawData = await readFileAsArray(suppFile);
-    if (suppRawData.length === 0) throw new Error("File bổ sung rỗng hoặc không đọc được.");
-
-    addLog('Gộp dữ liệu...', LogType.Info);
-    const mergedData = mergeMainAndRatios(mainProcessed, suppRawData);
-
-    const finalDataForSheet = mergedData.map(row => {
+export const buildMergedWorkbook = (mergedData: MergedData[], assessment?: AssessmentContext, policy?: ConclusionPolicy, format: MergedExportFormat = 'xlsx'): ArrayBuffer => {
+    // Per-student columns are written in the same comma-separated order as the names,
+    // so readReportSheet can rebuild the student records from this file
+    const studentColumns = STUDENT_COLUMNS.filter(({ field }) => mergedData.some(row => row.hocvien?.some(s => s[field])));
+    const hasGuideEmails = mergedData.some(row => row.emailhuongdan);
+    const summary = assessment ? buildBatchSummary(mergedData, assessment) : null;
+    const issuesByRow = new Map<number, ValidationIssue[]>();
+    validateMergedData(mergedData).forEach(issue => issuesByRow.set(issue.rowIndex, [...(issuesByRow.get(issue.rowIndex) || []), issue]));
+
+    const finalDataForSheet = mergedData.map((row, rowIndex) => {
         const newRow: any = {
+            ...(row.tenfile !== undefined ? { 'File nguồn': row.tenfile } : {}),
+            ...(row.tensheet !== undefined ? { 'Sheet': row.tensheet } : {}),
             'Tên đề tài': row.tendetai,
             'Người hướng dẫn': row.nguoihuongdan,
+            ...(hasGuideEmails ? { 'Email người hướng dẫn': row.emailhuongdan || '' } : {}),
             'Số học viên': row.sohocvien,
             'Họ tên HV': row.hotenhv,
-            'TV': row.tv,
         };
+        studentColumns.forEach(({ field, header }) => {
+            newRow[header] = (row.hocvien || []).map(s => s[field] || '').join(', ');
+        });
+        newRow['TV'] = row.tv;
         Object.keys(row)
-            .filter(k => k.startsWith('c'))
+            .filter(k => /^c\d+$/.test(k))
             .sort((a,b) => parseInt(a.substring(1)) - parseInt(b.substring(1)))
             .forEach(key => {
                 newRow[key.toUpperCase()] = row[key as keyof MergedData];
             });
+        if (row.dokhop !== undefined) {
+            newRow['Độ khớp (%)'] = row.dokhop;
+        }
+        if (summary) {
+            const { conclusion, dueDate, deduction, highestChapter, chapterViolations } = summary.projects[rowIndex];
+            newRow['Hạn nộp lại'] = dueDate ? formatReportDate(dueDate) : '';
+            newRow['Điểm trừ'] = deduction ?? '';
+            newRow['Kết luận'] = CONCLUSION_LABELS[conclusion];
+            if (policy) newRow['Nội dung kết luận'] = policy.conclusionTexts[conclusion];
+            newRow['Chương cao nhất'] = highestChapter ? chapterName(highestChapter.key) : '';
+            newRow['Tỉ lệ chương cao nhất'] = highestChapter ? highestChapter.value : '';
+            newRow['Chương vượt ngưỡng'] = chapterViolations.map(chapterName).join(', ');
+        }
+        newRow['Cảnh báo dữ liệu'] = (issuesByRow.get(rowIndex) || [])
+            .map(issue => `${issue.severity === IssueSeverity.Error ? 'Lỗi' : 'Cảnh báo'}: ${issue.message}`)
+            .join('; ');
         return newRow;
     });
 
     const newWorksheet = XLSX.utils.json_to_sheet(finalDataForSheet);
+    if (format === 'csv') {
+        // The byte order mark makes Excel open the file as UTF-8
+        return new TextEncoder().encode(`\ufeff${XLSX.utils.sheet_to_csv(newWorksheet)}`).buffer as ArrayBuffer;
+    }
+
+    const range = XLSX.utils.decode_range(newWorksheet['!ref'] || 'A1');
+    const headers = Array.from({ length: range.e.c + 1 }, (_, c) => String(newWorksheet[XLSX.utils.encode_cell({ r: 0, c })]?.v ?? ''));
+    newWorksheet['!cols'] = headers.map((header, c) => {
+        let width = header.length;
+        for (let r = 1; r <= range.e.r; r++) {
+            const cell = newWorksheet[XLSX.utils.encode_cell({ r, c })];
+            if (cell) width = Math.max(width, String(cell.v ?? '').length);
+        }
+        return { wch: Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width + 2)) };
+    });
+    headers.forEach((header, c) => {
+        if (!DECIMAL_HEADER.test(header)) return;
+        for (let r = 1; r <= range.e.r; r++) {
+            const cell = newWorksheet[XLSX.utils.encode_cell({ r, c })];
+            if (cell?.t === 'n') cell.z = '0.00';
+        }
+    });
+    if (mergedData.length > 0) newWorksheet['!autofilter'] = { ref: newWorksheet['!ref']! };
+
     const newWorkbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(newWorkbook, newWorksheet, 'Gop');
-    const buffer = XLSX.write(newWorkbook, { bookType: 'xlsx', type: 'array' });
+    const formatting: SheetFormatting[] = [{
+        headerRow: 0,
+        frozenRows: 1,
+        rowFills: new Map(summary ? summary.projects.map(({ conclusion }, index) => [index + 1, CATEGORY_FILLS[CONCLUSION_CATEGORIES[conclusion]]]) : []),
+    }];
+    if (assessment) {
+        const categorized = categorizeProjects(mergedData, assessment.documentType, assessment.checkRound);
+        const categories = buildCategorySummarySheet(categorized);
+        const supervisors = buildSupervisorSummarySheet(summarizeSupervisors(categorized));
+        XLSX.utils.book_append_sheet(newWorkbook, categories.sheet, 'Theo_ket_luan');
+        XLSX.utils.book_append_sheet(newWorkbook, supervisors.sheet, 'Theo_nguoi_huong_dan');
+        formatting.push(categories.formatting, supervisors.formatting);
+    }
+    if (format === 'ods') return XLSX.write(newWorkbook, { bookType: 'ods', type: 'array' });
+    return applyXlsxFormatting(XLSX.write(newWorkbook, { bookType: 'xlsx', type: 'array' }), formatting);
+};
 
-    return { data: mergedData, buffer };
+/**
+ * Returns the student records of a row, rebuilt from the joined names for rows that have none.
+ */
+const getStudentRecords = (row: MergedData): StudentRecord[] => {
+    if (row.hocvien && row.hocvien.length > 0) return row.hocvien;
+    return String(row.hotenhv || '').split(',').map(name => name.trim()).filter(Boolean).map(hoten => ({ hoten }));
 };
 
-export const readDataFileForReporting = async (file: File): Promise<MergedData[]> => {
-    const data = await readFileAsArray(file);
-    if (data.length < 2) { // Must have header + at least one data row
-        throw new Error("File dữ liệu không có đủ nội dung.");
-    }
+/**
+ * Builds the items of the {#hoc_vien} loop. Extra columns are exposed under their normalized
+ * header (e.g. 'Ngày sinh' as {ngaysinh}), blank for students without a value, and never
+ * override the standard fields.
+ */
+const toStudentTemplateData = (students: StudentRecord[]): { [key: string]: string | number }[] => {
+    const extraKeys = new Set(students.flatMap(s => Object.keys(s.khac || {}).map(normalizeString).filter(Boolean)));
+    return students.map((student, index) => {
+        const extras: { [key: string]: string } = {};
+        extraKeys.forEach(key => { extras[key] = ''; });
+        Object.entries(student.khac || {}).forEach(([header, value]) => {
+            const key = normalizeString(header);
+            if (key) extras[key] = value;
+        });
+        return {
+            ...extras,
+            stt: index + 1,
+            hoten: student.hoten,
+            ma_hv: student.mahv || '',
+            lop: student.lop || '',
+            email: student.email || '',
+        };
+    });
+};
 
-    const headers = data[0].map(h => normalizeString(h));
-    const dataRows = data.slice(1);
+/**
+ * Splits the comma-joined student columns of a merged row back into student records.
+ */
+const splitStudentRecords = (names: string, values: Partial<Record<typeof STUDENT_COLUMNS[number]['field'], string>>): StudentRecord[] => {
+    const split = (text?: string) => (text || '').split(',').map(part => part.trim());
+    const columns = STUDENT_COLUMNS.map(({ field }) => ({ field, parts: split(values[field]) }));
+    return split(names).filter(Boolean).map((hoten, index) => {
+        const student: StudentRecord = { hoten };
+        columns.forEach(({ field, parts }) => {
+            if (parts[index]) student[field] = parts[index];
+        });
+        return student;
+    });
+};
+
+/**
+ * Picks the supplementary sheet for a main sheet: the sheet with the same name if one
+ * was selected, otherwise the one at the same position, otherwise the first.
+ */
+const pairSupplementarySheet = (mainSheet: string, mainSheets: string[], suppSheets: string[]): string => {
+    const sameName = suppSheets.find(s => normalizeString(s) === normalizeString(mainSheet));
+    if (sameName) return sameName;
+    return suppSheets[mainSheets.indexOf(mainSheet)] || suppSheets[0];
+};
 
-    const findIndex = (keywords: string[]): number => {
-        for (const kw of keywords) {
-            const normalizedKw = normalizeString(kw);
-            const index = headers.findIndex(h => h.includes(normalizedKw));
-            if (index !== -1) return index;
+/**
+ * Main function to generate the merged Excel file.
+ * Each selected sheet of the main file is merged as a separate batch with its paired
+ * supplementary sheet. Supplementary figures are joined to projects by topic/student key;
+ * the returned reconciliation lists anything that could not be matched with confidence.
+ * @param onProgress Called as rows are read and matched. Each main-file row counts twice, once when it is read
+ *   and once when its project is matched, so the total is twice the number of main-file rows.
+ */
+export const generateMergedExcel = async (
+    mainFile: File, 
+    suppFile: File,
+    addLog: (message: string, type: LogType) => void,
+    options: MergeOptions = {},
+    onProgress?: (done: number, total: number) => void
+): Promise<{ data: MergedData[], buffer: ArrayBuffer, reconciliation: ReconciliationResult }> => {
+    const { inspections = {}, sheetNames = {}, topicFill = 'merges', suppLayout, mappingProfiles = [], faculty = '' } = options;
+
+    // A confirmed inspection wins; otherwise the saved profiles are tried before keyword detection
+    const mappingFor = (data: (string|null)[][], sheetName: string, role: MappingRole, label: string): ColumnMapping => {
+        const inspection = inspections[role];
+        if (inspection) return resolveSheetMapping(data, sheetName, role, inspection);
+        const { mapping, profile } = resolveColumnMapping(data, role, mappingProfiles, faculty);
+        if (profile) {
+            addLog(`${label} (sheet '${sheetName}'): dùng hồ sơ ghép cột "${profile.name}".`, LogType.Info);
         }
-        return -1;
+        return mapping;
     };
+    
+    addLog('Đọc File chính...', LogType.Info);
+    const mainWorkbook = await readWorkbook(mainFile);
+    const mainSheets = sheetNames.main?.length ? sheetNames.main : [mainWorkbook.SheetNames[0]];
+
+    addLog('Đọc File bổ sung...', LogType.Info);
+    const suppWorkbook = await readWorkbook(suppFile);
+    const suppSheets = sheetNames.supplementary?.length ? sheetNames.supplementary : [suppWorkbook.SheetNames[0]];
+
+    const mainSheetRows = mainSheets.map(sheet => sheetToArray(mainWorkbook, sheet));
+    const totalSteps = 2 * mainSheetRows.reduce((acc, rows) => acc + rows.length, 0);
+    let doneSteps = 0;
+    // Spreads the progress of one step of a sheet over that sheet's share of the total
+    const progressWithin = (span: number) => (done: number, total: number) =>
+        onProgress?.(doneSteps + Math.round(span * done / Math.max(total, 1)), totalSteps);
+
+    const batches: ReconciliationResult[] = [];
+    for (const [sheetIndex, mainSheet] of mainSheets.entries()) {
+        const suppSheet = pairSupplementarySheet(mainSheet, mainSheets, suppSheets);
+        if (mainSheets.length > 1) {
+            addLog(`Xử lý sheet '${mainSheet}' (File bổ sung: sheet '${suppSheet}')...`, LogType.Info);
+        }
 
-    const tendetaiIndex = findIndex(['Tên đề tài', 'tendetai']);
-    const hotenhvIndex = findIndex(['Họ tên HV', 'hotenhv']);
-    const sohocvienIndex = findIndex(['Số học viên', 'sohocvien']);
-    const nguoihuongdanIndex = findIndex(['Người hướng dẫn', 'nguoihuongdan']);
-    const tvIndex = findIndex(['TV']);
+        const mainRawData = mainSheetRows[sheetIndex];
+        if (mainRawData.length === 0) throw new Error(`File chính (sheet '${mainSheet}') rỗng hoặc không đọc được.`);
+        
+        addLog('Xử lý File chính...', LogType.Info);
+        const mainProcessed = processMainData(mainRawData, mappingFor(mainRawData, mainSheet, 'main', 'File chính'), sourceLabel(mainFile, mainSheet), topicFill, progressWithin(mainRawData.length))
+            .map(project => ({ ...project, tensheet: mainSheet }));
+        doneSteps += mainRawData.length;
+        const blankTopicCount = mainProcessed.filter(p => p.nguon?.blankTopic).length;
+        if (blankTopicCount > 0) {
+            addLog(`File chính (sheet '${mainSheet}'): ${blankTopicCount} dòng có ô 'Tên đề tài' trống và không nằm trong vùng gộp ô. Xem mục 'Kiểm tra', hoặc chọn chế độ "Điền tiếp từ dòng trên" nếu file không dùng gộp ô.`, LogType.Warning);
+        }
+        
+        const suppRawData = sheetToArray(suppWorkbook, suppSheet);
+        if (suppRawData.length === 0) throw new Error(`File bổ sung (sheet '${suppSheet}') rỗng hoặc không đọc được.`);
+
+        addLog('Gộp dữ liệu...', LogType.Info);
+        const suppMapping = mappingFor(suppRawData, suppSheet, 'supplementary', 'File bổ sung');
+        const adapter = getSupplementaryAdapter(suppLayout || detectSupplementaryLayout(suppRawData, suppMapping) || 'transposed');
+        addLog(`File bổ sung (sheet '${suppSheet}'): định dạng ${adapter.label}${suppLayout ? '' : ' (tự nhận dạng)'}.`, LogType.Info);
+        const suppEntries = adapter.read(suppRawData, suppMapping, sourceLabel(suppFile, suppSheet))
+            .map(entry => ({ ...entry, tensheet: suppSheet }));
+        const batch = matchProjects(mainProcessed, suppEntries, progressWithin(mainRawData.length));
+        if (batch.matches.some(m => m.status === MatchStatus.Positional)) {
+            addLog(`File bổ sung (sheet '${suppSheet}') không có cột 'Tên đề tài' hoặc 'Họ tên HV', dữ liệu được ghép theo thứ tự dòng. Vui lòng kiểm tra và xác nhận ở mục 'Đối chiếu' trước khi sinh báo cáo.`, LogType.Warning);
+        }
+        batches.push(batch);
+        doneSteps += mainRawData.length;
+        onProgress?.(doneSteps, totalSteps);
+    }
+
+    const reconciliation = combineReconciliations(batches);
+    const mergedData = buildMergedData(reconciliation);
+    const readings = describeNumberReadings(mergedData);
+    if (readings) {
+        addLog(`Đã chuyển đổi ${readings}. Xem chi tiết khi rê chuột lên ô trong mục 'Dữ liệu gộp'.`, LogType.Info);
+    }
+    const buffer = buildMergedWorkbook(mergedData, options.assessment, options.policy, options.format);
+
+    return { data: mergedData, buffer, reconciliation };
+};
+
+/**
+ * Reads one sheet of a data file (such as 'File_Gop.xlsx') into report rows.
+ */
+const readReportSheet = (
+    data: (string|null)[][],
+    sheetName: string,
+    inspection?: ColumnInspection,
+    source?: string,
+    onRow?: () => void
+): MergedData[] => {
+    if (data.length < 2) { // Must have header + at least one data row
+        throw new Error(`File dữ liệu (sheet '${sheetName}') không có đủ nội dung.`);
+    }
+
+    // Without a confirmed mapping the header is the first row, as in 'File_Gop.xlsx'
+    const { headerRowIndex, columns } = inspection
+        ? resolveSheetMapping(data, sheetName, 'report', inspection)
+        : { headerRowIndex: 0, columns: detectColumnMapping([data[0]], 'report').columns };
+    const headers = data[headerRowIndex].map(h => normalizeString(h));
+    const dataRows = data.slice(headerRowIndex + 1);
+
+    const tendetaiIndex = columns.tendetai ?? -1;
+    const hotenhvIndex = columns.hotenhv ?? -1;
+    const sohocvienIndex = columns.sohocvien ?? -1;
+    const nguoihuongdanIndex = columns.nguoihuongdan ?? -1;
+    const emailhuongdanIndex = columns.emailhuongdan ?? -1;
+    const tvIndex = columns.tv ?? -1;
+    const tensheetIndex = columns.tensheet ?? -1;
+    const tenfileIndex = columns.tenfile ?? -1;
     
     if (tendetaiIndex === -1 || hotenhvIndex === -1) {
-        throw new Error("File dữ liệu phải chứa cột 'Tên đề tài' và 'Họ tên HV'.");
+        throw new Error("File dữ liệu phải chứa cột 'Tên đề tài' và 'Họ tên HV'. Vui lòng ghép cột thủ công ở mục 'Ghép cột'.");
     }
 
     const reportData: MergedData[] = dataRows.map(row => {
+        onRow?.();
         const rowData: MergedData = {
             tendetai: String(row[tendetaiIndex] || ''),
             hotenhv: String(row[hotenhvIndex] || ''),
-            sohocvien: sohocvienIndex !== -1 ? parseInt(String(row[sohocvienIndex] || '0'), 10) : 1,
+            sohocvien: sohocvienIndex !== -1 ? readNumberCell(row, sohocvienIndex).value ?? 0 : 1,
             nguoihuongdan: nguoihuongdanIndex !== -1 ? String(row[nguoihuongdanIndex] || '') : '',
+            tensheet: tensheetIndex !== -1 && row[tensheetIndex] ? String(row[tensheetIndex]) : sheetName,
+        };
+        if (tenfileIndex !== -1 && row[tenfileIndex]) {
+            rowData.tenfile = String(row[tenfileIndex]);
+        }
+        if (emailhuongdanIndex !== -1 && row[emailhuongdanIndex]) {
+            rowData.emailhuongdan = String(row[emailhuongdanIndex]).trim();
+        }
+        const cells: RowSource['cells'] = {};
+        const addCell = (field: string, index: number) => {
+            const ref = cellRef(source, row, index);
+            if (ref) cells[field] = ref;
         };
+        addCell('tendetai', tendetaiIndex);
+        addCell('hotenhv', hotenhvIndex);
+        addCell('sohocvien', sohocvienIndex);
+        addCell('tv', tvIndex);
+        const numbers: { [field: string]: NumberReading } = {};
+        rowData.nguon = { cells, numbers };
+
+        const readText = (index: number | undefined) => index !== undefined && row[index] !== null && row[index] !== undefined ? String(row[index]) : undefined;
+        rowData.hocvien = splitStudentRecords(rowData.hotenhv, {
+            mahv: readText(columns.mahv),
+            lop: readText(columns.lop),
+            email: readText(columns.email),
+        });
 
-        if (tvIndex !== -1 && row[tvIndex] !== null && row[tvIndex] !== undefined) {
-            const tvVal = String(row[tvIndex]).replace(',', '.');
-            rowData.tv = parseFloat(tvVal);
+        const tv = readNumberCell(row, tvIndex);
+        recordReading(numbers, 'tv', tv.raw, tv);
+        if (tv.value !== undefined) {
+            rowData.tv = tv.value;
         }
 
         headers.forEach((header, index) => {
             // header is already normalized here, e.g., 'c1', 'chuong1', 'tile1'
             if (header.match(/^(c|chuong|tile)\d+$/)) {
-                if (row[index] !== null && row[index] !== undefined) {
-                    const cVal = String(row[index]).replace(',', '.');
-                    // We need to store it as c1, c2 etc for the report generator
-                    const chapterNum = header.replace(/^(c|chuong|tile)/, '');
-                    rowData[`c${chapterNum}`] = parseFloat(cVal);
+                // We need to store it as c1, c2 etc for the report generator
+                const field = `c${header.replace(/^(c|chuong|tile)/, '')}`;
+                const chapter = readNumberCell(row, index);
+                recordReading(numbers, field, chapter.raw, chapter);
+                if (chapter.value !== undefined) {
+                    rowData[field] = chapter.value;
                 }
+                if (chapter.value !== undefined || numbers[field]) addCell(field, index);
             }
         });
         
@@ -341,141 +521,235 @@ export const readDataFileForReporting = async (file: File): Promise<MergedData[]
     return reportData.filter(d => d.tendetai && d.hotenhv);
 };
 
+/**
+ * Reads the rows to generate reports from out of a data file, such as a downloaded 'File_Gop.xlsx'.
+ * @param sheetNames The sheets to read; defaults to the first sheet.
+ * @param onProgress Called after each row with the number of rows read so far, over all sheets.
+ */
+export const readDataFileForReporting = async (
+    file: File,
+    inspection?: ColumnInspection,
+    sheetNames?: string[],
+    onProgress?: (done: number, total: number) => void
+): Promise<MergedData[]> => {
+    const workbook = await readWorkbook(file);
+    const sheets = sheetNames?.length ? sheetNames : [workbook.SheetNames[0]];
+    const sheetRows = sheets.map(sheetName => sheetToArray(workbook, sheetName));
+    const total = sheetRows.reduce((acc, rows) => acc + rows.length, 0);
+    let sheetsDone = 0;
+    const reportData: MergedData[] = [];
+    sheets.forEach((sheetName, index) => {
+        let done = sheetsDone;
+        reportData.push(...readReportSheet(sheetRows[index], sheetName, inspection, sourceLabel(file, sheetName), () => onProgress?.(++done, total)));
+        // The rows above the data count too, so each sheet ends at its share of the total
+        sheetsDone += sheetRows[index].length;
+        onProgress?.(sheetsDone, total);
+    });
+    return reportData;
+};
 
-const getConclusionData = (tv: number, projectType: 'ĐATN' | 'BCCĐ', isFirstCheck: boolean): { [key: string]: string } => {
-    // Define the full text for each conclusion, which will be sent to the template
-    const conclusionTexts = {
-        ketluan1: 'Đảm bảo tỉ lệ cho phép, đề nghị Hội đồng đánh giá ĐATN / Cán bộ chấm thi BCCĐ đánh giá và kết luận.',
-        ketluan2: 'Tỉ lệ trùng lặp trong khoảng cần xử lý (ĐATN: 25%-35%; BCCĐ: 30%-40%), đề nghị Hội đồng đánh giá ĐATN / Cán bộ chấm thi BCCĐ trừ điểm theo Quy định.',
-        ketluan3: 'Vượt tỉ lệ, đề nghị học viên chỉnh sửa trong thời gian 03 ngày (ĐATN) / 02 ngày (BCCĐ) và nộp lại để kiểm tra lần tiếp theo.',
-        ketluan4: 'Vượt tỉ lệ tối đa (ĐATN > 35%; BCCĐ > 40%): không được bảo vệ/không được chấm, điểm 0.',
-    };
 
-    const conclusions = {
-        kl1_box: '☐',
-        kl2_box: '☐',
-        kl3_box: '☐',
-        kl4_box: '☐',
-        ...conclusionTexts
+/**
+ * Reads an uploaded file for the column-mapping step: resolves the mapping from saved
+ * profiles or keyword detection, and keeps the first rows for the preview.
+ * @param file The uploaded file.
+ * @param role Which kind of file it is.
+ * @param profiles Saved mapping profiles.
+ * @param faculty The faculty whose profiles are tried first.
+ * @param sheetName The sheet to preview; defaults to the first sheet.
+ */
+export const inspectFileColumns = async (
+    file: File,
+    role: MappingRole,
+    profiles: MappingProfile[],
+    faculty: string,
+    sheetName?: string
+): Promise<ColumnInspection & { missingFields: string[] }> => {
+    const workbook = await readWorkbook(file);
+    const effectiveSheet = sheetName || workbook.SheetNames[0];
+    const data = sheetToArray(workbook, effectiveSheet);
+    const { mapping, profile } = resolveColumnMapping(data, role, profiles, faculty);
+    return {
+        fileName: file.name,
+        sheetName: effectiveSheet,
+        previewRows: data.slice(0, 15),
+        mapping,
+        profileName: profile?.name,
+        missingFields: getMissingRequiredFields(mapping, role),
     };
-    
-    const CHECKED_BOX = '☑';
-
-    // Logic to determine which box gets checked
-    if (projectType === 'ĐATN') {
-        if (tv < 25) {
-            conclusions.kl1_box = CHECKED_BOX;
-        } else if (tv >= 25 && tv <= 35) {
-            if (isFirstCheck) {
-                conclusions.kl3_box = CHECKED_BOX;
-            } else {
-                conclusions.kl2_box = CHECKED_BOX;
-            }
-        } else if (tv > 35) {
-            if (isFirstCheck) {
-                conclusions.kl3_box = CHECKED_BOX;
-            } else {
-                conclusions.kl4_box = CHECKED_BOX;
-            }
+};
+
+/**
+ * Works out whether a file is a main file or a supplementary file from the headers of
+ * its first sheet, and collects its topic/student keys for pairing files by content.
+ * @param file The file to inspect.
+ * @returns The summary; the role is null when the file looks like neither.
+ */
+export const summarizeInputFile = async (file: File): Promise<InputFileSummary> => {
+    const data = sheetToArray(await readWorkbook(file));
+    const suppMapping = detectColumnMapping(data, 'supplementary');
+    const suppLayout = detectSupplementaryLayout(data, suppMapping);
+
+    if (suppLayout) {
+        try {
+            const entries = getSupplementaryAdapter(suppLayout).read(data, suppMapping);
+            const keys = entries.flatMap(e => [e.tendetai, e.hotenhv]).filter((k): k is string => !!k);
+            return { file, role: 'supplementary', keys };
+        } catch {
+            // Still a supplementary file; it can be paired by name and its error shows when merging
+            return { file, role: 'supplementary', keys: [] };
         }
-    } else { // BCCĐ
-        if (tv < 30) {
-            conclusions.kl1_box = CHECKED_BOX;
-        } else if (tv >= 30 && tv <= 40) {
-            if (isFirstCheck) {
-                conclusions.kl3_box = CHECKED_BOX;
-            } else {
-                conclusions.kl2_box = CHECKED_BOX;
-            }
-        } else if (tv > 40) {
-             if (isFirstCheck) {
-                conclusions.kl3_box = CHECKED_BOX;
-            } else {
-                conclusions.kl4_box = CHECKED_BOX;
-            }
+    }
+
+    const mainMapping = detectColumnMapping(data, 'main');
+    if (getMissingRequiredFields(mainMapping, 'main').length === 0) {
+        const keys = processMainData(data, mainMapping).map(p => p.tendetai);
+        return { file, role: 'main', keys };
+    }
+
+    return { file, role: null, keys: [] };
+};
+
+/**
+ * Builds the data a report template is filled with, as used for both the generated reports and the preview.
+ * @param student The student the report is for, when reports are generated per student.
+ * @param assessmentContext Document type, round and dates the project is assessed under.
+ * @param history The project's records in earlier check rounds, oldest first.
+ * @param batch The batch the report is numbered in; without it the batch placeholders are blank.
+ * @returns The template data and the assessment it was built from.
+ */
+export const buildReportTemplateData = (
+    row: MergedData,
+    student: StudentRecord | undefined,
+    policy: ConclusionPolicy,
+    assessmentContext: AssessmentContext,
+    history: RoundRecord[] = [],
+    batch?: ReportBatchContext
+): { templateData: { [key: string]: any }, assessment: ProjectAssessment } => {
+    const { documentType, checkRound } = assessmentContext;
+    const chapterNote = policy.chapterNote ?? DEFAULT_CHAPTER_NOTE;
+    const students = getStudentRecords(row);
+    const chapterViolations = findChapterViolations(documentType, row);
+    const historyData = getHistoryTemplateData(row, history);
+    const chapters = [];
+    for (const key in row) {
+        if (key.startsWith('c') && !isNaN(parseInt(key.substring(1)))) {
+            const chapterNum = parseInt(key.substring(1));
+             if (chapterNum > 0) {
+                const value = row[key as keyof MergedData];
+                chapters.push({
+                    stt: chapterNum,
+                    chuong: `Chương ${chapterNum}`,
+                    tyle: typeof value === 'number' ? value.toFixed(2) : '',
+                    'ghi chu': chapterViolations.includes(key) ? chapterNote : '', // Match template placeholder
+                    ...historyData.chapters[key],
+                });
+             }
         }
     }
 
-    return conclusions;
+    const assessment = assessProject(assessmentContext, row);
+    const conclusionData = getConclusionTemplateData(policy, assessment.conclusion);
+
+    const joinField = (field: 'mahv' | 'lop' | 'email') => students.map(s => s[field]).filter(Boolean).join(', ');
+
+    const studentName = student ? student.hoten : row.hotenhv;
+    const metadata = batch?.metadata || DEFAULT_BATCH_METADATA;
+
+    const templateData: { [key: string]: any } = {
+        hoten_hv: studentName,
+        ma_hv: student ? student.mahv || '' : joinField('mahv'),
+        lop: student ? student.lop || '' : joinField('lop'),
+        email: student ? student.email || '' : joinField('email'),
+        hoc_vien: toStudentTemplateData(students),
+        ten_detai: row.tendetai,
+        nguoi_huongdan: row.nguoihuongdan,
+        loai_tai_lieu: documentType.label,
+        TV: row.tv ? row.tv.toFixed(2) : '0.00',
+        TV_chu: decimalToVietnameseWords(row.tv || 0),
+        chuong_data: chapters.sort((a,b) => a.stt - b.stt),
+        chuong_vuot: chapterViolations.map(key => `Chương ${key.substring(1)}`).join(', '),
+        lan_kiem_tra: String(checkRound),
+        ...historyData.fields,
+        ...conclusionData,
+        ...getAssessmentTemplateData(assessmentContext, assessment),
+        ten_dot: metadata.batchName,
+        khoa: metadata.faculty,
+        can_bo_kiem_tra: metadata.officer,
+        dia_diem: metadata.place,
+        so_bao_cao: batch ? formatReportNumber(metadata, batch.reportNumber) : '',
+        ma_xac_thuc: batch
+            ? computeVerificationCode(batch.batchId, { reportNumber: batch.reportNumber, topic: row.tendetai, student: studentName, tv: row.tv, conclusion: assessment.conclusion })
+            : '',
+    };
+    return { templateData, assessment };
 };
 
 /**
  * Generates multiple Word reports from a template and merged data.
+ * @param options The data, template and settings of the batch. Grouped by supervisor, each supervisor's folder
+ * also gets a summary of their projects. With mail, a ready-to-send .eml per recipient is added under 'Thu_gui/',
+ * with the reports attached. With signingKey, a signed manifest records each report's key fields and hash, so a
+ * report handed in later can be checked against it.
+ * @param onProgress Called after each report with the number of reports rendered so far.
  */
-export const generateWordReports = async (
-    mergedData: MergedData[],
-    templateFile: File,
-    isFirstCheck: boolean,
-    projectTypeFromUI: 'ĐATN' | 'BCCĐ'
-): Promise<Blob> => {
+export const generateWordReports = async (options: GenerateReportsOptions, onProgress?: (done: number, total: number) => void): Promise<Blob> => {
+    const {
+        data: mergedData,
+        templateFile,
+        policy,
+        checkRound,
+        checkDate,
+        calendar,
+        documentType: documentTypeId,
+        perStudent = false,
+        histories = [],
+        naming = DEFAULT_REPORT_NAMING,
+        summaryTemplateFile = null,
+        metadata = DEFAULT_BATCH_METADATA,
+        mail = null,
+        signingKey = null,
+    } = options;
     const templateBuffer = await templateFile.arrayBuffer();
     const reportsZip = new PizZip();
 
-    // --- Robust Logic for Determining Project Type and File Naming ---
-    
-    // Step 1: Normalize the filename to handle Vietnamese characters correctly.
-    // This is the critical fix. 'ĐATN' becomes 'datn', allowing for a reliable check.
-    const normalizedFileName = normalizeString(templateFile.name);
-
-    // Step 2: Determine the effective project type with filename as the highest priority.
-    let effectiveProjectType: 'ĐATN' | 'BCCĐ';
-    if (normalizedFileName.includes('datn') || normalizedFileName.includes('kltn')) {
-        effectiveProjectType = 'ĐATN'; // Priority 1: Filename contains 'datn' or 'kltn'.
-    } else if (normalizedFileName.includes('bccd')) { // Note: 'bccđ' becomes 'bccd' after normalization.
-        effectiveProjectType = 'BCCĐ'; // Priority 2: Filename contains 'bccd'.
-    } else {
-        effectiveProjectType = projectTypeFromUI; // Priority 3: Fallback to the UI selection.
+    const documentType = getDocumentType(policy, documentTypeId);
+    const baseName = documentType.outputPrefix || `KQ_${documentType.id}`;
+    const assessmentContext: AssessmentContext = { documentType, checkRound, checkDate, calendar };
+
+    // When the data spans several sheets, files are named and numbered per sheet
+    const sheetCount = new Set(mergedData.map(row => row.tensheet).filter(Boolean)).size;
+    const sheetCounters = new Map<string, number>();
+    const usedPaths = new Set<string>();
+    const batchId = createBatchId();
+    const mailReports: (Omit<MailReport, 'content'> & { path: string })[] = [];
+    const manifestEntries: ManifestEntry[] = [];
+
+    // The batch summary comes first, so it keeps its name and a template error stops the batch early
+    const summary = buildBatchSummary(mergedData, assessmentContext, histories);
+    if (summaryTemplateFile) {
+        const summaryData = getBatchSummaryTemplateData(summary, policy, assessmentContext, metadata);
+        reportsZip.file(claimUniquePath(usedPaths, '', SUMMARY_FILE_NAME, '.docx'), renderBatchSummaryDocument(await summaryTemplateFile.arrayBuffer(), summaryData));
     }
+    reportsZip.file(claimUniquePath(usedPaths, '', SUMMARY_FILE_NAME, '.xlsx'), buildBatchSummaryWorkbook(summary, policy, assessmentContext, metadata));
+
+    // One report per project, or one per student of each project
+    const reports = mergedData.flatMap((row, rowIndex) => {
+        const students = getStudentRecords(row);
+        return perStudent && students.length > 0
+            ? students.map(student => ({ row, rowIndex, student }))
+            : [{ row, rowIndex, student: undefined as StudentRecord | undefined }];
+    });
 
-    // Step 3: Determine the base name for the output Word files using the same priority system.
-    let baseName: string;
-    if (normalizedFileName.includes('kltn')) {
-        baseName = 'KQ_KLTN';
-    } else if (normalizedFileName.includes('datn')) {
-        baseName = 'KQ_ĐATN';
-    } else if (normalizedFileName.includes('bccd')) {
-        baseName = 'KQ_BCCĐ';
-    } else {
-        // Fallback name is based on the determined effectiveProjectType for consistency.
-        baseName = `KQ_${effectiveProjectType}`;
-    }
-    // --- End of Refactored Logic ---
-
-    for (const [index, row] of mergedData.entries()) {
+    for (const [index, { row, rowIndex, student }] of reports.entries()) {
         const templatePizZip = new PizZip(templateBuffer.slice(0));
         const doc = new Docxtemplater(templatePizZip, {
             paragraphLoop: true,
             linebreaks: true,
         });
 
-        const chapters = [];
-        for (const key in row) {
-            if (key.startsWith('c') && !isNaN(parseInt(key.substring(1)))) {
-                const chapterNum = parseInt(key.substring(1));
-                 if (chapterNum > 0) {
-                    const value = row[key as keyof MergedData];
-                    chapters.push({
-                        stt: chapterNum,
-                        chuong: `Chương ${chapterNum}`,
-                        tyle: typeof value === 'number' ? value.toFixed(2) : '',
-                        'ghi chu': '' // Match template placeholder
-                    });
-                 }
-            }
-        }
-        
-        // Step 4: Use the centrally determined 'effectiveProjectType' for the conclusion logic.
-        const conclusionData = getConclusionData(row.tv || 0, effectiveProjectType, isFirstCheck);
-
-        const templateData: { [key: string]: any } = {
-            hoten_hv: row.hotenhv,
-            ten_detai: row.tendetai,
-            nguoi_huongdan: row.nguoihuongdan,
-            loai_tai_lieu: effectiveProjectType === 'ĐATN' ? 'ĐATN/KLTN' : 'BCCĐ',
-            TV: row.tv ? row.tv.toFixed(2) : '0.00',
-            chuong_data: chapters.sort((a,b) => a.stt - b.stt),
-            ...conclusionData,
-        };
+        const batch: ReportBatchContext = { batchId, metadata, reportNumber: metadata.serialStart + index };
+        const { templateData, assessment } = buildReportTemplateData(row, student, policy, assessmentContext, histories[rowIndex], batch);
 
         doc.setData(templateData);
 
@@ -487,7 +761,7 @@ export const generateWordReports = async (
                 const explanations = error.properties.errors.map((err: any) => {
                     return err.properties?.explanation || err.message;
                 }).join('\n- ');
-                const errorMessage = `Lỗi file mẫu Word. Vui lòng kiểm tra lại các placeholder:\n- ${explanations}\n\nLƯU Ý: Placeholder phải dùng dấu ngoặc đơn {placeholder} và không chứa khoảng trắng (ví dụ: dùng {hoten_hv} thay vì {Họ tên HV}). Để bảng tự động thêm dòng, hãy dùng cú pháp lặp {#chuong_data} ... {/chuong_data}.`;
+                const errorMessage = `Lỗi file mẫu Word. Vui lòng kiểm tra lại các placeholder:\n- ${explanations}\n\nLƯU Ý: Placeholder phải dùng dấu ngoặc đơn {placeholder} và không chứa khoảng trắng (ví dụ: dùng {hoten_hv} thay vì {Họ tên HV}). Để bảng tự động thêm dòng, hãy dùng cú pháp lặp {#chuong_data} ... {/chuong_data} (theo chương) hoặc {#hoc_vien} ... {/hoc_vien} (theo học viên).`;
                  throw new Error(errorMessage);
             }
             throw new Error(`Lỗi khi điền dữ liệu cho đề tài: "${row.tendetai}". Vui lòng kiểm tra file mẫu Word.`);
@@ -498,9 +772,100 @@ export const generateWordReports = async (
             mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
         });
         
-        const fileName = `${baseName}_${index + 1}.docx`;
-        reportsZip.file(fileName, out);
+        const nameValues = {
+            stt: String(index + 1).padStart(String(reports.length).length, '0'),
+            hoten_hv: templateData.hoten_hv,
+            ma_hv: templateData.ma_hv,
+            ten_detai: row.tendetai,
+            nguoi_huongdan: row.nguoihuongdan,
+            ket_luan: CONCLUSION_LABELS[assessment.conclusion],
+            tien_to: baseName,
+            sheet: row.tensheet,
+        };
+        let fileName = renderFileNamePattern(naming.pattern, nameValues);
+        if (!fileName) {
+            fileName = `${baseName}_${index + 1}`;
+            if (sheetCount > 1 && row.tensheet) {
+                const sheetNumber = (sheetCounters.get(row.tensheet) || 0) + 1;
+                sheetCounters.set(row.tensheet, sheetNumber);
+                fileName = `${baseName}_${row.tensheet.replace(/[\\/:*?"<>|]/g, '_')}_${sheetNumber}`;
+            }
+        }
+        const folder = getReportFolder(naming.grouping, nameValues);
+        const path = claimUniquePath(usedPaths, folder, fileName, '.docx');
+        reportsZip.file(path, out);
+        if (mail) mailReports.push({ row, rowIndex, student, templateData, path, fileName: path.slice(path.lastIndexOf('/') + 1) });
+        manifestEntries.push({
+            path,
+            reportNumber: batch.reportNumber,
+            reportLabel: templateData.so_bao_cao,
+            verificationCode: templateData.ma_xac_thuc,
+            student: templateData.hoten_hv,
+            topic: row.tendetai,
+            tv: row.tv || 0,
+            conclusion: assessment.conclusion,
+            conclusionText: policy.conclusionTexts[assessment.conclusion],
+            sha256: await sha256Hex(out),
+        });
+        onProgress?.(index + 1, reports.length);
     }
 
-    return reportsZip.generate({ type: "blob" });
+    // Each supervisor's folder gets a summary of just their projects, to send on with the reports
+    if (naming.grouping === 'supervisor') {
+        const rowsBySupervisor = new Map<string, number[]>();
+        mergedData.forEach((row, rowIndex) => {
+            const folder = getReportFolder('supervisor', { nguoi_huongdan: row.nguoihuongdan, ket_luan: '' });
+            rowsBySupervisor.set(folder, [...(rowsBySupervisor.get(folder) || []), rowIndex]);
+        });
+        rowsBySupervisor.forEach((rowIndexes, folder) => {
+            const supervisorSummary = buildBatchSummary(rowIndexes.map(i => mergedData[i]), assessmentContext, rowIndexes.map(i => histories[i] || []));
+            const title = `KẾT QUẢ KIỂM TRA TỈ LỆ TRÙNG LẶP - NGƯỜI HƯỚNG DẪN: ${mergedData[rowIndexes[0]].nguoihuongdan?.trim() || NO_SUPERVISOR_LABEL}`;
+            reportsZip.file(
+                claimUniquePath(usedPaths, folder, SUPERVISOR_SUMMARY_FILE_NAME, '.xlsx'),
+                buildBatchSummaryWorkbook(supervisorSummary, policy, assessmentContext, metadata, title)
+            );
+        });
+    }
+
+    // The emails attach the reports themselves, so they are built before the folders are packed
+    const messages = mail
+        ? buildMailMessages(mailReports.map(({ path, ...report }) => ({ ...report, content: reportsZip.file(path)!.asUint8Array() })), mail)
+        : [];
+    const outputZip = naming.archiveFolders && naming.grouping !== 'none' ? packFoldersAsArchives(reportsZip) : reportsZip;
+    messages.forEach(({ name, eml }) => outputZip.file(claimUniquePath(usedPaths, MAIL_FOLDER, sanitizeFileNamePart(name) || 'Thu', '.eml'), eml));
+    if (signingKey) {
+        const manifest = await buildSignedManifest({
+            batchId,
+            issuedAt: new Date().toISOString(),
+            documentType: documentType.id,
+            checkRound,
+            checkDate,
+            policy: `${policy.name} (phiên bản ${policy.version})`,
+            reports: manifestEntries,
+        }, signingKey);
+        outputZip.file(claimUniquePath(usedPaths, '', MANIFEST_FILE_NAME, '.json'), JSON.stringify(manifest, null, 2));
+    }
+    return outputZip.generate({ type: "blob" });
+};
+
+/**
+ * Packs each top-level folder of a ZIP into a ZIP of its own, e.g. 'Nguyễn Văn A/...' into 'Nguyễn Văn A.zip',
+ * so each can be sent on as a single file. Files outside the folders stay where they are.
+ */
+const packFoldersAsArchives = (zip: PizZip): PizZip => {
+    const packed = new PizZip();
+    const folders = new Map<string, PizZip>();
+    Object.keys(zip.files).filter(name => !zip.files[name].dir).forEach(name => {
+        const content = zip.file(name)!.asUint8Array();
+        const slash = name.indexOf('/');
+        if (slash < 0) {
+            packed.file(name, content);
+            return;
+        }
+        const folder = name.slice(0, slash);
+        if (!folders.has(folder)) folders.set(folder, new PizZip());
+        folders.get(folder)!.file(name.slice(slash + 1), content);
+    });
+    folders.forEach((folderZip, folder) => packed.file(`${folder}.zip`, folderZip.generate({ type: 'uint8array' })));
+    return packed;
 };
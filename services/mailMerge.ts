@@ -0,0 +1,270 @@
+import { MailRecipients, MailTemplate, MergedData, MissingRecipient, StudentRecord } from '../types';
+import { NO_SUPERVISOR_LABEL } from './reportNaming';
+import { TEMPLATE_FIELDS } from './templateInspector';
+
+const STORAGE_KEY = 'baocaopro.mailTemplate';
+
+// Folder of the ready-to-send emails inside the reports ZIP.
+export const MAIL_FOLDER = 'Thu_gui';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export const MAIL_RECIPIENT_OPTIONS: { recipients: MailRecipients, label: string }[] = [
+    { recipients: 'student', label: 'Mỗi báo cáo gửi cho học viên' },
+    { recipients: 'supervisor', label: 'Mỗi người hướng dẫn một thư, kèm mọi báo cáo của họ' },
+];
+
+export const DEFAULT_MAIL_TEXTS: Record<MailRecipients, { subject: string, body: string }> = {
+    student: {
+        subject: 'Kết quả kiểm tra tỉ lệ trùng lặp - {ten_detai}',
+        body: 'Kính gửi {hoten_hv},\n\nGửi kèm thư này là kết quả kiểm tra tỉ lệ trùng lặp lần {lan_kiem_tra} (ngày {ngay_kiem_tra}) của đề tài "{ten_detai}". Tỉ lệ trùng lặp: {TV}%.\n\nTrân trọng,\n{can_bo_kiem_tra}',
+    },
+    supervisor: {
+        subject: 'Kết quả kiểm tra tỉ lệ trùng lặp - {so_de_tai} đề tài',
+        body: 'Kính gửi {nguoi_huongdan},\n\nGửi kèm thư này là kết quả kiểm tra tỉ lệ trùng lặp lần {lan_kiem_tra} (ngày {ngay_kiem_tra}) của {so_de_tai} đề tài do Thầy/Cô hướng dẫn:\n{danh_sach_de_tai}\n\nTrân trọng,\n{can_bo_kiem_tra}',
+    },
+};
+
+export const DEFAULT_MAIL_TEMPLATE: MailTemplate = { recipients: 'student', sender: '', ...DEFAULT_MAIL_TEXTS.student };
+
+// Placeholders only the emails have, describing the reports an email carries.
+export const MAIL_FIELDS: { name: string, label: string }[] = [
+    { name: 'so_de_tai', label: 'Số báo cáo đính kèm' },
+    { name: 'danh_sach_de_tai', label: 'Danh sách đề tài đính kèm, mỗi đề tài một dòng' },
+];
+
+// A generated report, as an email carries it.
+export interface MailReport {
+    row: MergedData;
+    rowIndex: number;
+    student?: StudentRecord; // Set when reports are generated per student
+    templateData: { [key: string]: any }; // The data the report was filled with
+    fileName: string; // Attachment name, with extension
+    content: Uint8Array;
+}
+
+// A loose check that leaves the rest to the mail client.
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/;
+
+const CRLF = '\r\n';
+
+/**
+ * Loads the email template last used.
+ */
+export const loadMailTemplate = (): MailTemplate => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        return parsed && typeof parsed === 'object' ? { ...DEFAULT_MAIL_TEMPLATE, ...parsed } : DEFAULT_MAIL_TEMPLATE;
+    } catch (error) {
+        console.error("Không đọc được mẫu thư đã lưu:", error);
+        return DEFAULT_MAIL_TEMPLATE;
+    }
+};
+
+/**
+ * Saves the email template.
+ * @returns The saved template.
+ */
+export const saveMailTemplate = (template: MailTemplate): MailTemplate => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(template));
+    return template;
+};
+
+/**
+ * Splits a cell into the valid email addresses it holds; several may be separated by commas, semicolons or spaces.
+ */
+export const parseEmailAddresses = (value: string | undefined): string[] =>
+    (value || '').split(/[\s,;]+/).filter(address => EMAIL_PATTERN.test(address));
+
+/**
+ * Lists the placeholders of a subject or body that neither the report nor the email provides.
+ * Loops such as {#hoc_vien} are not available in emails.
+ */
+export const findUnknownMailPlaceholders = (text: string): string[] => {
+    const known = new Set([...TEMPLATE_FIELDS.filter(f => !f.loopFields).map(f => f.name), ...MAIL_FIELDS.map(f => f.name)]);
+    return Array.from(text.matchAll(/\{([^{}]*)\}/g), match => match[1].trim()).filter(name => !known.has(name));
+};
+
+/**
+ * Fills the placeholders of a subject or body. Placeholders without a plain value are left as written.
+ */
+export const renderMailText = (text: string, data: { [key: string]: any }): string =>
+    text.replace(/\{([^{}]*)\}/g, (placeholder, name: string) => {
+        const value = data[name.trim()];
+        return typeof value === 'string' || typeof value === 'number' ? String(value) : placeholder;
+    });
+
+const supervisorName = (row: MergedData) => row.nguoihuongdan?.trim() || NO_SUPERVISOR_LABEL;
+
+// Groups items by supervisor name, as one email goes to each supervisor.
+const groupBySupervisor = <T>(items: T[], rowOf: (item: T) => MergedData): Map<string, T[]> => {
+    const groups = new Map<string, T[]>();
+    items.forEach(item => {
+        const key = supervisorName(rowOf(item));
+        groups.set(key, [...(groups.get(key) || []), item]);
+    });
+    return groups;
+};
+
+// A supervisor's email goes to every address given on any of their projects.
+const supervisorAddresses = (rows: MergedData[]): string[] =>
+    Array.from(new Set(rows.flatMap(row => parseEmailAddresses(row.emailhuongdan))));
+
+// The addresses of a report's students: the student it is for, or every student of the project.
+const studentAddresses = (row: MergedData, student?: StudentRecord): string[] =>
+    student ? parseEmailAddresses(student.email) : (row.hocvien || []).flatMap(s => parseEmailAddresses(s.email));
+
+/**
+ * Lists the reports that cannot be emailed, before they are generated. Reports to supervisors are grouped
+ * as buildMailMessages groups them, so a project without an address is covered by another project of its supervisor.
+ * @param perStudent Whether each student gets a report of their own.
+ */
+export const findMissingRecipients = (data: MergedData[], recipients: MailRecipients, perStudent: boolean): MissingRecipient[] => {
+    if (recipients === 'supervisor') {
+        const rows = data.map((row, rowIndex) => ({ row, rowIndex }));
+        return Array.from(groupBySupervisor(rows, r => r.row).entries())
+            .filter(([, group]) => supervisorAddresses(group.map(r => r.row)).length === 0)
+            .flatMap(([name, group]) => group.map(({ row, rowIndex }) => ({ rowIndex, recipient: name, tendetai: row.tendetai })))
+            .sort((a, b) => a.rowIndex - b.rowIndex);
+    }
+    return data.flatMap((row, rowIndex) => {
+        const students = perStudent && row.hocvien && row.hocvien.length > 0 ? row.hocvien : [undefined];
+        return students
+            .filter(student => studentAddresses(row, student).length === 0)
+            .map(student => ({ rowIndex, recipient: student ? student.hoten : row.hotenhv, tendetai: row.tendetai }));
+    });
+};
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    // In chunks, as spreading a whole document into fromCharCode overflows the call stack
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const encodeUtf8Base64 = (text: string) => encodeBase64(new TextEncoder().encode(text));
+
+// Base64 body lines stay within the 76 characters MIME allows.
+const wrapBase64 = (base64: string) => base64.replace(/.{1,76}/g, line => line + CRLF);
+
+/**
+ * Encodes a header value as RFC 2047 encoded words where it is not plain ASCII. Each word stays
+ * under 75 characters and never splits a character.
+ */
+const encodeHeaderText = (text: string): string => {
+    if (/^[\x20-\x7e]*$/.test(text)) return text;
+    const words: string[] = [];
+    let chunk = '';
+    for (const char of Array.from(text)) {
+        if (new TextEncoder().encode(chunk + char).length > 45) {
+            words.push(chunk);
+            chunk = '';
+        }
+        chunk += char;
+    }
+    if (chunk) words.push(chunk);
+    return words.map(word => `=?UTF-8?B?${encodeUtf8Base64(word)}?=`).join(`${CRLF} `);
+};
+
+// An RFC 5987 parameter value: UTF-8, percent-encoded, including the characters encodeURIComponent leaves as they are.
+const encodeExtendedValue = (text: string) =>
+    `UTF-8''${encodeURIComponent(text).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+
+// A plain ASCII stand-in for clients that ignore filename*: accents dropped, anything else non-ASCII replaced.
+// Encoded words are not allowed inside quoted parameters.
+const asciiFileName = (fileName: string) => fileName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .replace(/[^\x20-\x7e]|["\\]/g, '_');
+
+const formatAddress = (name: string, address: string) => {
+    if (!name) return address;
+    return /^[\x20-\x7e]*$/.test(name) ? `"${name.replace(/["\\]/g, '\\$&')}" <${address}>` : `${encodeHeaderText(name)} <${address}>`;
+};
+
+/**
+ * Builds an RFC 822 message with the reports attached. It is marked as unsent, so mail clients
+ * open it as a draft that only needs the Send button.
+ * @param to Each recipient's display name and address.
+ */
+export const buildEmlMessage = (
+    sender: string,
+    to: { name: string, address: string }[],
+    subject: string,
+    body: string,
+    attachments: { fileName: string, content: Uint8Array }[]
+): string => {
+    const boundary = `----=_BaoCaoPro_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+    const headers = [
+        ...(parseEmailAddresses(sender).length > 0 ? [`From: ${parseEmailAddresses(sender)[0]}`] : []),
+        `To: ${to.map(r => formatAddress(r.name, r.address)).join(`,${CRLF} `)}`,
+        `Subject: ${encodeHeaderText(subject.replace(/\s+/g, ' ').trim())}`,
+        'X-Unsent: 1',
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    ];
+    const parts = [
+        [
+            'Content-Type: text/plain; charset=UTF-8',
+            'Content-Transfer-Encoding: base64',
+            '',
+            wrapBase64(encodeUtf8Base64(body.replace(/\r?\n/g, CRLF))),
+        ].join(CRLF),
+        ...attachments.map(({ fileName, content }) => [
+            `Content-Type: ${DOCX_TYPE};${CRLF} name="${asciiFileName(fileName)}"`,
+            `Content-Disposition: attachment;${CRLF} filename*=${encodeExtendedValue(fileName)};${CRLF} filename="${asciiFileName(fileName)}"`,
+            'Content-Transfer-Encoding: base64',
+            '',
+            wrapBase64(encodeBase64(content)),
+        ].join(CRLF)),
+    ];
+    return [
+        ...headers,
+        '',
+        ...parts.map(part => `--${boundary}${CRLF}${part}`),
+        `--${boundary}--`,
+        '',
+    ].join(CRLF);
+};
+
+/**
+ * Builds the emails of a batch: one per report to its students, or one per supervisor with all of
+ * their reports. Reports without a valid address are skipped; findMissingRecipients lists them.
+ * @returns Each email's name, without extension, and its content.
+ */
+export const buildMailMessages = (reports: MailReport[], template: MailTemplate): { name: string, eml: string }[] => {
+    const groups = template.recipients === 'supervisor'
+        ? groupBySupervisor(reports, report => report.row)
+        : new Map(reports.map((report, index) => [String(index), [report]]));
+
+    return Array.from(groups.entries()).flatMap(([key, group]) => {
+        const first = group[0];
+        const to = template.recipients === 'supervisor'
+            ? supervisorAddresses(group.map(r => r.row)).map(address => ({ name: key, address }))
+            : first.student
+                ? studentAddresses(first.row, first.student).map(address => ({ name: first.student!.hoten, address }))
+                : (first.row.hocvien || []).flatMap(s => parseEmailAddresses(s.email).map(address => ({ name: s.hoten, address })));
+        if (to.length === 0) return [];
+
+        const data = {
+            ...first.templateData,
+            so_de_tai: group.length,
+            danh_sach_de_tai: group.map((r, i) => `${i + 1}. ${r.row.tendetai} - ${r.templateData.hoten_hv} - TV ${r.templateData.TV}%`).join('\n'),
+        };
+        return [{
+            name: template.recipients === 'supervisor' ? key : first.fileName.replace(/\.docx$/i, ''),
+            eml: buildEmlMessage(
+                template.sender,
+                to,
+                renderMailText(template.subject, data),
+                renderMailText(template.body, data),
+                group.map(({ fileName, content }) => ({ fileName, content }))
+            ),
+        }];
+    });
+};
@@ -0,0 +1,42 @@
+import { MappingProfile } from '../types';
+
+const STORAGE_KEY = 'baocaopro.mappingProfiles';
+
+/**
+ * Loads the saved column-mapping profiles from localStorage.
+ * @returns The saved profiles, or an empty list if none exist or the stored value is unreadable.
+ */
+export const loadMappingProfiles = (): MappingProfile[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.error("Không đọc được hồ sơ ghép cột đã lưu:", error);
+        return [];
+    }
+};
+
+const persist = (profiles: MappingProfile[]): MappingProfile[] => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    return profiles;
+};
+
+/**
+ * Saves a profile, replacing any existing profile with the same name, faculty and role.
+ * @returns The updated list of profiles.
+ */
+export const saveMappingProfile = (profile: MappingProfile): MappingProfile[] => {
+    const others = loadMappingProfiles().filter(p =>
+        !(p.name === profile.name && p.faculty === profile.faculty && p.role === profile.role)
+    );
+    return persist([...others, profile]);
+};
+
+/**
+ * Deletes a profile by id.
+ * @returns The updated list of profiles.
+ */
+export const deleteMappingProfile = (id: string): MappingProfile[] => {
+    return persist(loadMappingProfiles().filter(p => p.id !== id));
+};
@@ -0,0 +1,287 @@
+import { MainProject, SupplementaryEntry, ProjectMatch, MatchCandidate, MatchStatus, ReconciliationResult, MergedData } from '../types';
+import { normalizeString } from './stringUtils';
+
+// Scores at or above this are accepted without review.
+const AUTO_MATCH_THRESHOLD = 0.85;
+// Scores below this are not considered candidates at all.
+const CANDIDATE_THRESHOLD = 0.5;
+// If the runner-up is this close to the best score, the match is flagged as ambiguous.
+const AMBIGUITY_MARGIN = 0.05;
+const MAX_CANDIDATES = 3;
+
+/**
+ * Builds the set of character bigrams of an already-normalized string.
+ */
+const bigrams = (str: string): Map<string, number> => {
+    const result = new Map<string, number>();
+    for (let i = 0; i < str.length - 1; i++) {
+        const gram = str.substring(i, i + 2);
+        result.set(gram, (result.get(gram) || 0) + 1);
+    }
+    return result;
+};
+
+/**
+ * Accent-insensitive fuzzy similarity between two strings (Sørensen–Dice on bigrams).
+ * @returns A score between 0 (nothing in common) and 1 (identical after normalization).
+ */
+export const stringSimilarity = (a: any, b: any): number => {
+    const normA = normalizeString(a);
+    const normB = normalizeString(b);
+    if (!normA || !normB) return 0;
+    if (normA === normB) return 1;
+    if (normA.length < 2 || normB.length < 2) return 0;
+
+    const gramsA = bigrams(normA);
+    const gramsB = bigrams(normB);
+    let overlap = 0;
+    gramsA.forEach((count, gram) => {
+        overlap += Math.min(count, gramsB.get(gram) || 0);
+    });
+    return (2 * overlap) / (normA.length - 1 + normB.length - 1);
+};
+
+/**
+ * Compares a supplementary student name against the comma-joined names of a main project.
+ * A group project matches if any one of its students matches.
+ */
+const studentSimilarity = (mainNames: string, suppName: string): number => {
+    const whole = stringSimilarity(mainNames, suppName);
+    const best = mainNames
+        .split(',')
+        .map(name => stringSimilarity(name.trim(), suppName))
+        .reduce((max, score) => Math.max(max, score), 0);
+    return Math.max(whole, best);
+};
+
+/**
+ * Scores how likely a supplementary entry belongs to a main project,
+ * using whichever keys (topic title, student name) both sides provide.
+ */
+const scorePair = (main: MainProject, supp: SupplementaryEntry): number => {
+    const scores: { score: number, weight: number }[] = [];
+    if (supp.tendetai) {
+        scores.push({ score: stringSimilarity(main.tendetai, supp.tendetai), weight: 0.7 });
+    }
+    if (supp.hotenhv) {
+        scores.push({ score: studentSimilarity(main.hotenhv, supp.hotenhv), weight: 0.3 });
+    }
+    if (scores.length === 0) return 0;
+    const totalWeight = scores.reduce((acc, s) => acc + s.weight, 0);
+    return scores.reduce((acc, s) => acc + s.score * s.weight, 0) / totalWeight;
+};
+
+// Matches the user has to decide on before reports are generated. Rows paired by position are among
+// them, as nothing in the files shows that they belong together.
+const PENDING_STATUSES = new Set([MatchStatus.Ambiguous, MatchStatus.Unmatched, MatchStatus.Positional]);
+
+/**
+ * Whether a match still needs the user's confirmation or choice.
+ */
+export const isPendingMatch = (match: ProjectMatch): boolean => PENDING_STATUSES.has(match.status);
+
+const confirmedStatus = (match: ProjectMatch) => match.status === MatchStatus.Positional ? MatchStatus.PositionalConfirmed : MatchStatus.Manual;
+
+/**
+ * Joins main projects to supplementary entries by key instead of row position.
+ * Pairs are assigned greedily from the highest score down so each entry is used at most once.
+ * If the supplementary file has no key columns at all, entries are paired by position and left for the user to confirm.
+ * @param mainProjects Projects aggregated from the main file.
+ * @param suppEntries Entries read from the supplementary file.
+ * @param onProgress Called after each project is scored with the number of projects scored so far.
+ * @returns The reconciliation result, including unmatched and ambiguous projects.
+ */
+export const matchProjects = (
+    mainProjects: MainProject[],
+    suppEntries: SupplementaryEntry[],
+    onProgress?: (done: number, total: number) => void
+): ReconciliationResult => {
+    const hasKeys = suppEntries.some(e => e.tendetai || e.hotenhv);
+
+    if (!hasKeys) {
+        const matches: ProjectMatch[] = mainProjects.map((_, mainIndex) => {
+            const entry = suppEntries[mainIndex];
+            return {
+                mainIndex,
+                suppIndex: entry ? entry.index : null,
+                confidence: 0,
+                status: entry ? MatchStatus.Positional : MatchStatus.Unmatched,
+                candidates: [],
+            };
+        });
+        return { mainProjects, suppEntries, matches, dismissedSuppIndexes: [] };
+    }
+
+    const scoreMatrix = mainProjects.map((main, mainIndex) => {
+        const scores = suppEntries.map(supp => scorePair(main, supp));
+        onProgress?.(mainIndex + 1, mainProjects.length);
+        return scores;
+    });
+
+    const pairs: { mainIndex: number, suppPos: number, score: number }[] = [];
+    scoreMatrix.forEach((row, mainIndex) => {
+        row.forEach((score, suppPos) => {
+            if (score >= CANDIDATE_THRESHOLD) pairs.push({ mainIndex, suppPos, score });
+        });
+    });
+    pairs.sort((a, b) => b.score - a.score);
+
+    const assignedMain = new Map<number, number>();
+    const usedSupp = new Set<number>();
+    for (const pair of pairs) {
+        if (assignedMain.has(pair.mainIndex) || usedSupp.has(pair.suppPos)) continue;
+        assignedMain.set(pair.mainIndex, pair.suppPos);
+        usedSupp.add(pair.suppPos);
+    }
+
+    const matches: ProjectMatch[] = mainProjects.map((_, mainIndex) => {
+        const candidates: MatchCandidate[] = scoreMatrix[mainIndex]
+            .map((confidence, suppPos) => ({ suppIndex: suppEntries[suppPos].index, confidence }))
+            .filter(c => c.confidence >= CANDIDATE_THRESHOLD)
+            .sort((a, b) => b.confidence - a.confidence)
+            .slice(0, MAX_CANDIDATES);
+
+        const suppPos = assignedMain.get(mainIndex);
+        if (suppPos === undefined) {
+            return { mainIndex, suppIndex: null, confidence: 0, status: MatchStatus.Unmatched, candidates };
+        }
+
+        const confidence = scoreMatrix[mainIndex][suppPos];
+        const hasCloseRival = candidates.some(c => c.suppIndex !== suppEntries[suppPos].index && confidence - c.confidence <= AMBIGUITY_MARGIN);
+        const status = confidence >= AUTO_MATCH_THRESHOLD && !hasCloseRival ? MatchStatus.Matched : MatchStatus.Ambiguous;
+        return { mainIndex, suppIndex: suppEntries[suppPos].index, confidence, status, candidates };
+    });
+
+    return { mainProjects, suppEntries, matches, dismissedSuppIndexes: [] };
+};
+
+/**
+ * Combines the reconciliations of several batches (e.g. one per sheet) into one.
+ * Project and entry indexes are offset so they stay unique across batches.
+ */
+export const combineReconciliations = (batches: ReconciliationResult[]): ReconciliationResult => {
+    if (batches.length === 1) return batches[0];
+
+    const combined: ReconciliationResult = { mainProjects: [], suppEntries: [], matches: [], dismissedSuppIndexes: [] };
+    for (const batch of batches) {
+        const mainOffset = combined.mainProjects.length;
+        const suppOffset = combined.suppEntries.length;
+        const suppIndexMap = new Map(batch.suppEntries.map((e, pos) => [e.index, suppOffset + pos]));
+        const remap = (index: number) => suppIndexMap.get(index) as number;
+
+        combined.mainProjects.push(...batch.mainProjects);
+        combined.suppEntries.push(...batch.suppEntries.map(e => ({ ...e, index: remap(e.index) })));
+        combined.matches.push(...batch.matches.map(m => ({
+            ...m,
+            mainIndex: m.mainIndex + mainOffset,
+            suppIndex: m.suppIndex === null ? null : remap(m.suppIndex),
+            candidates: m.candidates.map(c => ({ ...c, suppIndex: remap(c.suppIndex) })),
+        })));
+        combined.dismissedSuppIndexes.push(...batch.dismissedSuppIndexes.map(remap));
+    }
+    return combined;
+};
+
+/**
+ * Returns the supplementary entries that no project uses and that the user has not dismissed.
+ */
+export const getUnmatchedSupplementaryEntries = (result: ReconciliationResult): SupplementaryEntry[] => {
+    const used = new Set(result.matches.map(m => m.suppIndex).filter((i): i is number => i !== null));
+    return result.suppEntries.filter(e => !used.has(e.index) && !result.dismissedSuppIndexes.includes(e.index));
+};
+
+/**
+ * Counts the items the user still has to resolve before reports can be generated.
+ */
+export const countPendingIssues = (result: ReconciliationResult): number => {
+    const pendingMatches = result.matches.filter(isPendingMatch).length;
+    return pendingMatches + getUnmatchedSupplementaryEntries(result).length;
+};
+
+/**
+ * Manually assigns a supplementary entry (or explicitly none) to a main project.
+ * If the entry was used by another project, that project becomes unmatched.
+ */
+export const assignMatch = (result: ReconciliationResult, mainIndex: number, suppIndex: number | null): ReconciliationResult => {
+    const matches = result.matches.map(m => {
+        if (m.mainIndex === mainIndex) {
+            const candidate = m.candidates.find(c => c.suppIndex === suppIndex);
+            const entry = result.suppEntries.find(e => e.index === suppIndex);
+            const confidence = candidate
+                ? candidate.confidence
+                : (entry ? scorePair(result.mainProjects[mainIndex], entry) : 0);
+            return { ...m, suppIndex, confidence, status: MatchStatus.Manual };
+        }
+        if (suppIndex !== null && m.suppIndex === suppIndex) {
+            return { ...m, suppIndex: null, confidence: 0, status: MatchStatus.Unmatched };
+        }
+        return m;
+    });
+    return { ...result, matches };
+};
+
+/**
+ * Accepts the currently proposed entry for a project as correct.
+ */
+export const confirmMatch = (result: ReconciliationResult, mainIndex: number): ReconciliationResult => {
+    const matches = result.matches.map(m => m.mainIndex === mainIndex ? { ...m, status: confirmedStatus(m) } : m);
+    return { ...result, matches };
+};
+
+/**
+ * Accepts every pairing by row position at once, for a supplementary file known to follow the main file's order.
+ */
+export const confirmPositionalMatches = (result: ReconciliationResult): ReconciliationResult => {
+    const matches = result.matches.map(m => m.status === MatchStatus.Positional ? { ...m, status: MatchStatus.PositionalConfirmed } : m);
+    return { ...result, matches };
+};
+
+/**
+ * Marks a supplementary entry as not belonging to any project in the main file.
+ */
+export const dismissSupplementaryEntry = (result: ReconciliationResult, suppIndex: number): ReconciliationResult => {
+    return { ...result, dismissedSuppIndexes: [...result.dismissedSuppIndexes, suppIndex] };
+};
+
+/**
+ * Builds the merged dataset from the current state of the reconciliation.
+ */
+export const buildMergedData = (result: ReconciliationResult): MergedData[] => {
+    return result.matches.map(match => {
+        const main = result.mainProjects[match.mainIndex];
+        const newRow: MergedData = {
+            hotenhv: main.hotenhv,
+            tendetai: main.tendetai,
+            sohocvien: main.sohocvien,
+            nguoihuongdan: main.nguoihuongdan,
+        };
+        if (main.emailhuongdan !== undefined) {
+            newRow.emailhuongdan = main.emailhuongdan;
+        }
+        if (main.tensheet !== undefined) {
+            newRow.tensheet = main.tensheet;
+        }
+        if (main.tenfile !== undefined) {
+            newRow.tenfile = main.tenfile;
+        }
+        if (main.hocvien !== undefined) {
+            newRow.hocvien = main.hocvien;
+        }
+        newRow.nguon = { ...main.nguon, cells: { ...main.nguon?.cells } };
+
+        const entry = result.suppEntries.find(e => e.index === match.suppIndex);
+        if (entry) {
+            if (entry.tv !== undefined) newRow.tv = entry.tv;
+            Object.assign(newRow, entry.chapters);
+            // The main file's topic cell is the one users edit, so it wins over the supplementary one
+            newRow.nguon.cells = { ...entry.cells, ...newRow.nguon.cells };
+            if (entry.numbers && Object.keys(entry.numbers).length > 0) {
+                newRow.nguon.numbers = entry.numbers;
+            }
+            if (match.status !== MatchStatus.Positional && match.status !== MatchStatus.PositionalConfirmed) {
+                newRow.dokhop = Math.round(match.confidence * 100);
+            }
+        }
+        return newRow;
+    });
+};
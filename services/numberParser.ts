@@ -0,0 +1,95 @@
+import { MergedData, NumberInterpretation, NumberReading, ParsedNumber } from '../types';
+
+// Labels shown to the user for each kind of conversion.
+export const INTERPRETATION_LABELS: Record<NumberInterpretation, string> = {
+    number: 'Số',
+    percentFormat: 'Ô định dạng %, đã nhân 100',
+    percentSign: 'Có ký hiệu %',
+    decimalComma: 'Dấu phẩy thập phân',
+    thousands: 'Có dấu phân cách hàng nghìn',
+    unparsed: 'Không đọc được',
+};
+
+const NUMBER_PATTERN = /^[-+]?\d+(\.\d+)?$/;
+
+/**
+ * Rewrites the separators of a numeric string to a plain '.' decimal point.
+ * A separator that occurs more than once, or before the other one, groups thousands;
+ * a single separator is the decimal point, so '25,5' and '25.5' both read as 25.5.
+ */
+const normalizeSeparators = (text: string): { text: string, interpretation: NumberInterpretation } => {
+    const commas = (text.match(/,/g) || []).length;
+    const dots = (text.match(/\./g) || []).length;
+
+    if (commas > 0 && dots > 0) {
+        const decimal = text.lastIndexOf(',') > text.lastIndexOf('.') ? ',' : '.';
+        const thousands = decimal === ',' ? '.' : ',';
+        return { text: text.split(thousands).join('').replace(decimal, '.'), interpretation: 'thousands' };
+    }
+    if (commas > 1) return { text: text.split(',').join(''), interpretation: 'thousands' };
+    if (dots > 1) return { text: text.split('.').join(''), interpretation: 'thousands' };
+    if (commas === 1) return { text: text.replace(',', '.'), interpretation: 'decimalComma' };
+    return { text, interpretation: 'number' };
+};
+
+/**
+ * Parses a ratio or count read from a spreadsheet cell.
+ * Accepts numeric cells, '25%', '25,5 %', '1.234,5' and '1,234.5'. Numeric cells with a
+ * percent number format hold a fraction (0.255 shown as 25.5%) and are converted to 25.5.
+ * @param raw The cell value.
+ * @param numberFormat The cell's number format (XLSX `z`), if known.
+ * @returns The value, or undefined for blank and unreadable cells (e.g. 'N/A'), with how it was read.
+ */
+export const parseLocaleNumber = (raw: unknown, numberFormat?: string): ParsedNumber => {
+    if (raw === null || raw === undefined || String(raw).trim() === '') {
+        return { value: undefined, interpretation: 'number' };
+    }
+
+    if (typeof raw === 'number') {
+        if (isNaN(raw)) return { value: undefined, interpretation: 'unparsed' };
+        if (numberFormat && numberFormat.includes('%')) {
+            // Round away the float noise of the multiplication, e.g. 0.255 * 100
+            return { value: Math.round(raw * 100 * 1e9) / 1e9, interpretation: 'percentFormat' };
+        }
+        return { value: raw, interpretation: 'number' };
+    }
+
+    let text = String(raw).replace(/\s/g, '');
+    const hasPercent = text.endsWith('%');
+    if (hasPercent) text = text.slice(0, -1);
+
+    const normalized = normalizeSeparators(text);
+    if (!NUMBER_PATTERN.test(normalized.text)) {
+        return { value: undefined, interpretation: 'unparsed' };
+    }
+    return {
+        value: parseFloat(normalized.text),
+        interpretation: hasPercent ? 'percentSign' : normalized.interpretation,
+    };
+};
+
+/**
+ * Records how a cell was read, if it was anything other than a plain number or blank.
+ * @param readings The map to add the reading to.
+ */
+export const recordReading = (readings: { [field: string]: NumberReading }, field: string, raw: unknown, parsed: ParsedNumber): void => {
+    if (parsed.interpretation === 'number') return;
+    readings[field] = { raw: String(raw), interpretation: parsed.interpretation };
+};
+
+/**
+ * Summarizes the conversions made while reading a dataset, e.g. for the status log.
+ * @returns A sentence such as "3 giá trị: Có ký hiệu % (2), Không đọc được (1)", or null if every value was a plain number.
+ */
+export const describeNumberReadings = (data: MergedData[]): string | null => {
+    const counts = new Map<NumberInterpretation, number>();
+    data.forEach(row => {
+        Object.values(row.nguon?.numbers || {}).forEach(reading => {
+            counts.set(reading.interpretation, (counts.get(reading.interpretation) || 0) + 1);
+        });
+    });
+    if (counts.size === 0) return null;
+    const total = Array.from(counts.values()).reduce((acc, n) => acc + n, 0);
+    const parts = Array.from(counts.entries()).map(([interpretation, n]) => `${INTERPRETATION_LABELS[interpretation]} (${n})`);
+    return `${total} giá trị: ${parts.join(', ')}`;
+};
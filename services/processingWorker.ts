@@ -0,0 +1,50 @@
+import { LogType, WorkerJob, WorkerJobResults, WorkerMessage } from '../types';
+import { generateMergedExcel, generateWordReports, readDataFileForReporting } from './fileProcessor';
+import { runBatchMerge } from './batchMerge';
+
+// Progress is posted at most this often, so a fast loop does not flood the UI with updates.
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: WorkerMessage, transfer: Transferable[] = []) => {
+    self.postMessage(message, { transfer });
+};
+
+const addLog = (message: string, logType: LogType) => post({ type: 'log', message, logType });
+
+let lastProgressAt = 0;
+const onProgress = (done: number, total: number) => {
+    const now = Date.now();
+    if (done < total && now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+    lastProgressAt = now;
+    post({ type: 'progress', done, total });
+};
+
+const runJob = async (job: WorkerJob): Promise<WorkerJobResults[WorkerJob['kind']]> => {
+    switch (job.kind) {
+        case 'merge':
+            return generateMergedExcel(job.mainFile, job.suppFile, addLog, job.options, onProgress);
+        case 'batchMerge':
+            return runBatchMerge(job.pairs, addLog, job.options, onProgress);
+        case 'readReportData':
+            return readDataFileForReporting(job.file, job.inspection, job.sheetNames, onProgress);
+        case 'reports':
+            return generateWordReports(job, onProgress);
+    }
+};
+
+// Each worker runs a single job; the page terminates it when the job ends or is cancelled.
+self.onmessage = async (event: MessageEvent<WorkerJob>) => {
+    try {
+        const result = await runJob(event.data);
+        // The merged workbook is handed over rather than copied
+        const transfer = 'buffer' in result ? [result.buffer] : [];
+        post({ type: 'done', result }, transfer);
+    } catch (error) {
+        console.error(error);
+        post({
+            type: 'error',
+            message: error instanceof Error ? error.message : 'Lỗi không xác định.',
+            name: error instanceof Error ? error.name : undefined,
+        });
+    }
+};
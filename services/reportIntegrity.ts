@@ -0,0 +1,250 @@
+import PizZip from 'pizzip';
+import { ManifestEntry, ManifestSignatureStatus, ReportManifest, ReportVerification, VerifiedField } from '../types';
+import { CHECKED_BOX, UNCHECKED_BOX } from './conclusionPolicy';
+import { computeVerificationCode } from './reportVerification';
+import { normalizeString } from './stringUtils';
+
+const STORAGE_KEY = 'baocaopro.signingKey';
+
+export const MANIFEST_FILE_NAME = 'Ban_ke_xac_thuc';
+const MANIFEST_FORMAT = 'baocaopro.manifest';
+
+export const SIGNING_KEY_FILE_NAME = 'Khoa_ky_ban_ke';
+const SIGNING_KEY_FORMAT = 'baocaopro.signingKey';
+const SIGNING_KEY_BYTES = 32;
+
+// Verification codes as computeVerificationCode writes them, e.g. '7KQ2-M9XA'.
+const CODE_PATTERN = /\b[0-9A-Z]{4}-[0-9A-Z]{4}\b/g;
+
+// How much of a conclusion's text must follow its checked box; templates may shorten the rest.
+const CONCLUSION_MATCH_LENGTH = 40;
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+/**
+ * Loads the key this browser signs manifests with, creating it on first use. Only a browser holding
+ * the same key can check those signatures.
+ */
+export const loadSigningKey = (): string => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return stored;
+    const key = toBase64(crypto.getRandomValues(new Uint8Array(SIGNING_KEY_BYTES)).buffer);
+    localStorage.setItem(STORAGE_KEY, key);
+    return key;
+};
+
+/**
+ * Packs the signing key into a file, so reports issued here can be verified on another machine.
+ */
+export const exportSigningKey = (key: string): Blob =>
+    new Blob([JSON.stringify({ format: SIGNING_KEY_FORMAT, key }, null, 2)], { type: 'application/json' });
+
+const isSigningKey = (key: unknown): key is string => {
+    if (typeof key !== 'string') return false;
+    try {
+        return atob(key).length === SIGNING_KEY_BYTES;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Replaces this browser's signing key with one exported by exportSigningKey. Manifests signed with
+ * the replaced key can no longer be checked here, unless it is imported again.
+ * @returns The imported key.
+ * @throws If the file does not hold a signing key.
+ */
+export const importSigningKey = async (file: File): Promise<string> => {
+    let content: unknown;
+    try {
+        content = JSON.parse(await file.text());
+    } catch {
+        throw new Error(`File '${file.name}' không phải file khóa ký (JSON).`);
+    }
+    const { format, key } = (content || {}) as { format?: unknown, key?: unknown };
+    if (format !== SIGNING_KEY_FORMAT || !isSigningKey(key)) {
+        throw new Error(`File '${file.name}' không chứa khóa ký của Báo cáo Pro.`);
+    }
+    localStorage.setItem(STORAGE_KEY, key);
+    return key;
+};
+
+/**
+ * Hashes data with SHA-256.
+ * @returns The hash as lowercase hex.
+ */
+export const sha256Hex = async (data: ArrayBuffer | Uint8Array | string): Promise<string> => {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+/**
+ * The fingerprint a manifest names its signing key by, e.g. '3FA9C201'.
+ */
+export const getSigningKeyId = async (key: string): Promise<string> => (await sha256Hex(key)).slice(0, 8).toUpperCase();
+
+const hmac = async (key: string, text: string): Promise<string> => {
+    const cryptoKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return toBase64(await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(text)));
+};
+
+// The signed text: the manifest as serialized, without its signature.
+const signedText = ({ signature, ...manifest }: ReportManifest) => JSON.stringify(manifest);
+
+/**
+ * Builds a batch's manifest and signs it.
+ * @param details Everything but the format marker and the signature.
+ */
+export const buildSignedManifest = async (details: Omit<ReportManifest, 'format' | 'version' | 'keyId' | 'signature'>, key: string): Promise<ReportManifest> => {
+    const manifest: ReportManifest = { format: MANIFEST_FORMAT, version: 1, ...details, keyId: await getSigningKeyId(key) };
+    return { ...manifest, signature: await hmac(key, signedText(manifest)) };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isManifestEntry = (value: unknown): value is ManifestEntry =>
+    isObject(value)
+    && ['path', 'reportLabel', 'verificationCode', 'student', 'topic', 'conclusion', 'conclusionText', 'sha256'].every(key => typeof value[key] === 'string')
+    && typeof value.reportNumber === 'number'
+    && typeof value.tv === 'number';
+
+const isReportManifest = (value: unknown): value is ReportManifest =>
+    isObject(value)
+    && value.format === MANIFEST_FORMAT
+    && ['batchId', 'issuedAt', 'documentType', 'checkDate', 'policy'].every(key => typeof value[key] === 'string')
+    && typeof value.version === 'number'
+    && typeof value.checkRound === 'number'
+    && (value.keyId === undefined || typeof value.keyId === 'string')
+    && (value.signature === undefined || typeof value.signature === 'string')
+    && Array.isArray(value.reports) && value.reports.every(isManifestEntry);
+
+/**
+ * Reads a manifest file.
+ * @throws If the file is not a report manifest.
+ */
+export const readManifest = async (file: File): Promise<ReportManifest> => {
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(await file.text());
+    } catch (error) {
+        console.error(error);
+        manifest = null;
+    }
+    if (!isReportManifest(manifest)) {
+        throw new Error(`File '${file.name}' không phải bản kê xác thực báo cáo.`);
+    }
+    return manifest;
+};
+
+const checkSignature = async (manifest: ReportManifest, key: string): Promise<ManifestSignatureStatus> => {
+    if (!manifest.signature) return 'unsigned';
+    if (manifest.keyId !== await getSigningKeyId(key)) return 'otherKey';
+    return await hmac(key, signedText(manifest)) === manifest.signature ? 'valid' : 'invalid';
+};
+
+const decodeXmlText = (xml: string) => xml
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/**
+ * Extracts the text of a .docx: the body, then the headers and footers, one line per paragraph.
+ * @throws If the file is not a Word document.
+ */
+export const extractDocumentText = (buffer: ArrayBuffer): string => {
+    let zip: PizZip;
+    try {
+        zip = new PizZip(buffer);
+    } catch (error) {
+        console.error(error);
+        throw new Error('File cần kiểm tra không phải file Word (.docx).');
+    }
+    const parts = Object.keys(zip.files).filter(name => /^word\/(document|header\d*|footer\d*)\.xml$/.test(name)).sort();
+    if (!parts.includes('word/document.xml')) throw new Error('File cần kiểm tra không phải file Word (.docx).');
+    return parts.map(name => decodeXmlText(zip.file(name)!.asText())).join('\n');
+};
+
+// Whether the text after a checked box, up to the next box, starts with the conclusion's text.
+const showsConclusion = (text: string, conclusionText: string): boolean => {
+    const expected = normalizeString(conclusionText).slice(0, CONCLUSION_MATCH_LENGTH);
+    if (!expected) return true;
+    // Templates without boxes print the conclusion's text alone
+    if (!text.includes(CHECKED_BOX) && !text.includes(UNCHECKED_BOX)) return normalizeString(text).includes(expected);
+    return text.split(CHECKED_BOX).slice(1).some(segment => normalizeString(segment.split(UNCHECKED_BOX)[0]).includes(expected));
+};
+
+// Compares the values issued for a report with the text of a document.
+const checkFields = (entry: ManifestEntry, text: string | null): VerifiedField[] => {
+    const normalizedText = text === null ? '' : normalizeString(text);
+    const contains = (value: string) => text === null || normalizedText.includes(normalizeString(value));
+    const tv = entry.tv.toFixed(2);
+    return [
+        { label: 'Mã xác thực', expected: entry.verificationCode, found: text === null || text.includes(entry.verificationCode) },
+        ...(entry.reportLabel ? [{ label: 'Số báo cáo', expected: entry.reportLabel, found: contains(entry.reportLabel) }] : []),
+        { label: 'Học viên', expected: entry.student, found: contains(entry.student) },
+        { label: 'Tên đề tài', expected: entry.topic, found: contains(entry.topic) },
+        // Matched as written, as digits alone would match any other number
+        { label: 'Tỉ lệ TV', expected: tv, found: text === null || text.includes(tv) || text.includes(tv.replace('.', ',')) },
+        { label: 'Kết luận', expected: entry.conclusionText, found: text === null || showsConclusion(text, entry.conclusionText) },
+    ];
+};
+
+/**
+ * Finds the manifest entry a modified document was issued as: by the verification code it shows,
+ * or else by the entry most of whose fields it still shows.
+ */
+const matchEntry = (manifest: ReportManifest, text: string): ManifestEntry | undefined => {
+    const codes = new Set(text.match(CODE_PATTERN) || []);
+    const byCode = manifest.reports.find(entry => codes.has(entry.verificationCode));
+    if (byCode) return byCode;
+    const normalizedText = normalizeString(text);
+    return manifest.reports
+        .map(entry => ({ entry, score: [entry.student, entry.topic].filter(value => value && normalizedText.includes(normalizeString(value))).length }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)[0]?.entry;
+};
+
+/**
+ * Checks a report against the manifest of its batch: whether it is one of the documents issued, unchanged,
+ * and which of its key fields no longer show the values issued. A report is only 'authentic' against a
+ * manifest this browser signed.
+ * @param key This browser's signing key.
+ */
+export const verifyReport = async (reportFile: File, manifestFile: File, key: string): Promise<ReportVerification> => {
+    const manifest = await readManifest(manifestFile);
+    const signature = await checkSignature(manifest, key);
+    const buffer = await reportFile.arrayBuffer();
+    const hash = await sha256Hex(buffer);
+
+    const unchanged = manifest.reports.find(entry => entry.sha256 === hash);
+    const text = unchanged ? null : extractDocumentText(buffer);
+    const entry = unchanged || matchEntry(manifest, text!);
+    const codeConsistent = !!entry && computeVerificationCode(manifest.batchId, {
+        reportNumber: entry.reportNumber,
+        topic: entry.topic,
+        student: entry.student,
+        tv: entry.tv,
+        conclusion: entry.conclusion,
+    }) === entry.verificationCode;
+
+    // Only a manifest signed with this browser's key vouches for a matching hash
+    const verdict = signature === 'invalid' || (entry && !codeConsistent)
+        ? 'manifestTampered'
+        : !entry ? 'notInManifest' : !unchanged ? 'modified' : signature === 'valid' ? 'authentic' : 'unverifiable';
+    return {
+        verdict,
+        signature,
+        keyId: manifest.keyId,
+        entry,
+        hashMatches: !!unchanged,
+        codeConsistent,
+        fields: entry ? checkFields(entry, text) : [],
+    };
+};
@@ -0,0 +1,100 @@
+import { ReportFolderGrouping, ReportNaming } from '../types';
+
+export const DEFAULT_REPORT_NAMING: ReportNaming = { pattern: '', grouping: 'none', archiveFolders: false };
+
+// Folder and dashboard row of the projects without a supervisor.
+export const NO_SUPERVISOR_LABEL = 'Chưa có người hướng dẫn';
+
+// Tokens a filename pattern may use, with what they are replaced by.
+export const FILE_NAME_TOKENS: { token: string, label: string }[] = [
+    { token: 'stt', label: 'Số thứ tự báo cáo' },
+    { token: 'hoten_hv', label: 'Họ tên học viên' },
+    { token: 'ma_hv', label: 'Mã học viên' },
+    { token: 'ten_detai', label: 'Tên đề tài' },
+    { token: 'nguoi_huongdan', label: 'Người hướng dẫn' },
+    { token: 'ket_luan', label: 'Kết luận' },
+    { token: 'tien_to', label: 'Tiền tố của loại tài liệu' },
+    { token: 'sheet', label: 'Sheet nguồn' },
+];
+
+export const FOLDER_GROUPINGS: { grouping: ReportFolderGrouping, label: string }[] = [
+    { grouping: 'none', label: 'Không chia thư mục' },
+    { grouping: 'supervisor', label: 'Theo người hướng dẫn' },
+    { grouping: 'conclusion', label: 'Theo kết luận' },
+    { grouping: 'sheet', label: 'Theo sheet nguồn' },
+];
+
+// A long topic title stays readable, and the whole path stays well under the 255 characters most systems allow.
+const MAX_TOKEN_LENGTH = 60;
+const MAX_NAME_LENGTH = 150;
+
+// Names Windows will not create, whatever the extension.
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+
+/**
+ * Makes a value safe to use in a file or folder name: characters not allowed on Windows, macOS or
+ * Linux become '_', whitespace is collapsed, trailing dots and spaces are dropped and the length is capped.
+ * @param maxLength Maximum length in characters.
+ */
+export const sanitizeFileNamePart = (value: string, maxLength: number = MAX_TOKEN_LENGTH): string => {
+    const cleaned = value
+        .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_')
+        .replace(/\s+/g, ' ')
+        .trim();
+    // Cut by code point so a character is never split in half
+    const truncated = Array.from(cleaned).slice(0, maxLength).join('').replace(/[. ]+$/, '');
+    return RESERVED_NAMES.test(truncated) ? `${truncated}_` : truncated;
+};
+
+/**
+ * Lists the tokens of a pattern that are not in FILE_NAME_TOKENS.
+ */
+export const findUnknownTokens = (pattern: string): string[] => {
+    const known = new Set(FILE_NAME_TOKENS.map(t => t.token));
+    return Array.from(pattern.matchAll(/\{([^{}]*)\}/g), match => match[1]).filter(token => !known.has(token));
+};
+
+/**
+ * Fills a filename pattern. Each token is sanitized on its own, so a '/' in a topic title
+ * cannot create a folder.
+ * @param values Token values, by token name.
+ * @returns The filename without extension, or '' if the pattern produced nothing.
+ */
+export const renderFileNamePattern = (pattern: string, values: { [token: string]: string | undefined }): string => {
+    const name = pattern.replace(/\{([^{}]*)\}/g, (_, token: string) => sanitizeFileNamePart(values[token] || ''));
+    // Separators left dangling by an empty token are dropped
+    return sanitizeFileNamePart(name.replace(/^[\s_-]+|[\s_-]+$/g, ''), MAX_NAME_LENGTH);
+};
+
+/**
+ * Returns the folder a report goes into, or '' when reports are not grouped.
+ * @param values The values the groupings are taken from.
+ */
+export const getReportFolder = (grouping: ReportFolderGrouping, values: { nguoi_huongdan?: string, ket_luan: string, sheet?: string }): string => {
+    switch (grouping) {
+        case 'supervisor':
+            return sanitizeFileNamePart(values.nguoi_huongdan || '') || NO_SUPERVISOR_LABEL;
+        case 'conclusion':
+            return sanitizeFileNamePart(values.ket_luan);
+        case 'sheet':
+            return sanitizeFileNamePart(values.sheet || '') || 'Không rõ sheet';
+        case 'none':
+            return '';
+    }
+};
+
+/**
+ * Reserves a path inside the ZIP, numbering the name (_2, _3, ...) if it is already taken.
+ * Names are compared without case, as Windows and macOS do when the ZIP is extracted.
+ * @param used Paths reserved so far, lower-cased; the returned path is added to it.
+ * @returns The path, e.g. 'Nguyễn Văn A/01_Trần B.docx'.
+ */
+export const claimUniquePath = (used: Set<string>, folder: string, name: string, extension: string): string => {
+    const prefix = folder ? `${folder}/` : '';
+    let path = `${prefix}${name}${extension}`;
+    for (let counter = 2; used.has(path.toLowerCase()); counter++) {
+        path = `${prefix}${name}_${counter}${extension}`;
+    }
+    used.add(path.toLowerCase());
+    return path;
+};
@@ -0,0 +1,93 @@
+import PizZip from 'pizzip';
+import Docxtemplater from 'docxtemplater';
+import { PreviewBlock, PreviewRun } from '../types';
+
+const ALIGNMENTS: { [jc: string]: 'left' | 'center' | 'right' | 'justify' } = {
+    left: 'left',
+    start: 'left',
+    center: 'center',
+    right: 'right',
+    end: 'right',
+    both: 'justify',
+    distribute: 'justify',
+};
+
+/**
+ * Fills a Word template with one report's data, exactly as generateWordReports does.
+ * @returns The rendered main document part (word/document.xml).
+ */
+export const renderReportDocumentXml = async (templateFile: File, templateData: { [key: string]: any }): Promise<string> => {
+    const doc = new Docxtemplater(new PizZip(await templateFile.arrayBuffer()), {
+        paragraphLoop: true,
+        linebreaks: true,
+    });
+    doc.setData(templateData);
+    doc.render();
+    return doc.getZip().file('word/document.xml')!.asText();
+};
+
+const childrenNamed = (element: Element, localName: string): Element[] =>
+    Array.from(element.children).filter(child => child.localName === localName);
+
+// <w:b/> is on; <w:b w:val="0"/> or "false" is off.
+const isToggleOn = (properties: Element | undefined, localName: string): boolean => {
+    const toggle = properties && childrenNamed(properties, localName)[0];
+    if (!toggle) return false;
+    const value = toggle.getAttribute('w:val');
+    return value !== '0' && value !== 'false' && value !== 'none';
+};
+
+const readRuns = (container: Element): PreviewRun[] => {
+    const runs: PreviewRun[] = [];
+    Array.from(container.children).forEach(child => {
+        // Hyperlinks, inserted text and content controls wrap ordinary runs
+        if (['hyperlink', 'ins', 'smartTag', 'sdt', 'sdtContent'].includes(child.localName)) {
+            runs.push(...readRuns(child));
+            return;
+        }
+        if (child.localName !== 'r') return;
+        const properties = childrenNamed(child, 'rPr')[0];
+        const format = { bold: isToggleOn(properties, 'b'), italic: isToggleOn(properties, 'i'), underline: isToggleOn(properties, 'u') };
+        let text = '';
+        Array.from(child.children).forEach(part => {
+            if (part.localName === 't') text += part.textContent || '';
+            else if (part.localName === 'tab') text += '\t';
+            else if (part.localName === 'br' || part.localName === 'cr') text += '\n';
+        });
+        if (text) runs.push({ text, ...format });
+    });
+    return runs;
+};
+
+const readBlocks = (container: Element): PreviewBlock[] => {
+    const blocks: PreviewBlock[] = [];
+    Array.from(container.children).forEach(child => {
+        if (child.localName === 'p') {
+            const jc = childrenNamed(childrenNamed(child, 'pPr')[0] || child, 'jc')[0]?.getAttribute('w:val');
+            blocks.push({ type: 'paragraph', align: jc ? ALIGNMENTS[jc] : undefined, runs: readRuns(child) });
+        } else if (child.localName === 'tbl') {
+            blocks.push({
+                type: 'table',
+                rows: childrenNamed(child, 'tr').map(row => ({
+                    cells: childrenNamed(row, 'tc').map(cell => {
+                        const span = childrenNamed(childrenNamed(cell, 'tcPr')[0] || cell, 'gridSpan')[0]?.getAttribute('w:val');
+                        return { colSpan: Number(span) || 1, blocks: readBlocks(cell) };
+                    }),
+                })),
+            });
+        } else if (child.localName === 'sdt' || child.localName === 'sdtContent') {
+            blocks.push(...readBlocks(child));
+        }
+    });
+    return blocks;
+};
+
+/**
+ * Reduces a rendered document.xml to paragraphs and tables for the HTML preview.
+ * Images, headers, footers and page layout are not shown.
+ */
+export const parseDocumentXml = (xml: string): PreviewBlock[] => {
+    const xmlDoc = new DOMParser().parseFromString(xml, 'application/xml');
+    const body = xmlDoc.getElementsByTagNameNS('*', 'body')[0];
+    return body ? readBlocks(body) : [];
+};
@@ -0,0 +1,33 @@
+import { ConclusionKey } from '../types';
+
+// Crockford's base 32: no I, L, O or U, which are easily misread.
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Creates the id of a new batch, e.g. 'MH3K2Q1ZX7B4'. It makes the verification codes of different batches differ
+ * even for identical reports.
+ */
+export const createBatchId = (): string =>
+    `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`.toUpperCase();
+
+// 32-bit FNV-1a over the UTF-16 code units of a string.
+const fnv1a = (text: string, seed: number): number => {
+    let hash = seed;
+    for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return hash;
+};
+
+/**
+ * Derives a report's verification code from its batch and the contents it vouches for, e.g. '7KQ2-M9XA'.
+ * The same inputs always give the same code, so a code can be checked against the batch manifest.
+ * This identifies a report; it is not a signature.
+ */
+export const computeVerificationCode = (batchId: string, report: { reportNumber: number, topic: string, student: string, tv?: number, conclusion: ConclusionKey }): string => {
+    const text = [batchId, report.reportNumber, report.topic.trim(), report.student.trim(), (report.tv || 0).toFixed(2), report.conclusion].join('\u001f');
+    // 40 bits: 20 from each of two differently seeded hashes
+    const bits = [fnv1a(text, 0x811c9dc5), fnv1a(text, 0x050c5d1f)].map(hash => hash & 0xfffff);
+    const chars = bits.flatMap(value => [15, 10, 5, 0].map(shift => CODE_ALPHABET[(value >>> shift) & 31]));
+    return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+};
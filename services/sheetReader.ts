@@ -0,0 +1,108 @@
+import * as XLSX from 'xlsx';
+import { ParsedNumber } from '../types';
+import { parseLocaleNumber } from './numberParser';
+
+/**
+ * Reads a file (Excel or CSV) into an XLSX workbook.
+ * This version is robust and uses XLSX for both file types.
+ * @param file The file to read.
+ * @returns A promise that resolves to the parsed workbook.
+ */
+export const readWorkbook = (file: File): Promise<XLSX.WorkBook> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const data = e.target?.result;
+                // cellNF keeps number formats, to recognise percent-formatted cells; raw keeps CSV
+                // text such as '25,5%' as written, since the CSV reader would misread it
+                resolve(XLSX.read(data, { type: 'array', cellDates: false, cellNF: true, raw: true }));
+            } catch (error) {
+                reject(error);
+            }
+        };
+        reader.onerror = (error) => reject(error);
+        
+        // Read as ArrayBuffer for both Excel and CSV. XLSX handles both.
+        reader.readAsArrayBuffer(file);
+    });
+};
+
+// Worksheet row index of each row returned by sheetToArray, which drops empty rows.
+const sheetRowNumbers = new WeakMap<object, number>();
+// Merged-cell ranges of the sheet each array returned by sheetToArray was read from.
+const sheetMerges = new WeakMap<object, XLSX.Range[]>();
+// Number formats of the numeric cells of each row read by sheetToArray, by column index.
+const sheetNumberFormats = new WeakMap<object, Map<number, string>>();
+
+/**
+ * Returns the content of one worksheet as an array of arrays.
+ * Rows are read from A1 so that column indexes match the sheet's column letters.
+ * @param workbook The parsed workbook.
+ * @param sheetName The sheet to read; defaults to the first sheet.
+ * @returns A 2D array without completely empty rows.
+ */
+export const sheetToArray = (workbook: XLSX.WorkBook, sheetName: string = workbook.SheetNames[0]): (string|null)[][] => {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet) {
+        throw new Error(`Không tìm thấy sheet '${sheetName}'.`);
+    }
+    if (!worksheet['!ref']) return [];
+    const range = XLSX.utils.decode_range(worksheet['!ref']);
+    const json: (string|null)[][] = XLSX.utils.sheet_to_json(worksheet, {
+        header: 1,
+        defval: null,
+        blankrows: true,
+        range: { s: { r: 0, c: 0 }, e: range.e },
+    });
+    json.forEach((row, index) => {
+        sheetRowNumbers.set(row, index);
+        const formats = new Map<number, string>();
+        row.forEach((value, colIndex) => {
+            if (typeof value !== 'number') return;
+            const format = worksheet[XLSX.utils.encode_cell({ r: index, c: colIndex })]?.z;
+            if (format && format !== 'General') formats.set(colIndex, String(format));
+        });
+        if (formats.size > 0) sheetNumberFormats.set(row, formats);
+    });
+    
+    // Filter out completely empty rows which can sometimes be read by the library
+    const rows = json.filter(row => row.some(cell => cell !== null && String(cell).trim() !== ''));
+    sheetMerges.set(rows, worksheet['!merges'] || []);
+    return rows;
+};
+
+/**
+ * Builds a reference such as "[File.xlsx]Sheet1!B5" to a cell of a row read by sheetToArray.
+ * @param source The "[file]sheet" prefix, or undefined when references are not needed.
+ */
+export const cellRef = (source: string | undefined, row: unknown[] | undefined, colIndex: number | undefined): string | undefined => {
+    if (!source || !row || colIndex === undefined || colIndex < 0) return undefined;
+    const rowIndex = sheetRowNumbers.get(row);
+    if (rowIndex === undefined) return undefined;
+    return `${source}!${XLSX.utils.encode_cell({ r: rowIndex, c: colIndex })}`;
+};
+
+/**
+ * Builds the "[file]sheet" prefix used by cellRef.
+ */
+export const sourceLabel = (file: File, sheetName: string): string => `[${file.name}]${sheetName}`;
+
+/**
+ * Returns the worksheet row index of a row read by sheetToArray.
+ */
+export const getSheetRowNumber = (row: unknown[]): number | undefined => sheetRowNumbers.get(row);
+
+/**
+ * Returns the merged-cell ranges of the sheet an array returned by sheetToArray was read from.
+ */
+export const getSheetMerges = (rows: unknown[][]): XLSX.Range[] => sheetMerges.get(rows) || [];
+
+/**
+ * Parses a numeric cell of a row read by sheetToArray, taking the cell's number format into account.
+ */
+export const readNumberCell = (row: unknown[] | undefined, colIndex: number): ParsedNumber & { raw: unknown } => {
+    if (!row || colIndex < 0) return { raw: undefined, value: undefined, interpretation: 'number' };
+    const raw = row[colIndex];
+    return { raw, ...parseLocaleNumber(raw, sheetNumberFormats.get(row)?.get(colIndex)) };
+};
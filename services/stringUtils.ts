@@ -0,0 +1,17 @@
+/**
+ * Normalizes a string by removing Vietnamese accents, converting to lowercase, 
+ * and removing special characters and spaces.
+ * @param str The string to normalize.
+ * @returns The normalized string.
+ */
+export const normalizeString = (str: any): string => {
+    if (typeof str !== 'string' || !str) return '';
+    // First, normalize to decompose combined characters, then remove diacritics
+    let normalized = str.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    // Then, convert to lower case
+    normalized = normalized.toLowerCase();
+    // CRITICAL: Specifically handle the Vietnamese 'đ' character, converting it to 'd'
+    normalized = normalized.replace(/đ/g, 'd');
+    // Finally, remove all remaining non-alphanumeric characters
+    return normalized.replace(/[^a-z0-9]/g, '');
+};
@@ -0,0 +1,277 @@
+import { ColumnMapping, SupplementaryEntry, SupplementaryLayout } from '../types';
+import { normalizeString } from './stringUtils';
+import { getHeaders } from './columnMapping';
+import { cellRef, readNumberCell } from './sheetReader';
+import { recordReading } from './numberParser';
+
+type Cell = string | number | null | undefined;
+
+/**
+ * Reads a supplementary file laid out in one particular way into project entries.
+ */
+export interface SupplementaryAdapter {
+    layout: SupplementaryLayout;
+    label: string;
+    /** Whether the headers clearly belong to this layout. */
+    matches: (headers: string[], mapping: ColumnMapping) => boolean;
+    /**
+     * @param data Raw 2D array from the supplementary file.
+     * @param mapping Column mapping of the sheet.
+     * @param source "[file]sheet" prefix for the cell references kept on each entry.
+     */
+    read: (data: Cell[][], mapping: ColumnMapping, source?: string) => SupplementaryEntry[];
+}
+
+// 'Tỉ lệ 1', 'Tỷ lệ 2': one column per project in the transposed layout.
+const RATIO_COLUMN_PATTERN = /^(tile|tyle)(\d+)$/;
+// 'C1', 'Chương 2', 'Chapter 3': one column per chapter in the row-per-project layout.
+const CHAPTER_COLUMN_PATTERN = /^(c|chuong|chapter)(\d+)$/;
+// Chapter labels that carry the whole-document ratio in the long layout.
+const TV_LABELS = ['tv', 'tong', 'toanvan', 'total', 'overall'];
+
+/**
+ * Finds the headers matching a numbered pattern and sorts them by their number.
+ */
+const numberedColumns = (headers: string[], pattern: RegExp): { header: string, index: number, num: number }[] => {
+    return headers
+        .map((header, index) => ({ header, index, match: normalizeString(header).match(pattern) }))
+        .filter(c => c.match)
+        .map(c => ({ header: c.header, index: c.index, num: parseInt(c.match![2], 10) }))
+        .sort((a, b) => a.num - b.num);
+};
+
+const readText = (row: Cell[] | undefined, colIndex: number): string | undefined => {
+    if (!row || colIndex === -1) return undefined;
+    const text = String(row[colIndex] ?? '').trim();
+    return text || undefined;
+};
+
+/**
+ * Reads the transposed layout: row N carries the TV (and optionally the topic/student keys)
+ * of project N, while column 'Tỉ lệ N' carries that project's chapter ratios read vertically.
+ */
+const readTransposed = (dfSupp: Cell[][], mapping: ColumnMapping, source?: string): SupplementaryEntry[] => {
+    // 1. Get headers and data rows from supplementary file
+    const { headerRowIndex, columns } = mapping;
+    const headers = getHeaders(dfSupp, headerRowIndex);
+    const dataRows = dfSupp.slice(headerRowIndex + 1);
+
+    // 2. Find the TV column index (this is read row-wise, per project)
+    const tvColIndex = columns.tv ?? -1;
+
+    // 3. Find the optional key columns used to join entries to main projects
+    const topicColIndex = columns.tendetai ?? -1;
+    const nameColIndex = columns.hotenhv ?? -1;
+
+    // 4. Find and sort all project ratio columns (e.g., 'Tỉ lệ 1', 'Tỉ lệ 2')
+    const projectRatioColumns = numberedColumns(headers, RATIO_COLUMN_PATTERN);
+    
+    if (projectRatioColumns.length === 0 && tvColIndex === -1) {
+         throw new Error("File bổ sung không tìm thấy cột 'TV' hoặc các cột tỉ lệ (ví dụ: 'Tỉ lệ 1', 'Tỉ lệ 2', ...).");
+    }
+
+    // 5. Build one entry per project: rows that carry a TV or a key, plus every ratio column
+    const entries: SupplementaryEntry[] = [];
+    const entryCount = Math.max(dataRows.length, projectRatioColumns.length);
+    for (let projectIndex = 0; projectIndex < entryCount; projectIndex++) {
+        const row = dataRows[projectIndex];
+        const entry: SupplementaryEntry = {
+            index: projectIndex,
+            tendetai: readText(row, topicColIndex),
+            hotenhv: readText(row, nameColIndex),
+            chapters: {},
+            cells: {},
+            numbers: {},
+        };
+        const cells = entry.cells!;
+        const numbers = entry.numbers!;
+        const tv = readNumberCell(row, tvColIndex);
+        entry.tv = tv.value;
+        recordReading(numbers, 'tv', tv.raw, tv);
+        const tvCell = cellRef(source, row, tvColIndex);
+        if (tvCell) cells.tv = tvCell;
+        const topicCell = cellRef(source, row, topicColIndex);
+        if (topicCell) cells.tendetai = topicCell;
+
+        // Assign Chapter values by reading vertically from the corresponding 'Tỉ lệ X' column
+        const ratioColumnForProject = projectRatioColumns[projectIndex];
+        if (ratioColumnForProject) {
+            dataRows.forEach((chapterRow, chapterIndex) => {
+                const chapter = readNumberCell(chapterRow, ratioColumnForProject.index);
+                const field = `c${chapterIndex + 1}`;
+                recordReading(numbers, field, chapter.raw, chapter);
+                const chapterCell = cellRef(source, chapterRow, ratioColumnForProject.index);
+                if (chapter.value !== undefined) {
+                    entry.chapters[field] = chapter.value;
+                }
+                if (chapterCell && (chapter.value !== undefined || numbers[field])) cells[field] = chapterCell;
+            });
+        }
+
+        if (ratioColumnForProject || entry.tv !== undefined || entry.tendetai || entry.hotenhv) {
+            entries.push(entry);
+        }
+    }
+    
+    return entries;
+};
+
+/**
+ * Reads the row-per-project layout: each row is a project with its TV and
+ * chapter ratios in columns such as 'C1', 'C2' or 'Chương 1'.
+ */
+const readRowPerProject = (data: Cell[][], mapping: ColumnMapping, source?: string): SupplementaryEntry[] => {
+    const { headerRowIndex, columns } = mapping;
+    const chapterColumns = numberedColumns(getHeaders(data, headerRowIndex), CHAPTER_COLUMN_PATTERN);
+    const tvColIndex = columns.tv ?? -1;
+    const topicColIndex = columns.tendetai ?? -1;
+    const nameColIndex = columns.hotenhv ?? -1;
+
+    if (chapterColumns.length === 0 && tvColIndex === -1) {
+        throw new Error("File bổ sung không tìm thấy cột 'TV' hoặc các cột chương (ví dụ: 'C1', 'Chương 1', ...).");
+    }
+
+    const entries: SupplementaryEntry[] = [];
+    data.slice(headerRowIndex + 1).forEach(row => {
+        const entry: SupplementaryEntry = {
+            index: entries.length,
+            tendetai: readText(row, topicColIndex),
+            hotenhv: readText(row, nameColIndex),
+            chapters: {},
+            cells: {},
+            numbers: {},
+        };
+        const cells = entry.cells!;
+        const numbers = entry.numbers!;
+        const addNumber = (field: string, colIndex: number) => {
+            const parsed = readNumberCell(row, colIndex);
+            recordReading(numbers, field, parsed.raw, parsed);
+            const ref = cellRef(source, row, colIndex);
+            if (ref && (parsed.value !== undefined || numbers[field])) cells[field] = ref;
+            return parsed.value;
+        };
+
+        entry.tv = addNumber('tv', tvColIndex);
+        chapterColumns.forEach(({ index, num }) => {
+            const value = addNumber(`c${num}`, index);
+            if (value !== undefined) entry.chapters[`c${num}`] = value;
+        });
+        const topicCell = cellRef(source, row, topicColIndex);
+        if (topicCell) cells.tendetai = topicCell;
+
+        if (entry.tv !== undefined || Object.keys(entry.chapters).length > 0 || entry.tendetai || entry.hotenhv) {
+            entries.push(entry);
+        }
+    });
+    return entries;
+};
+
+/**
+ * Reads the long layout: one row per chapter of a project, with the project's topic and/or
+ * student, the chapter and its ratio. The TV comes from a 'TV' column or from a row whose
+ * chapter is labelled e.g. 'TV' or 'Tổng'.
+ */
+const readLong = (data: Cell[][], mapping: ColumnMapping, source?: string): SupplementaryEntry[] => {
+    const { headerRowIndex, columns } = mapping;
+    const chapterColIndex = columns.chuong ?? -1;
+    const ratioColIndex = columns.tile ?? -1;
+    const tvColIndex = columns.tv ?? -1;
+    const topicColIndex = columns.tendetai ?? -1;
+    const nameColIndex = columns.hotenhv ?? -1;
+
+    if (chapterColIndex === -1 || ratioColIndex === -1) {
+        throw new Error("File bổ sung dạng dọc cần cột 'Chương' và cột 'Tỉ lệ'. Vui lòng ghép cột thủ công ở mục 'Ghép cột'.");
+    }
+    if (topicColIndex === -1 && nameColIndex === -1) {
+        throw new Error("File bổ sung dạng dọc cần cột 'Tên đề tài' hoặc 'Họ tên HV' để nhóm các chương theo đề tài.");
+    }
+
+    // Rows are grouped by project in order of first appearance
+    const entriesByKey = new Map<string, SupplementaryEntry>();
+    data.slice(headerRowIndex + 1).forEach(row => {
+        const tendetai = readText(row, topicColIndex);
+        const hotenhv = readText(row, nameColIndex);
+        if (!tendetai && !hotenhv) return;
+
+        const key = `${normalizeString(tendetai)}|${normalizeString(hotenhv)}`;
+        let entry = entriesByKey.get(key);
+        if (!entry) {
+            entry = { index: entriesByKey.size, tendetai, hotenhv, chapters: {}, cells: {}, numbers: {} };
+            const topicCell = cellRef(source, row, topicColIndex);
+            if (topicCell) entry.cells!.tendetai = topicCell;
+            entriesByKey.set(key, entry);
+        }
+        const cells = entry.cells!;
+        const numbers = entry.numbers!;
+
+        if (tvColIndex !== -1 && entry.tv === undefined) {
+            const tv = readNumberCell(row, tvColIndex);
+            recordReading(numbers, 'tv', tv.raw, tv);
+            entry.tv = tv.value;
+            const tvCell = cellRef(source, row, tvColIndex);
+            if (tvCell && (tv.value !== undefined || numbers.tv)) cells.tv = tvCell;
+        }
+
+        const chapterLabel = normalizeString(String(row[chapterColIndex] ?? ''));
+        const chapterNum = String(row[chapterColIndex] ?? '').match(/\d+/);
+        const field = TV_LABELS.includes(chapterLabel)
+            ? 'tv'
+            : `c${chapterNum ? parseInt(chapterNum[0], 10) : Object.keys(entry.chapters).length + 1}`;
+        const ratio = readNumberCell(row, ratioColIndex);
+        recordReading(numbers, field, ratio.raw, ratio);
+        const ratioCell = cellRef(source, row, ratioColIndex);
+        if (ratioCell && (ratio.value !== undefined || numbers[field])) cells[field] = ratioCell;
+        if (ratio.value === undefined) return;
+        if (field === 'tv') {
+            entry.tv = ratio.value;
+        } else {
+            entry.chapters[field] = ratio.value;
+        }
+    });
+    return Array.from(entriesByKey.values());
+};
+
+/**
+ * The supported supplementary layouts, in the order they are tried when detecting.
+ */
+export const SUPPLEMENTARY_ADAPTERS: SupplementaryAdapter[] = [
+    {
+        layout: 'transposed',
+        label: "Chuyển vị (TV + 'Tỉ lệ 1..N' theo cột dọc)",
+        matches: (headers) => numberedColumns(headers, RATIO_COLUMN_PATTERN).length > 0,
+        read: readTransposed,
+    },
+    {
+        layout: 'rowPerProject',
+        label: 'Mỗi dòng một đề tài (TV, C1..Cn)',
+        matches: (headers) => numberedColumns(headers, CHAPTER_COLUMN_PATTERN).length > 0,
+        read: readRowPerProject,
+    },
+    {
+        layout: 'long',
+        label: 'Dạng dọc (đề tài, chương, tỉ lệ)',
+        matches: (_, mapping) => mapping.columns.chuong !== undefined && mapping.columns.tile !== undefined,
+        read: readLong,
+    },
+];
+
+/**
+ * Returns the adapter for a layout.
+ */
+export const getSupplementaryAdapter = (layout: SupplementaryLayout): SupplementaryAdapter => {
+    return SUPPLEMENTARY_ADAPTERS.find(a => a.layout === layout) || SUPPLEMENTARY_ADAPTERS[0];
+};
+
+/**
+ * Recognises the layout of a supplementary sheet from its headers.
+ * A sheet with only a TV column is read with the transposed layout, as before adapters existed.
+ * @param data Raw 2D array from the supplementary file.
+ * @param mapping Column mapping of the sheet.
+ * @returns The layout, or null if the headers do not look like a supplementary file at all.
+ */
+export const detectSupplementaryLayout = (data: Cell[][], mapping: ColumnMapping): SupplementaryLayout | null => {
+    const headers = getHeaders(data, mapping.headerRowIndex);
+    const adapter = SUPPLEMENTARY_ADAPTERS.find(a => a.matches(headers, mapping));
+    if (adapter) return adapter.layout;
+    return mapping.columns.tv !== undefined ? 'transposed' : null;
+};
@@ -0,0 +1,251 @@
+import PizZip from 'pizzip';
+import Docxtemplater from 'docxtemplater';
+import { IssueSeverity, TemplateInspection, TemplateIssue, TemplateTag } from '../types';
+import { normalizeString } from './stringUtils';
+
+interface TemplateField {
+    name: string;
+    label: string;
+    loopFields?: string[];
+}
+
+// The data buildReportTemplateData sets for each report; keep the two in step.
+export const TEMPLATE_FIELDS: TemplateField[] = [
+    { name: 'hoten_hv', label: 'Họ tên học viên' },
+    { name: 'ma_hv', label: 'Mã học viên' },
+    { name: 'lop', label: 'Lớp' },
+    { name: 'email', label: 'Email' },
+    { name: 'hoc_vien', label: 'Danh sách học viên', loopFields: ['stt', 'hoten', 'ma_hv', 'lop', 'email'] },
+    { name: 'ten_detai', label: 'Tên đề tài' },
+    { name: 'nguoi_huongdan', label: 'Người hướng dẫn' },
+    { name: 'loai_tai_lieu', label: 'Loại tài liệu' },
+    { name: 'TV', label: 'Tỉ lệ TV' },
+    { name: 'chuong_data', label: 'Bảng tỉ lệ theo chương', loopFields: ['stt', 'chuong', 'tyle', 'ghi chu', 'tyle_truoc', 'chenh_lech'] },
+    { name: 'chuong_vuot', label: 'Các chương vượt ngưỡng' },
+    { name: 'lan_kiem_tra', label: 'Lần kiểm tra' },
+    { name: 'lan_truoc', label: 'Lần kiểm tra trước' },
+    { name: 'ngay_truoc', label: 'Ngày kiểm tra trước' },
+    { name: 'tv_truoc', label: 'TV lần trước' },
+    { name: 'chenh_lech_tv', label: 'Chênh lệch TV' },
+    { name: 'lich_su', label: 'Lịch sử kiểm tra', loopFields: ['lan', 'ngay', 'tv', 'ket_luan'] },
+    { name: 'kl1_box', label: 'Ô chọn kết luận 1' },
+    { name: 'kl2_box', label: 'Ô chọn kết luận 2' },
+    { name: 'kl3_box', label: 'Ô chọn kết luận 3' },
+    { name: 'kl4_box', label: 'Ô chọn kết luận 4' },
+    { name: 'ketluan1', label: 'Nội dung kết luận 1' },
+    { name: 'ketluan2', label: 'Nội dung kết luận 2' },
+    { name: 'ketluan3', label: 'Nội dung kết luận 3' },
+    { name: 'ketluan4', label: 'Nội dung kết luận 4' },
+    { name: 'ngay_kiem_tra', label: 'Ngày kiểm tra' },
+    { name: 'so_ngay_nop_lai', label: 'Số ngày nộp lại' },
+    { name: 'han_nop_lai', label: 'Hạn nộp lại' },
+    { name: 'diem_tru', label: 'Điểm trừ' },
+    { name: 'ngay_kiem_tra_chu', label: 'Ngày kiểm tra (ngày ... tháng ... năm ...)' },
+    { name: 'han_nop_lai_chu', label: 'Hạn nộp lại (ngày ... tháng ... năm ...)' },
+    { name: 'TV_chu', label: 'Tỉ lệ TV bằng chữ' },
+    { name: 'ten_dot', label: 'Tên đợt kiểm tra' },
+    { name: 'khoa', label: 'Khoa/Đơn vị' },
+    { name: 'can_bo_kiem_tra', label: 'Cán bộ kiểm tra' },
+    { name: 'dia_diem', label: 'Địa danh ghi trước ngày' },
+    { name: 'so_bao_cao', label: 'Số báo cáo' },
+    { name: 'ma_xac_thuc', label: 'Mã xác thực' },
+];
+
+// The data getBatchSummaryTemplateData sets for the batch summary; keep the two in step.
+export const SUMMARY_TEMPLATE_FIELDS: TemplateField[] = [
+    { name: 'ten_dot', label: 'Tên đợt kiểm tra' },
+    { name: 'khoa', label: 'Khoa/Đơn vị' },
+    { name: 'can_bo_kiem_tra', label: 'Cán bộ kiểm tra' },
+    { name: 'dia_diem', label: 'Địa danh ghi trước ngày' },
+    { name: 'loai_tai_lieu', label: 'Loại tài liệu' },
+    { name: 'lan_kiem_tra', label: 'Lần kiểm tra' },
+    { name: 'ngay_kiem_tra', label: 'Ngày kiểm tra' },
+    { name: 'ngay_kiem_tra_chu', label: 'Ngày kiểm tra (ngày ... tháng ... năm ...)' },
+    { name: 'quy_dinh', label: 'Quy định kết luận' },
+    {
+        name: 'de_tai',
+        label: 'Danh sách đề tài',
+        loopFields: ['stt', 'ten_detai', 'hoten_hv', 'ma_hv', 'nguoi_huongdan', 'so_hoc_vien', 'sheet', 'TV', 'chuong_max', 'chuong_max_ten', 'chuong_vuot', 'ket_luan', 'han_nop_lai', 'diem_tru'],
+    },
+    { name: 'tong_de_tai', label: 'Tổng số đề tài' },
+    { name: 'tong_hoc_vien', label: 'Tổng số học viên' },
+    { name: 'dam_bao', label: 'Số đề tài đảm bảo tỉ lệ' },
+    { name: 'can_chinh_sua', label: 'Số đề tài cần chỉnh sửa' },
+    { name: 'can_xu_ly', label: 'Số đề tài cần xử lý' },
+    { name: 'vuot_toi_da', label: 'Số đề tài vượt tối đa' },
+    { name: 'chuong_vuot_nguong', label: 'Số đề tài có chương vượt ngưỡng' },
+    { name: 'da_khac_phuc', label: 'Số đề tài đã khắc phục' },
+    { name: 'nop_lai', label: 'Số đề tài nộp lại sau chỉnh sửa' },
+];
+
+// Per-student columns of the main file are added to hoc_vien by their unaccented header, so any tag may be one.
+const OPEN_LOOP_FIELDS = new Set(['hoc_vien']);
+
+// Parts of a .docx whose text is templated.
+const TEMPLATED_PART = /^word\/(document|header\d*|footer\d*)\.xml$/;
+
+// The known field whose name matches a tag once accents, case, spaces and underscores are ignored.
+const suggestField = (tag: string, candidates: string[]): string | undefined => {
+    const normalized = normalizeString(tag);
+    return candidates.find(name => normalizeString(name) === normalized);
+};
+
+// Explains docxtemplater's syntax errors in Vietnamese; others keep docxtemplater's explanation.
+const describeSyntaxError = (properties: any): string | undefined => {
+    const tag = properties?.xtag;
+    switch (properties?.id) {
+        case 'unclosed_tag': return `Thẻ bắt đầu bằng "{${tag}" thiếu dấu đóng "}".`;
+        case 'unopened_tag': return `Thẻ kết thúc bằng "${tag}}" thiếu dấu mở "{".`;
+        case 'duplicate_open_tag': return `Thẻ "${tag}" có hai dấu mở "{" liền nhau.`;
+        case 'duplicate_close_tag': return `Thẻ "${tag}" có hai dấu đóng "}" liền nhau.`;
+        case 'unclosed_loop': return `Vòng lặp {#${tag}} chưa có thẻ đóng {/${tag}}.`;
+        case 'unopened_loop': return `Thẻ đóng {/${tag}} không có thẻ mở {#${tag}} tương ứng.`;
+        case 'closing_tag_does_not_match_opening_tag':
+            return `Vòng lặp {#${properties.openingtag}} lại được đóng bằng {/${properties.closingtag}}.`;
+        case 'unbalanced_loop_tags':
+            return `Các vòng lặp {#${properties.lastPair?.left}} và {#${properties.pair?.left}} lồng nhau không đúng thứ tự.`;
+        default: return undefined;
+    }
+};
+
+interface TemplatePart {
+    type: string;
+    value: string;
+    module?: string;
+    subparsed?: TemplatePart[];
+}
+
+// Collects the parsed tags of every templated part while the template compiles.
+// docxtemplater's own InspectModule does the same but needs lodash, which is not installed.
+const createTagCollector = () => {
+    const parts: TemplatePart[] = [];
+    const module = {
+        name: 'TagCollector',
+        set(options: { inspect?: { postparsed?: TemplatePart[] } }) {
+            if (options.inspect?.postparsed) parts.push(...options.inspect.postparsed);
+        },
+    };
+    return { parts, module };
+};
+
+/**
+ * Finds tags whose text Word has spread over several runs, e.g. because part of it was retyped
+ * or formatted differently. They still render, but with the formatting of their first run.
+ * @returns The text of each split tag, e.g. '{hoten_hv}'.
+ */
+const findSplitTags = (zip: PizZip): string[] => {
+    const split: string[] = [];
+    Object.keys(zip.files).filter(name => TEMPLATED_PART.test(name)).forEach(name => {
+        const xml = zip.file(name)!.asText();
+        xml.split(/<\/w:p>/).forEach(paragraph => {
+            // The run each character of the paragraph's text comes from
+            let text = '';
+            const runOf: number[] = [];
+            Array.from(paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g)).forEach((match, run) => {
+                text += match[1];
+                runOf.push(...Array.from(match[1], () => run));
+            });
+            for (const match of text.matchAll(/\{[^{}]*\}/g)) {
+                const start = match.index!;
+                if (runOf[start] !== runOf[start + match[0].length - 1]) split.push(match[0]);
+            }
+        });
+    });
+    return split;
+};
+
+/**
+ * Reads the tags and loops of a Word template and checks them against the fields the generator provides.
+ * @param file The .docx template.
+ * @param fields The fields the template is filled with: TEMPLATE_FIELDS for reports, SUMMARY_TEMPLATE_FIELDS for the batch summary.
+ * @returns The tags found, the problems with them, and the fields the template does not use.
+ */
+export const inspectWordTemplate = async (file: File, fields: TemplateField[] = TEMPLATE_FIELDS): Promise<TemplateInspection> => {
+    const zip = new PizZip(await file.arrayBuffer());
+    const issues: TemplateIssue[] = [];
+    const collector = createTagCollector();
+
+    try {
+        // Errors are reported in the result, so docxtemplater need not log them too
+        new Docxtemplater(zip, { paragraphLoop: true, linebreaks: true, errorLogging: false, modules: [collector.module] });
+    } catch (error: any) {
+        const errors: any[] = Array.isArray(error.properties?.errors) ? error.properties.errors : [error];
+        errors.forEach(err => issues.push({
+            kind: 'syntax',
+            severity: IssueSeverity.Error,
+            tag: err.properties?.xtag,
+            message: describeSyntaxError(err.properties) || err.properties?.explanation || err.message,
+        }));
+        return { fileName: file.name, tags: [], issues, unusedFields: fields.map(f => f.name) };
+    }
+
+    const tags: TemplateTag[] = [];
+    const countTag = (name: string, isLoop: boolean, parent?: string) => {
+        const existing = tags.find(t => t.name === name && t.isLoop === isLoop && t.parent === parent);
+        if (existing) existing.count++;
+        else tags.push({ name, isLoop, parent, count: 1 });
+    };
+
+    const fieldsByName = new Map(fields.map(field => [field.name, field]));
+    const topLevelNames = fields.map(f => f.name);
+    const usedFields = new Set<string>();
+    const reported = new Set<string>();
+    const addOnce = (issue: TemplateIssue) => {
+        const key = `${issue.kind}:${issue.tag}`;
+        if (reported.has(key)) return;
+        reported.add(key);
+        issues.push(issue);
+    };
+
+    // Inside a loop, tags resolve against the loop's items first and then against the report's fields
+    const visit = (parts: TemplatePart[], loops: string[]) => {
+        parts.filter(part => part.type === 'placeholder').forEach(part => {
+            const name = part.value;
+            const isLoop = part.module === 'loop';
+            const parent = loops[loops.length - 1];
+            countTag(name, isLoop, parent);
+
+            const loopFields = loops.flatMap(loop => fieldsByName.get(loop)?.loopFields || []);
+            const field = loopFields.includes(name) ? undefined : fieldsByName.get(name);
+            if (field) usedFields.add(name);
+            if (!loopFields.includes(name) && !field) {
+                const openLoop = loops.find(loop => OPEN_LOOP_FIELDS.has(loop));
+                const suggestion = suggestField(name, [...loopFields, ...topLevelNames]);
+                addOnce({
+                    kind: 'unknown',
+                    severity: IssueSeverity.Warning,
+                    tag: name,
+                    message: suggestion
+                        ? `Thẻ {${name}} không có dữ liệu; có phải là {${suggestion}}?`
+                        : openLoop
+                            ? `Thẻ {${name}} chỉ có dữ liệu khi File chính có cột tương ứng.`
+                            : `Thẻ {${name}} không có dữ liệu và sẽ hiện là "undefined" trong báo cáo.`,
+                });
+            } else if (field?.loopFields && !isLoop) {
+                addOnce({
+                    kind: 'misused',
+                    severity: IssueSeverity.Warning,
+                    tag: name,
+                    message: `{${name}} là danh sách, cần dùng dạng lặp {#${name}} ... {/${name}}.`,
+                });
+            }
+
+            if (part.subparsed) visit(part.subparsed, isLoop ? [...loops, name] : loops);
+        });
+    };
+    visit(collector.parts, []);
+
+    findSplitTags(zip).forEach(tag => addOnce({
+        kind: 'split',
+        severity: IssueSeverity.Warning,
+        tag,
+        message: `Thẻ ${tag} bị Word tách thành nhiều đoạn định dạng; nên gõ lại thẻ liền một lần.`,
+    }));
+
+    return {
+        fileName: file.name,
+        tags,
+        issues,
+        unusedFields: topLevelNames.filter(name => !usedFields.has(name)),
+    };
+};
@@ -0,0 +1,197 @@
+import PizZip from 'pizzip';
+import { LibraryTemplate, LibraryTemplateDetails } from '../types';
+
+const DB_NAME = 'baocaopro';
+const DB_VERSION = 1;
+const STORE_NAME = 'templates';
+
+// Name and format marker of the manifest inside an exported bundle.
+const BUNDLE_MANIFEST = 'thu_vien_mau.json';
+const BUNDLE_FORMAT = 'baocaopro.templates';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// A library template as stored, with the .docx content.
+interface StoredTemplate extends LibraryTemplate {
+    content: ArrayBuffer;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/**
+ * Runs one transaction on the template store.
+ * @param work Issues the requests; the result of the request it returns is resolved once the transaction commits.
+ */
+const runTransaction = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = work(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => {
+            db.close();
+            resolve(request ? request.result : undefined);
+        };
+        transaction.onerror = transaction.onabort = () => {
+            db.close();
+            reject(transaction.error);
+        };
+    });
+};
+
+const readAll = async (): Promise<StoredTemplate[]> =>
+    (await runTransaction<StoredTemplate[]>('readonly', store => store.getAll())) || [];
+
+const writeAll = (records: StoredTemplate[]) =>
+    runTransaction('readwrite', store => { records.forEach(record => store.put(record)); });
+
+const toLibraryTemplate = ({ content, ...template }: StoredTemplate): LibraryTemplate => template;
+
+/**
+ * Lists the templates of the library, grouped by document type and newest first.
+ */
+export const listLibraryTemplates = async (): Promise<LibraryTemplate[]> =>
+    (await readAll())
+        .map(toLibraryTemplate)
+        .sort((a, b) => a.documentType.localeCompare(b.documentType) || b.addedAt.localeCompare(a.addedAt));
+
+/**
+ * Adds a template to the library. The first template of a document type becomes its default.
+ * @returns The updated library.
+ */
+export const addLibraryTemplate = async (file: File, details: LibraryTemplateDetails): Promise<LibraryTemplate[]> => {
+    const existing = await readAll();
+    const record: StoredTemplate = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        fileName: file.name,
+        ...details,
+        isDefault: !existing.some(t => t.documentType === details.documentType && t.isDefault),
+        size: file.size,
+        addedAt: new Date().toISOString(),
+        content: await file.arrayBuffer(),
+    };
+    await writeAll([record]);
+    return listLibraryTemplates();
+};
+
+/**
+ * Changes a template's document type, version label or notes. A default template moved to a type
+ * that already has one stops being a default.
+ * @returns The updated library.
+ */
+export const updateLibraryTemplate = async (id: string, details: LibraryTemplateDetails): Promise<LibraryTemplate[]> => {
+    const records = await readAll();
+    const record = records.find(t => t.id === id);
+    if (!record) return listLibraryTemplates();
+    const typeHasDefault = records.some(t => t.id !== id && t.documentType === details.documentType && t.isDefault);
+    await writeAll([{ ...record, ...details, isDefault: record.isDefault && !typeHasDefault }]);
+    return listLibraryTemplates();
+};
+
+/**
+ * Makes a template the default of its document type, replacing the previous default.
+ * @returns The updated library.
+ */
+export const setDefaultLibraryTemplate = async (id: string): Promise<LibraryTemplate[]> => {
+    const records = await readAll();
+    const record = records.find(t => t.id === id);
+    if (!record) return listLibraryTemplates();
+    await writeAll(records
+        .filter(t => t.documentType === record.documentType && t.isDefault !== (t.id === id))
+        .map(t => ({ ...t, isDefault: t.id === id })));
+    return listLibraryTemplates();
+};
+
+/**
+ * Deletes a template from the library.
+ * @returns The updated library.
+ */
+export const deleteLibraryTemplate = async (id: string): Promise<LibraryTemplate[]> => {
+    await runTransaction('readwrite', store => store.delete(id));
+    return listLibraryTemplates();
+};
+
+/**
+ * Reads a library template back as a file.
+ * @throws If the template is no longer in the library.
+ */
+export const loadLibraryTemplateFile = async (id: string): Promise<File> => {
+    const record = await runTransaction<StoredTemplate | undefined>('readonly', store => store.get(id));
+    if (!record) throw new Error('Không tìm thấy file mẫu trong thư viện.');
+    return new File([record.content], record.fileName, { type: DOCX_TYPE });
+};
+
+/**
+ * Finds the default template of a document type.
+ */
+export const findDefaultTemplate = (templates: LibraryTemplate[], documentType: string): LibraryTemplate | undefined =>
+    templates.find(t => t.documentType === documentType && t.isDefault);
+
+/**
+ * Packs the whole library into a ZIP: the templates under 'templates/', and a manifest with their details.
+ */
+export const exportTemplateBundle = async (): Promise<Blob> => {
+    const records = await readAll();
+    const zip = new PizZip();
+    const manifest = records.map(record => {
+        const path = `templates/${record.id}.docx`;
+        zip.file(path, record.content);
+        return { ...toLibraryTemplate(record), path };
+    });
+    zip.file(BUNDLE_MANIFEST, JSON.stringify({ format: BUNDLE_FORMAT, version: 1, templates: manifest }, null, 2));
+    return zip.generate({ type: 'blob' });
+};
+
+/**
+ * Adds the templates of an exported bundle to the library. Templates already in the library are skipped,
+ * so a bundle can be imported again safely; an imported default only replaces no existing default.
+ * @returns The updated library and the number of templates added.
+ * @throws If the file is not a template bundle.
+ */
+export const importTemplateBundle = async (file: File): Promise<{ templates: LibraryTemplate[], imported: number }> => {
+    let zip: PizZip;
+    let manifest: any;
+    try {
+        zip = new PizZip(await file.arrayBuffer());
+        manifest = JSON.parse(zip.file(BUNDLE_MANIFEST)?.asText() || 'null');
+    } catch (error) {
+        console.error(error);
+        manifest = null;
+    }
+    if (!manifest || manifest.format !== BUNDLE_FORMAT || !Array.isArray(manifest.templates)) {
+        throw new Error(`File '${file.name}' không phải gói thư viện mẫu.`);
+    }
+
+    const existing = await readAll();
+    const knownIds = new Set(existing.map(t => t.id));
+    const typesWithDefault = new Set(existing.filter(t => t.isDefault).map(t => t.documentType));
+    const added: StoredTemplate[] = [];
+    manifest.templates.forEach((entry: any) => {
+        const content = typeof entry?.path === 'string' ? zip!.file(entry.path) : null;
+        if (!content || typeof entry.id !== 'string' || knownIds.has(entry.id)) return;
+        const documentType = String(entry.documentType || '');
+        const isDefault = !!entry.isDefault && !typesWithDefault.has(documentType);
+        if (isDefault) typesWithDefault.add(documentType);
+        const data = content.asArrayBuffer();
+        added.push({
+            id: entry.id,
+            fileName: String(entry.fileName || `${entry.id}.docx`),
+            documentType,
+            versionLabel: String(entry.versionLabel || ''),
+            notes: String(entry.notes || ''),
+            isDefault,
+            size: data.byteLength,
+            addedAt: String(entry.addedAt || new Date().toISOString()),
+            content: data,
+        });
+        knownIds.add(entry.id);
+    });
+    if (added.length > 0) await writeAll(added);
+    return { templates: await listLibraryTemplates(), imported: added.length };
+};
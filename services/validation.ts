@@ -0,0 +1,235 @@
+import * as XLSX from 'xlsx';
+import { MergedData, ValidationIssue, IssueSeverity, IssueCode, ReconciliationResult, ValueFix } from '../types';
+import { normalizeString } from './stringUtils';
+
+// Ratios are percentages, so anything outside this range cannot be right.
+const MIN_RATIO = 0;
+const MAX_RATIO = 100;
+
+/**
+ * Returns the chapter keys (c1, c2, ...) of a row in chapter order.
+ */
+export const getChapterKeys = (row: MergedData): string[] => {
+    return Object.keys(row)
+        .filter(k => /^c\d+$/.test(k))
+        .sort((a, b) => parseInt(a.substring(1)) - parseInt(b.substring(1)));
+};
+
+const fieldLabel = (field: string): string => {
+    if (field === 'tv') return 'TV';
+    if (field === 'tendetai') return 'Tên đề tài';
+    if (field === 'hotenhv') return 'Họ tên HV';
+    if (field === 'sohocvien') return 'Số học viên';
+    return field.toUpperCase();
+};
+
+const splitStudentNames = (names: string): string[] => names.split(',').map(n => n.trim()).filter(Boolean);
+
+/**
+ * Checks the merged dataset row by row before reports are generated.
+ * Errors would produce a wrong conclusion in the report; warnings are worth a look but are usually harmless.
+ * @param data The merged rows, in the order they will be reported.
+ * @returns Every issue found, ordered by row.
+ */
+export const validateMergedData = (data: MergedData[]): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    const addIssue = (rowIndex: number, field: string, code: IssueCode, severity: IssueSeverity, message: string, value?: string | number) => {
+        issues.push({
+            id: `${rowIndex}:${field}:${code}`,
+            rowIndex,
+            field,
+            code,
+            severity,
+            message,
+            cell: data[rowIndex].nguon?.cells[field],
+            value,
+        });
+    };
+
+    data.forEach((row, rowIndex) => {
+        const chapterKeys = getChapterKeys(row);
+
+        if (!String(row.tendetai || '').trim()) {
+            const message = row.nguon?.blankTopic
+                ? "Ô 'Tên đề tài' trống và không nằm trong vùng gộp ô nào của File chính."
+                : 'Thiếu tên đề tài.';
+            addIssue(rowIndex, 'tendetai', IssueCode.BlankTopic, IssueSeverity.Error, message);
+        }
+
+        Object.entries(row.nguon?.numbers || {}).forEach(([field, reading]) => {
+            if (reading.interpretation !== 'unparsed') return;
+            addIssue(rowIndex, field, IssueCode.UnparsedNumber, IssueSeverity.Warning,
+                `Không đọc được giá trị '${reading.raw}' của ${fieldLabel(field)}, giá trị này bị bỏ trống.`, reading.raw);
+        });
+
+        // A missing TV would silently fall back to 0, i.e. "within limit"
+        if (row.tv === undefined || row.tv === null) {
+            const detail = chapterKeys.length > 0 ? ' dù có tỉ lệ chương' : '';
+            addIssue(rowIndex, 'tv', IssueCode.MissingTv, IssueSeverity.Error, `Thiếu TV${detail}.`);
+        }
+
+        const ratioFields = ['tv', ...chapterKeys].filter(field => row[field] !== undefined && row[field] !== null);
+        const ratios: number[] = [];
+        ratioFields.forEach(field => {
+            const value = row[field];
+            if (typeof value !== 'number' || isNaN(value)) {
+                addIssue(rowIndex, field, IssueCode.InvalidNumber, IssueSeverity.Error, `${fieldLabel(field)} không phải là số.`, String(value));
+                return;
+            }
+            if (value < MIN_RATIO || value > MAX_RATIO) {
+                addIssue(rowIndex, field, IssueCode.OutOfRange, IssueSeverity.Error, `${fieldLabel(field)} = ${value} nằm ngoài khoảng ${MIN_RATIO}–${MAX_RATIO}%.`, value);
+                return;
+            }
+            ratios.push(value);
+        });
+
+        // If every non-zero ratio of the row is below 1, they were most likely entered as fractions (0.25 for 25%)
+        const nonZero = ratios.filter(v => v > 0);
+        if (nonZero.length > 0 && nonZero.every(v => v < 1)) {
+            addIssue(rowIndex, 'tv', IssueCode.LikelyFraction, IssueSeverity.Warning,
+                'Các tỉ lệ đều nhỏ hơn 1, có thể được nhập dạng thập phân (0.25 thay vì 25%).', row.tv as number | undefined);
+        }
+
+        const names = splitStudentNames(String(row.hotenhv || ''));
+        if (typeof row.sohocvien !== 'number' || isNaN(row.sohocvien) || row.sohocvien <= 0) {
+            addIssue(rowIndex, 'sohocvien', IssueCode.StudentCount, IssueSeverity.Error, 'Số học viên không hợp lệ.', String(row.sohocvien));
+        } else if (names.length > 0 && row.sohocvien !== names.length) {
+            addIssue(rowIndex, 'sohocvien', IssueCode.StudentCount, IssueSeverity.Warning,
+                `Số học viên là ${row.sohocvien} nhưng có ${names.length} tên học viên.`, row.sohocvien);
+        }
+
+        // The main file listed this topic in separate blocks, which were merged into one project
+        if ((row.nguon?.topicBlocks || 0) > 1) {
+            addIssue(rowIndex, 'tendetai', IssueCode.MergedTopicBlocks, IssueSeverity.Warning,
+                `Đề tài xuất hiện ở ${row.nguon!.topicBlocks} nhóm dòng khác nhau trong File chính và đã bị gộp làm một.`, row.tendetai);
+        }
+    });
+
+    // Duplicates are looked for within one sheet of one source file, since batches of different classes may share titles
+    const scopeOf = (row: MergedData) => `${row.tenfile || ''}|${row.tensheet || ''}|`;
+    const topicRows = new Map<string, number[]>();
+    const studentRows = new Map<string, number[]>();
+    data.forEach((row, rowIndex) => {
+        const topic = normalizeString(row.tendetai);
+        if (topic) {
+            const topicKey = scopeOf(row) + topic;
+            topicRows.set(topicKey, [...(topicRows.get(topicKey) || []), rowIndex]);
+        }
+        new Set(splitStudentNames(String(row.hotenhv || '')).map(normalizeString)).forEach(name => {
+            const studentKey = scopeOf(row) + name;
+            studentRows.set(studentKey, [...(studentRows.get(studentKey) || []), rowIndex]);
+        });
+    });
+
+    topicRows.forEach(rowIndexes => {
+        if (rowIndexes.length < 2) return;
+        rowIndexes.forEach(rowIndex => {
+            const others = rowIndexes.filter(i => i !== rowIndex).map(i => i + 1).join(', ');
+            addIssue(rowIndex, 'tendetai', IssueCode.DuplicateTopic, IssueSeverity.Warning, `Trùng tên đề tài với dòng ${others}.`, data[rowIndex].tendetai);
+        });
+    });
+
+    const reportedStudentRows = new Set<number>();
+    studentRows.forEach(rowIndexes => {
+        if (rowIndexes.length < 2) return;
+        rowIndexes.forEach(rowIndex => {
+            // One issue per row even if several of its students are duplicated
+            if (reportedStudentRows.has(rowIndex)) return;
+            reportedStudentRows.add(rowIndex);
+            const others = rowIndexes.filter(i => i !== rowIndex).map(i => i + 1).join(', ');
+            addIssue(rowIndex, 'hotenhv', IssueCode.DuplicateStudent, IssueSeverity.Warning, `Học viên cũng có tên ở dòng ${others}.`, data[rowIndex].hotenhv);
+        });
+    });
+
+    return issues.sort((a, b) => a.rowIndex - b.rowIndex);
+};
+
+/**
+ * Returns the errors that still block report generation.
+ * @param issues The issues found by validateMergedData.
+ * @param overriddenIds Ids of the issues the user chose to ignore.
+ */
+export const getBlockingIssues = (issues: ValidationIssue[], overriddenIds: string[]): ValidationIssue[] => {
+    return issues.filter(issue => issue.severity === IssueSeverity.Error && !overriddenIds.includes(issue.id));
+};
+
+/**
+ * Returns a copy of the data with one field of one row replaced.
+ * The way the original cell was read no longer applies, so it is dropped.
+ */
+export const applyFieldFix = (data: MergedData[], rowIndex: number, field: string, value: number): MergedData[] => {
+    return data.map((row, index) => {
+        if (index !== rowIndex) return row;
+        const fixed: MergedData = { ...row, [field]: value };
+        if (row.nguon?.numbers?.[field]) {
+            const { [field]: _, ...numbers } = row.nguon.numbers;
+            fixed.nguon = { ...row.nguon, numbers };
+        }
+        return fixed;
+    });
+};
+
+/**
+ * Returns a copy of the data with the TV and chapter ratios of one row multiplied by 100.
+ * This is the fix for ratios entered as fractions.
+ */
+export const scaleRowRatios = (data: MergedData[], rowIndex: number): MergedData[] => {
+    return data.map((row, index) => {
+        if (index !== rowIndex) return row;
+        const scaled: MergedData = { ...row };
+        ['tv', ...getChapterKeys(row)].forEach(field => {
+            const value = row[field];
+            if (typeof value === 'number') scaled[field] = Math.round(value * 100 * 100) / 100;
+        });
+        return scaled;
+    });
+};
+
+/**
+ * Records a fix, replacing an earlier fix of the same project and field.
+ */
+export const recordValueFix = (fixes: ValueFix[], fix: ValueFix): ValueFix[] =>
+    [...fixes.filter(f => f.mainIndex !== fix.mainIndex || f.field !== fix.field), fix];
+
+/**
+ * Applies the recorded fixes to data rebuilt from the reconciliation. A fix only applies while its project
+ * is still matched to the supplementary entry it was made on, as it corrected that entry's value.
+ * @param data Rows built by buildMergedData, one per main project.
+ * @returns The fixed data, the fixes still in effect and those dropped because the match changed.
+ */
+export const reapplyValueFixes = (data: MergedData[], reconciliation: ReconciliationResult, fixes: ValueFix[]): { data: MergedData[], kept: ValueFix[], dropped: ValueFix[] } => {
+    const kept = fixes.filter(fix => reconciliation.matches.find(m => m.mainIndex === fix.mainIndex)?.suppIndex === fix.suppIndex);
+    const dropped = fixes.filter(fix => !kept.includes(fix));
+    const fixed = kept.reduce((rows, fix) => applyFieldFix(rows, fix.mainIndex, fix.field, fix.value), data);
+    return { data: fixed, kept, dropped };
+};
+
+/**
+ * Builds the downloadable issue report, one line per issue.
+ * @param data The validated rows, used to name the project of each issue.
+ * @param issues The issues found by validateMergedData.
+ * @param overriddenIds Ids of the issues the user chose to ignore.
+ * @returns The workbook as an ArrayBuffer.
+ */
+export const buildIssueReportWorkbook = (data: MergedData[], issues: ValidationIssue[], overriddenIds: string[]): ArrayBuffer => {
+    const rows = issues.map(issue => {
+        const row = data[issue.rowIndex];
+        return {
+            'Dòng': issue.rowIndex + 1,
+            ...(row.tenfile !== undefined ? { 'File nguồn': row.tenfile } : {}),
+            'Tên đề tài': row.tendetai,
+            'Họ tên HV': row.hotenhv,
+            'Mức độ': issue.severity === IssueSeverity.Error ? 'Lỗi' : 'Cảnh báo',
+            'Trường': fieldLabel(issue.field),
+            'Giá trị': issue.value ?? '',
+            'Ô nguồn': issue.cell || '',
+            'Mô tả': issue.message,
+            'Bỏ qua': overriddenIds.includes(issue.id) ? 'x' : '',
+        };
+    });
+
+    const worksheet = XLSX.utils.json_to_sheet(rows);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Loi_du_lieu');
+    return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+};
@@ -0,0 +1,62 @@
+const DIGITS = ['không', 'một', 'hai', 'ba', 'bốn', 'năm', 'sáu', 'bảy', 'tám', 'chín'];
+const SCALES = ['', ' nghìn', ' triệu', ' tỷ'];
+
+/**
+ * Reads a number from 0 to 999.
+ * @param full Whether to read the hundreds and 'linh' of a group that follows a higher one, e.g. 'không trăm linh năm'.
+ */
+const readGroup = (value: number, full: boolean): string => {
+    const hundreds = Math.floor(value / 100);
+    const tens = Math.floor(value / 10) % 10;
+    const units = value % 10;
+    const words: string[] = [];
+    if (hundreds > 0 || full) words.push(`${DIGITS[hundreds]} trăm`);
+    if (tens > 1) {
+        words.push(`${DIGITS[tens]} mươi`);
+    } else if (tens === 1) {
+        words.push('mười');
+    } else if (units > 0 && words.length > 0) {
+        words.push('linh');
+    }
+    if (units > 0) {
+        // 'mốt' after 'mươi', 'lăm' after 'mươi' or 'mười'
+        if (units === 1 && tens > 1) words.push('mốt');
+        else if (units === 5 && tens > 0) words.push('lăm');
+        else words.push(DIGITS[units]);
+    }
+    return words.join(' ');
+};
+
+/**
+ * Reads a whole number below a thousand billion in Vietnamese words, e.g. 125 as 'một trăm hai mươi lăm'.
+ */
+export const integerToVietnameseWords = (value: number): string => {
+    let remaining = Math.floor(Math.abs(value));
+    if (remaining === 0) return DIGITS[0];
+    const groups: number[] = [];
+    while (remaining > 0) {
+        groups.push(remaining % 1000);
+        remaining = Math.floor(remaining / 1000);
+    }
+    const words: string[] = [];
+    for (let i = groups.length - 1; i >= 0; i--) {
+        if (groups[i] === 0) continue;
+        words.push(readGroup(groups[i], i < groups.length - 1) + SCALES[i]);
+    }
+    return words.join(' ');
+};
+
+/**
+ * Reads a decimal number in Vietnamese words, e.g. 27.35 as 'hai mươi bảy phẩy ba mươi lăm'.
+ * Leading zeros of the decimal part are read one by one, so 27.05 is 'hai mươi bảy phẩy không năm'.
+ * @param decimals Number of decimals the value is rounded to before reading; trailing zeros are not read.
+ */
+export const decimalToVietnameseWords = (value: number, decimals: number = 2): string => {
+    const [whole, fraction = ''] = Math.abs(value).toFixed(decimals).split('.');
+    const sign = value < 0 && Number(Math.abs(value).toFixed(decimals)) > 0 ? 'âm ' : '';
+    const digits = fraction.replace(/0+$/, '');
+    if (!digits) return sign + integerToVietnameseWords(Number(whole));
+    const leadingZeros = digits.match(/^0*/)![0].length;
+    const fractionWords = [...Array(leadingZeros).fill(DIGITS[0]), integerToVietnameseWords(Number(digits.slice(leadingZeros)))].join(' ');
+    return `${sign}${integerToVietnameseWords(Number(whole))} phẩy ${fractionWords}`;
+};
@@ -0,0 +1,109 @@
+import * as XLSX from 'xlsx';
+import PizZip from 'pizzip';
+
+// The community build of SheetJS writes no fills, fonts or frozen panes, so they are added to
+// the written .xlsx afterwards.
+
+// A sheet's header row and frozen panes, and its rows filled with a colour.
+export interface SheetFormatting {
+    headerRow?: number; // 0-based row shown in bold on a grey fill
+    frozenRows?: number;
+    frozenColumns?: number;
+    rowFills?: Map<number, string>; // 0-based row → RGB colour, e.g. 'FEF9C3'
+}
+
+const STYLES_PATH = 'xl/styles.xml';
+const HEADER_FILL = 'E5E7EB';
+const DEFAULT_XF = '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>';
+
+const ELEMENT = (name: string) => new RegExp(`<${name}\\b[^>]*?(?:/>|>[\\s\\S]*?</${name}>)`, 'g');
+
+const solidFill = (rgb: string) => `<fill><patternFill patternType="solid"><fgColor rgb="FF${rgb}"/><bgColor indexed="64"/></patternFill></fill>`;
+
+// Appends elements to a collection such as <fills count="2">, keeping its count right.
+const appendToCollection = (xml: string, name: string, elements: string[]): string =>
+    xml.replace(new RegExp(`<${name} count="(\\d+)">([\\s\\S]*?)</${name}>`), (_, count: string, content: string) =>
+        `<${name} count="${Number(count) + elements.length}">${content}${elements.join('')}</${name}>`);
+
+const countOf = (xml: string, name: string) => Number(new RegExp(`<${name} count="(\\d+)"`).exec(xml)?.[1] || 0);
+
+/**
+ * Adds header styling, row fills and frozen panes to an .xlsx written by SheetJS. Cells keep their number formats.
+ * @param sheets Formatting of each worksheet, in workbook order; sheets without one are left as written.
+ * @returns The formatted workbook.
+ */
+export const applyXlsxFormatting = (buffer: ArrayBuffer, sheets: (SheetFormatting | undefined)[]): ArrayBuffer => {
+    const zip = new PizZip(buffer);
+    let styles = zip.file(STYLES_PATH)!.asText();
+
+    const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(styles);
+    const baseXfs = cellXfs?.[1].match(ELEMENT('xf')) || [DEFAULT_XF];
+    const firstFont = styles.match(ELEMENT('font'))?.[0] || '<font><sz val="12"/><name val="Calibri"/></font>';
+    const boldFontId = countOf(styles, 'fonts');
+    const firstFillId = countOf(styles, 'fills');
+    const fills: string[] = [];
+    const addedXfs: string[] = [];
+    const xfIndexes = new Map<string, number>();
+
+    // The style of a cell once filled: its own style, with the fill and, for headers, the bold font
+    const styleFor = (base: number, fill: string, bold: boolean): number => {
+        const key = `${base}|${fill}|${bold}`;
+        if (!xfIndexes.has(key)) {
+            if (!fills.includes(fill)) fills.push(fill);
+            const fillId = firstFillId + fills.indexOf(fill);
+            const xf = (baseXfs[base] || baseXfs[0])
+                .replace(/\s(fontId|fillId|applyFont|applyFill)="[^"]*"/g, '')
+                .replace(/^<xf\b/, `<xf fontId="${bold ? boldFontId : 0}" fillId="${fillId}" applyFill="1"${bold ? ' applyFont="1"' : ''}`);
+            addedXfs.push(xf);
+            xfIndexes.set(key, baseXfs.length + addedXfs.length - 1);
+        }
+        return xfIndexes.get(key)!;
+    };
+
+    sheets.forEach((formatting, index) => {
+        // SheetJS names the worksheet parts after their position in the workbook
+        const path = `xl/worksheets/sheet${index + 1}.xml`;
+        let xml = zip.file(path)?.asText();
+        if (!formatting || !xml) return;
+
+        const lastColumn = XLSX.utils.decode_range(/<dimension ref="([^"]+)"/.exec(xml)?.[1] || 'A1').e.c;
+        xml = xml.replace(/<row r="(\d+)"([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g, (row, r: string, attributes: string, content = '') => {
+            const rowIndex = Number(r) - 1;
+            const isHeader = rowIndex === formatting.headerRow;
+            const fill = isHeader ? HEADER_FILL : formatting.rowFills?.get(rowIndex);
+            if (!fill) return row;
+            const cells = new Map<number, string>();
+            (content.match(ELEMENT('c')) || []).forEach(cell => {
+                const ref = /\br="([A-Z]+\d+)"/.exec(cell)?.[1];
+                if (ref) cells.set(XLSX.utils.decode_cell(ref).c, cell);
+            });
+            // Empty cells are added so the fill spans the whole row
+            const styled = Array.from({ length: lastColumn + 1 }, (_, c) => {
+                const cell = cells.get(c) || `<c r="${XLSX.utils.encode_cell({ r: rowIndex, c })}"/>`;
+                const style = styleFor(Number(/\bs="(\d+)"/.exec(cell)?.[1] || 0), fill, isHeader);
+                return /\bs="\d+"/.test(cell) ? cell.replace(/\bs="\d+"/, `s="${style}"`) : cell.replace(/^<c\b/, `<c s="${style}"`);
+            });
+            return `<row r="${r}"${attributes}>${styled.join('')}</row>`;
+        });
+
+        const rows = formatting.frozenRows || 0;
+        const columns = formatting.frozenColumns || 0;
+        if (rows > 0 || columns > 0) {
+            const pane = rows > 0 && columns > 0 ? 'bottomRight' : rows > 0 ? 'bottomLeft' : 'topRight';
+            const split = `${columns > 0 ? ` xSplit="${columns}"` : ''}${rows > 0 ? ` ySplit="${rows}"` : ''}`;
+            const topLeftCell = XLSX.utils.encode_cell({ r: rows, c: columns });
+            xml = xml.replace(/<sheetView\b([^>]*?)\/>/, `<sheetView$1><pane${split} topLeftCell="${topLeftCell}" activePane="${pane}" state="frozen"/><selection pane="${pane}"/></sheetView>`);
+        }
+        zip.file(path, xml);
+    });
+
+    if (addedXfs.length > 0) {
+        styles = appendToCollection(styles, 'fonts', [firstFont.replace(/^<font>/, '<font><b/>')]);
+        styles = appendToCollection(styles, 'fills', fills.map(solidFill));
+        styles = cellXfs
+            ? appendToCollection(styles, 'cellXfs', addedXfs)
+            : styles.replace(/<cellStyles\b/, `<cellXfs count="${1 + addedXfs.length}">${DEFAULT_XF}${addedXfs.join('')}</cellXfs><cellStyles`);
+        zip.file(STYLES_PATH, styles);
+    }
+    return zip.generate({ type: 'arraybuffer', compression: 'DEFLATE' });
+};
@@ -0,0 +1,59 @@
+import { LogType, WorkerJob, WorkerJobResults, WorkerMessage } from '../types';
+
+// Message of the error a cancelled job rejects with.
+const CANCELLED_MESSAGE = 'Đã hủy theo yêu cầu.';
+
+/**
+ * Tells whether an error comes from a job cancelled by the user.
+ */
+export const isCancelledError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Runs a parsing or rendering job in a Web Worker, so the page stays responsive.
+ * @param job The job and its inputs; files are passed by reference and not copied.
+ * @param onLog Receives the log messages of the job.
+ * @param onProgress Receives the progress of the job, as items done out of a total.
+ * @returns The job's result, and a function that stops the job. A stopped job rejects with an AbortError.
+ */
+export const runWorkerJob = <K extends WorkerJob['kind']>(
+    job: Extract<WorkerJob, { kind: K }>,
+    onLog: (message: string, type: LogType) => void,
+    onProgress: (done: number, total: number) => void
+): { result: Promise<WorkerJobResults[K]>, cancel: () => void } => {
+    const worker = new Worker(new URL('./processingWorker.ts', import.meta.url), { type: 'module' });
+    let cancel = () => {};
+
+    const result = new Promise<WorkerJobResults[K]>((resolve, reject) => {
+        const finish = () => worker.terminate();
+
+        cancel = () => {
+            finish();
+            reject(new DOMException(CANCELLED_MESSAGE, 'AbortError'));
+        };
+
+        worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+            const message = event.data;
+            if (message.type === 'log') {
+                onLog(message.message, message.logType);
+            } else if (message.type === 'progress') {
+                onProgress(message.done, message.total);
+            } else if (message.type === 'done') {
+                finish();
+                resolve(message.result as WorkerJobResults[K]);
+            } else {
+                finish();
+                const error = new Error(message.message);
+                if (message.name) error.name = message.name;
+                reject(error);
+            }
+        };
+
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || 'Không khởi chạy được tiến trình xử lý nền.'));
+        };
+    });
+
+    worker.postMessage(job);
+    return { result, cancel };
+};
@@ -0,0 +1,103 @@
+import { WorkingCalendar } from '../types';
+
+const STORAGE_KEY = 'baocaopro.workingCalendar';
+
+// Lunar holidays such as Tết Nguyên đán and Giỗ Tổ Hùng Vương fall on different dates each year
+// and are added per year in the settings.
+export const DEFAULT_CALENDAR: WorkingCalendar = {
+    workingDays: [1, 2, 3, 4, 5],
+    holidays: [
+        { date: '2000-01-01', name: 'Tết Dương lịch', recurring: true },
+        { date: '2000-04-30', name: 'Ngày Giải phóng miền Nam', recurring: true },
+        { date: '2000-05-01', name: 'Ngày Quốc tế Lao động', recurring: true },
+        { date: '2000-09-02', name: 'Quốc khánh', recurring: true },
+    ],
+};
+
+export const WEEKDAY_LABELS = ['CN', 'T2', 'T3', 'T4', 'T5', 'T6', 'T7'];
+
+// Guards against a calendar without a single working day.
+const MAX_CALENDAR_DAYS = 3660;
+
+/**
+ * Loads the working-day calendar from localStorage, or the default calendar if none was saved.
+ */
+export const loadWorkingCalendar = (): WorkingCalendar => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        return parsed && Array.isArray(parsed.workingDays) && Array.isArray(parsed.holidays) ? parsed : DEFAULT_CALENDAR;
+    } catch (error) {
+        console.error("Không đọc được lịch làm việc đã lưu:", error);
+        return DEFAULT_CALENDAR;
+    }
+};
+
+/**
+ * Saves the working-day calendar, with its holidays in date order.
+ * @returns The saved calendar.
+ */
+export const saveWorkingCalendar = (calendar: WorkingCalendar): WorkingCalendar => {
+    const saved: WorkingCalendar = {
+        workingDays: [...calendar.workingDays].sort((a, b) => a - b),
+        holidays: [...calendar.holidays].sort((a, b) => a.date.localeCompare(b.date)),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    return saved;
+};
+
+// Dates are handled in UTC so that adding a day is never thrown off by a daylight-saving change.
+const parseIsoDate = (iso: string): Date | null => {
+    const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    return match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+};
+
+const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Whether a date counts towards a deadline: a working day of the week that is not a holiday.
+ * @param iso ISO date (YYYY-MM-DD).
+ */
+export const isWorkingDay = (calendar: WorkingCalendar, iso: string): boolean => {
+    const date = parseIsoDate(iso);
+    if (!date || !calendar.workingDays.includes(date.getUTCDay())) return false;
+    return !calendar.holidays.some(h => h.recurring ? h.date.slice(5) === iso.slice(5) : h.date === iso);
+};
+
+/**
+ * Finds the date a number of working days after a given date. The start date itself is not counted.
+ * @param start ISO date (YYYY-MM-DD), e.g. the check date.
+ * @param days Working days to count.
+ * @returns The ISO date of the last working day counted, or '' if the calendar has no working days.
+ */
+export const addWorkingDays = (calendar: WorkingCalendar, start: string, days: number): string => {
+    const date = parseIsoDate(start);
+    if (!date) return '';
+    let remaining = Math.max(0, Math.floor(days));
+    for (let step = 0; remaining > 0; step++) {
+        if (step >= MAX_CALENDAR_DAYS) return '';
+        date.setUTCDate(date.getUTCDate() + 1);
+        if (isWorkingDay(calendar, toIsoDate(date))) remaining--;
+    }
+    return toIsoDate(date);
+};
+
+/**
+ * Formats an ISO date the way the reports write dates: dd/mm/yyyy.
+ */
+export const formatReportDate = (iso: string): string => {
+    const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    return match ? `${match[3]}/${match[2]}/${match[1]}` : iso;
+};
+
+/**
+ * Formats an ISO date the way Vietnamese official documents write it, e.g. 'ngày 05 tháng 01 năm 2026'.
+ * Days before the 10th and the months January and February take a leading zero, as Nghị định 30/2020/NĐ-CP requires.
+ * @returns The formatted date, or the input unchanged if it is not an ISO date.
+ */
+export const formatVietnameseDate = (iso: string): string => {
+    const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return iso;
+    const month = Number(match[2]);
+    return `ngày ${match[3]} tháng ${month < 3 ? match[2] : month} năm ${match[1]}`;
+};
@@ -19,18 +19,557 @@ export interface DashboardStats {
     l1Edit: number; // Vượt tỉ lệ, cần chỉnh sửa (Lần 1)
     l2Process: number; // Tỉ lệ cần xử lý (Lần 2)
     l2Exceeded: number; // Vượt tỉ lệ tối đa (Lần 2)
+    chapterExceeded: number; // Có chương vượt ngưỡng, independent of the TV categories above
+    fixedAfterEdit: number; // Đã khắc phục: sent back for editing in an earlier round, now within the limit
+    resubmittedAfterEdit: number; // Projects sent back for editing in an earlier round that were checked again
+}
+
+// DashboardStats fields that are totals rather than lists of projects.
+type DashboardTotals = 'totalProjects' | 'totalStudents' | 'resubmittedAfterEdit';
+
+// How a numeric cell was read. 'number' is a plain number; the others record a conversion.
+export type NumberInterpretation = 'number' | 'percentFormat' | 'percentSign' | 'decimalComma' | 'thousands' | 'unparsed';
+
+export interface ParsedNumber {
+    value?: number; // Undefined for blank and unparsed cells
+    interpretation: NumberInterpretation;
+}
+
+// A numeric cell that was not a plain number, kept so the conversion can be shown to the user.
+export interface NumberReading {
+    raw: string;
+    interpretation: NumberInterpretation;
+}
+
+// Where a merged row's values were read from, for pointing validation issues at a cell.
+export interface RowSource {
+    cells: { [field: string]: string }; // Field -> cell reference, e.g. "[File.xlsx]Sheet1!B5"
+    numbers?: { [field: string]: NumberReading }; // Only fields that needed a conversion or could not be read
+    topicBlocks?: number; // Separate blocks of rows sharing this topic in the main file
+    blankTopic?: boolean; // The topic cell was empty and not part of a merged range
+}
+
+// One student of a project, with the per-student columns of the main file.
+export interface StudentRecord {
+    hoten: string;
+    mahv?: string; // Mã học viên
+    lop?: string;
+    email?: string;
+    khac?: { [header: string]: string }; // Other columns of the student's row, by header text
 }
 
 export interface MergedData {
-  [key: string]: string | number | undefined;
+  [key: string]: string | number | RowSource | StudentRecord[] | undefined;
   hotenhv: string;
   tendetai: string;
   sohocvien: number;
   nguoihuongdan?: string;
+  emailhuongdan?: string;
   tv?: number;
+  dokhop?: number; // Độ khớp với file bổ sung (%)
+  tensheet?: string; // Sheet nguồn trong file chính
+  tenfile?: string; // File chính nguồn khi gộp hàng loạt
+  nguon?: RowSource;
+  hocvien?: StudentRecord[]; // hotenhv is kept as the comma-joined names of these records
 }
 
 // Defines a structure to hold arrays of projects, categorized by their processing status.
 export type CategorizedProjects = {
-    [key in keyof Omit<DashboardStats, 'totalProjects' | 'totalStudents'>]: MergedData[]
+    [key in keyof Omit<DashboardStats, DashboardTotals>]: MergedData[]
 };
+
+export type ConclusionCategory = keyof Omit<DashboardStats, DashboardTotals>;
+
+// The four conclusions of the report form, rendered as ketluan1..4 with the kl1_box..kl4_box checkboxes.
+export type ConclusionKey = 'kl1' | 'kl2' | 'kl3' | 'kl4';
+
+// A range of TV ratios and the conclusion it leads to in each check round.
+export interface RatioBand {
+    max?: number; // Upper bound of the band; undefined for the last, unbounded band
+    maxInclusive: boolean; // Whether a TV equal to max still falls in this band
+    conclusions: ConclusionKey[]; // By check round: [round 1, round 2, ...]; the last one applies to any later round
+}
+
+export interface DocumentTypePolicy {
+    id: string; // Selected in the UI, e.g. 'ĐATN'
+    label: string; // Written to the report as loai_tai_lieu
+    fileNameKeywords: string[]; // Unaccented keywords in a template's filename that pre-fill this type, e.g. 'kltn'
+    outputPrefix: string; // Prefix of the generated report filenames, e.g. 'KQ_ĐATN'
+    bands: RatioBand[]; // Ordered by max, ascending
+    chapterLimit?: number; // Highest ratio allowed for any single chapter; undefined if chapters are not capped
+    resubmissionDays?: number; // Working days a project sent back for editing (KL3) has to resubmit
+    deductions?: DeductionStep[]; // Points deducted in the processing band (KL2), ordered by 'from', ascending
+}
+
+// A row of a deduction table: from this TV ratio upwards, the given points are deducted.
+export interface DeductionStep {
+    from: number; // Inclusive
+    points: number;
+}
+
+// A day off within the working week.
+export interface Holiday {
+    date: string; // ISO date (YYYY-MM-DD)
+    name: string;
+    recurring?: boolean; // Repeats every year on the same day and month, e.g. 02/09
+}
+
+// The days that count towards a resubmission deadline.
+export interface WorkingCalendar {
+    workingDays: number[]; // Days of the week, 0 = Sunday
+    holidays: Holiday[];
+}
+
+// What a project's resubmission deadline and deduction are worked out from.
+export interface AssessmentContext {
+    documentType: DocumentTypePolicy;
+    checkRound: number;
+    checkDate: string; // ISO date of the check; the deadline counts working days after it
+    calendar: WorkingCalendar;
+}
+
+// The outcome of a check for one project.
+export interface ProjectAssessment {
+    conclusion: ConclusionKey;
+    dueDate?: string; // ISO date; only for projects sent back for editing
+    deduction?: number; // Only for projects in the processing band with a matching deduction step
+}
+
+// One project's line in the batch summary.
+export interface BatchSummaryProject extends ProjectAssessment {
+    project: MergedData;
+    highestChapter?: { key: string, value: number }; // The chapter with the highest ratio, e.g. { key: 'c3', value: 12.5 }
+    chapterViolations: string[];
+}
+
+// One supervisor's projects, counted by dashboard category.
+export interface SupervisorSummary {
+    name: string;
+    projects: MergedData[];
+    students: number;
+    counts: Record<ConclusionCategory, number>;
+    averageTv: number;
+}
+
+// Every project of a batch with the counts the dashboard shows, for the review board's summary.
+export interface BatchSummary {
+    projects: BatchSummaryProject[];
+    stats: DashboardStats;
+}
+
+// The data and settings a classification was made with, and its counts; kept for the last reports ZIP
+// to tell when the dashboard no longer matches it.
+export interface ClassificationSnapshot {
+    data: MergedData[];
+    checkRound: number;
+    documentType: DocumentTypePolicy;
+    policy: ConclusionPolicy;
+    stats: DashboardStats;
+}
+
+// Details of a check batch printed on every report of it.
+export interface BatchMetadata {
+    batchName: string; // Tên đợt, e.g. 'Đợt 1 năm học 2025-2026'
+    faculty: string;
+    officer: string; // Cán bộ kiểm tra
+    place: string; // Written before the date, e.g. 'Hà Nội'
+    serialStart: number; // Number of the batch's first report
+    serialSuffix: string; // Follows the number, e.g. '/BC-ĐBCL' for 'Số: 015/BC-ĐBCL'
+}
+
+// The batch a report is generated in and its number within it.
+export interface ReportBatchContext {
+    batchId: string; // Generated for each batch; part of every verification code
+    metadata: BatchMetadata;
+    reportNumber: number;
+}
+
+// A Word template kept in the browser's template library.
+export interface LibraryTemplate {
+    id: string;
+    fileName: string;
+    documentType: string; // Id of the document type the template's reports are for; takes the place of the filename keywords
+    versionLabel: string; // Free text, e.g. '2025.1'
+    notes: string;
+    isDefault: boolean; // Loaded for its document type when the app opens; at most one per type
+    size: number; // Bytes
+    addedAt: string; // ISO timestamp
+}
+
+// The details of a library template the user enters.
+export type LibraryTemplateDetails = Pick<LibraryTemplate, 'documentType' | 'versionLabel' | 'notes'>;
+
+// A versioned set of conclusion rules. Editing a policy saves a new version, so older batches can be re-evaluated.
+export interface ConclusionPolicy {
+    id: string;
+    name: string;
+    version: number;
+    effectiveFrom: string; // ISO date (YYYY-MM-DD) from which the policy applies
+    documentTypes: DocumentTypePolicy[];
+    conclusionTexts: Record<ConclusionKey, string>;
+    chapterNote?: string; // Written to the 'ghi chu' column of a chapter over its limit
+    note?: string;
+    createdAt: string;
+}
+
+export enum MatchStatus {
+    Matched = 'MATCHED', // Khớp tự động với độ tin cậy cao
+    Ambiguous = 'AMBIGUOUS', // Có ứng viên nhưng cần xác nhận
+    Unmatched = 'UNMATCHED', // Không tìm thấy dữ liệu tỉ lệ tương ứng
+    Manual = 'MANUAL', // Người dùng đã xác nhận/chỉ định thủ công
+    Positional = 'POSITIONAL', // File bổ sung không có cột khóa, ghép theo thứ tự dòng; cần xác nhận
+    PositionalConfirmed = 'POSITIONAL_CONFIRMED', // Người dùng đã xác nhận ghép theo thứ tự dòng
+}
+
+// A project aggregated from the main file, before ratios are attached.
+export interface MainProject {
+    tendetai: string;
+    hotenhv: string;
+    sohocvien: number;
+    nguoihuongdan: string;
+    emailhuongdan?: string;
+    tensheet?: string;
+    tenfile?: string;
+    nguon?: RowSource;
+    hocvien?: StudentRecord[];
+}
+
+// One project's figures read from the supplementary file, with whatever key columns it provides.
+export interface SupplementaryEntry {
+    index: number;
+    tendetai?: string;
+    hotenhv?: string;
+    tv?: number;
+    chapters: { [key: string]: number };
+    tensheet?: string;
+    cells?: { [field: string]: string }; // Field -> cell reference
+    numbers?: { [field: string]: NumberReading };
+}
+
+export interface MatchCandidate {
+    suppIndex: number;
+    confidence: number; // 0..1
+}
+
+export interface ProjectMatch {
+    mainIndex: number;
+    suppIndex: number | null;
+    confidence: number; // 0..1
+    status: MatchStatus;
+    candidates: MatchCandidate[];
+}
+
+// A value typed in the validation view, kept so it survives the merged data being rebuilt from the reconciliation.
+export interface ValueFix {
+    mainIndex: number; // The project in the main file
+    suppIndex: number | null; // The supplementary entry the project was matched to when the fix was made
+    field: string;
+    value: number;
+}
+
+export interface ReconciliationResult {
+    mainProjects: MainProject[];
+    suppEntries: SupplementaryEntry[];
+    matches: ProjectMatch[];
+    dismissedSuppIndexes: number[];
+}
+
+// The three kinds of input files whose columns can be mapped.
+export type MappingRole = 'main' | 'supplementary' | 'report';
+
+// MergedData fields that are read from a named column.
+export type MappedField = 'tendetai' | 'hotenhv' | 'nguoihuongdan' | 'emailhuongdan' | 'sohocvien' | 'tv' | 'tensheet' | 'tenfile' | 'mahv' | 'lop' | 'email'
+    | 'chuong' | 'tile'; // Chapter and ratio columns of a supplementary file in the long layout
+
+export interface ColumnMapping {
+    headerRowIndex: number;
+    columns: Partial<Record<MappedField, number>>; // Field -> column index
+}
+
+// What the mapping step shows for one uploaded file.
+export interface ColumnInspection {
+    fileName: string;
+    sheetName: string; // The sheet the preview was read from
+    previewRows: (string | number | null)[][];
+    mapping: ColumnMapping;
+    profileName?: string; // Set when the mapping came from a saved profile
+}
+
+// A named, reusable mapping saved for a faculty. Columns are stored by header text
+// so the profile still applies when columns are reordered.
+export interface MappingProfile {
+    id: string;
+    name: string;
+    faculty: string;
+    role: MappingRole;
+    columns: Partial<Record<MappedField, string>>;
+}
+
+// A worksheet of an uploaded workbook, as listed in the sheet picker.
+export interface SheetInfo {
+    name: string;
+    rowCount: number; // Non-empty rows, header included
+}
+
+// Per-file inputs chosen by the user before merging.
+// How rows with an empty topic cell in the main file are assigned to a project:
+// by the worksheet's merged-cell ranges, or by copying the topic of the row above.
+export type TopicFillMode = 'merges' | 'forwardFill';
+
+// Layouts of the supplementary file that can be imported:
+// 'transposed' - TV column plus 'Tỉ lệ 1..N' columns read vertically, one column per project;
+// 'rowPerProject' - one row per project with TV and C1..Cn columns;
+// 'long' - one row per chapter with project, chapter and ratio columns.
+export type SupplementaryLayout = 'transposed' | 'rowPerProject' | 'long';
+
+export interface MergeOptions {
+    inspections?: Partial<Record<MappingRole, ColumnInspection>>;
+    sheetNames?: Partial<Record<MappingRole, string[]>>; // Defaults to the first sheet
+    topicFill?: TopicFillMode; // Defaults to 'merges'
+    suppLayout?: SupplementaryLayout; // Detected from the headers of each sheet if omitted
+    assessment?: AssessmentContext; // Adds the deadline, deduction, conclusion and chapter columns and the summary sheets to the merged workbook
+    policy?: ConclusionPolicy; // Adds the text of each row's conclusion, with assessment
+    format?: MergedExportFormat; // Defaults to 'xlsx'
+    mappingProfiles?: MappingProfile[]; // Tried on sheets without an inspection before keyword detection
+    faculty?: string; // The faculty whose profiles are tried first
+}
+
+// File format of the merged workbook. Colours and frozen panes are only written to .xlsx.
+export type MergedExportFormat = 'xlsx' | 'ods' | 'csv';
+
+// What a file dropped into batch mode appears to be, judged from its headers.
+export interface InputFileSummary {
+    file: File;
+    role: 'main' | 'supplementary' | null;
+    keys: string[]; // Topic titles / student names, used to pair files by content
+}
+
+export interface BatchFilePair {
+    main: File;
+    supplementary: File;
+    pairedBy: 'filename' | 'content';
+}
+
+export interface BatchPairResult {
+    pair: BatchFilePair;
+    projectCount: number;
+    error?: string;
+}
+
+export enum IssueSeverity {
+    Error = 'ERROR', // Chặn sinh báo cáo cho đến khi được sửa hoặc bỏ qua
+    Warning = 'WARNING',
+}
+
+export enum IssueCode {
+    MissingTv = 'MISSING_TV',
+    UnparsedNumber = 'UNPARSED_NUMBER',
+    BlankTopic = 'BLANK_TOPIC',
+    InvalidNumber = 'INVALID_NUMBER',
+    OutOfRange = 'OUT_OF_RANGE',
+    LikelyFraction = 'LIKELY_FRACTION',
+    DuplicateTopic = 'DUPLICATE_TOPIC',
+    MergedTopicBlocks = 'MERGED_TOPIC_BLOCKS', // Separate blocks of the main file merged into one project
+    DuplicateStudent = 'DUPLICATE_STUDENT',
+    StudentCount = 'STUDENT_COUNT',
+}
+
+export interface ValidationIssue {
+    id: string; // Stable across re-validation: row, field and code; each check reports a field of a row once
+    rowIndex: number;
+    field: string;
+    code: IssueCode;
+    severity: IssueSeverity;
+    message: string;
+    cell?: string;
+    value?: string | number;
+}
+
+// A tag or loop of a Word template, as found by services/templateInspector.ts.
+export interface TemplateTag {
+    name: string;
+    isLoop: boolean; // {#name}...{/name}
+    parent?: string; // The loop the tag sits in
+    count: number; // Occurrences in the template
+}
+
+export type TemplateIssueKind = 'syntax' | 'unknown' | 'misused' | 'split';
+
+export interface TemplateIssue {
+    kind: TemplateIssueKind;
+    severity: IssueSeverity; // Errors would make rendering fail; warnings give wrong or missing text
+    tag?: string;
+    message: string;
+}
+
+export interface TemplateInspection {
+    fileName: string;
+    tags: TemplateTag[];
+    issues: TemplateIssue[];
+    unusedFields: string[]; // Fields the generator provides that the template does not use
+}
+
+// A rendered report reduced to what the HTML preview shows: paragraphs with basic formatting, and tables.
+export interface PreviewRun {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+}
+
+export type PreviewBlock =
+    | { type: 'paragraph', align?: 'left' | 'center' | 'right' | 'justify', runs: PreviewRun[] }
+    | { type: 'table', rows: { cells: { colSpan: number, blocks: PreviewBlock[] }[] }[] };
+
+// Subfolders the reports are grouped into inside the ZIP.
+export type ReportFolderGrouping = 'none' | 'supervisor' | 'conclusion' | 'sheet';
+
+// How report files are named and arranged inside the ZIP.
+export interface ReportNaming {
+    pattern: string; // e.g. '{stt}_{hoten_hv}'; empty for the default '<prefix>_<number>' names
+    grouping: ReportFolderGrouping;
+    archiveFolders: boolean; // Each folder is packed as a ZIP of its own inside the download
+}
+
+export type MailRecipients = 'student' | 'supervisor';
+
+// The emails sent with the reports. Subject and body take the Word report's {placeholders}.
+export interface MailTemplate {
+    recipients: MailRecipients; // One email per report to its students, or one per supervisor with all their reports
+    sender: string; // From address; left out when empty, so the mail client fills in its own
+    subject: string;
+    body: string;
+}
+
+// A report that cannot be emailed because its recipients have no valid address.
+export interface MissingRecipient {
+    rowIndex: number;
+    recipient: string; // Student or supervisor name
+    tendetai: string;
+}
+
+// One issued report as recorded in the batch's integrity manifest.
+export interface ManifestEntry {
+    path: string; // Path of the report inside the ZIP, before any folder is packed
+    reportNumber: number;
+    reportLabel: string; // The number as printed, e.g. '015/BC-ĐBCL'
+    verificationCode: string;
+    student: string;
+    topic: string;
+    tv: number;
+    conclusion: ConclusionKey;
+    conclusionText: string; // The policy's text of the conclusion, as printed next to its box
+    sha256: string; // Hex SHA-256 of the generated .docx
+}
+
+// The integrity manifest added to the reports ZIP, signed with the signing key of the browser that issued it.
+export interface ReportManifest {
+    format: string;
+    version: number;
+    batchId: string;
+    issuedAt: string; // ISO timestamp
+    documentType: string;
+    checkRound: number;
+    checkDate: string;
+    policy: string;
+    reports: ManifestEntry[];
+    keyId?: string; // Fingerprint of the signing key
+    signature?: string; // Base64 HMAC-SHA-256 of the rest of the manifest
+}
+
+export type ManifestSignatureStatus = 'valid' | 'invalid' | 'unsigned' | 'otherKey';
+
+// 'authentic' needs a manifest signed with this browser's key: an unsigned or foreign manifest can be
+// rewritten along with the document, so a matching hash in it is only 'unverifiable'.
+export type ReportVerificationVerdict = 'authentic' | 'unverifiable' | 'modified' | 'notInManifest' | 'manifestTampered';
+
+export interface VerifiedField {
+    label: string;
+    expected: string; // The value issued, from the manifest
+    found: boolean; // Whether the document still shows it
+}
+
+export interface ReportVerification {
+    verdict: ReportVerificationVerdict;
+    signature: ManifestSignatureStatus;
+    keyId?: string;
+    entry?: ManifestEntry; // The manifest entry the document was matched to
+    hashMatches: boolean;
+    codeConsistent: boolean; // Whether the entry's verification code still matches its fields
+    fields: VerifiedField[];
+}
+
+// Jobs run off the main thread by services/processingWorker.ts.
+export type WorkerJob =
+    | { kind: 'merge', mainFile: File, suppFile: File, options: MergeOptions }
+    | { kind: 'batchMerge', pairs: BatchFilePair[], options: Pick<MergeOptions, 'topicFill' | 'suppLayout' | 'assessment' | 'policy' | 'format' | 'mappingProfiles' | 'faculty'> }
+    | { kind: 'readReportData', file: File, inspection?: ColumnInspection, sheetNames?: string[] }
+    | ({ kind: 'reports' } & GenerateReportsOptions);
+
+// What a batch of Word reports is generated from; see generateWordReports.
+export interface GenerateReportsOptions {
+    data: MergedData[];
+    templateFile: File;
+    policy: ConclusionPolicy; // The conclusion policy the reports are evaluated under
+    checkRound: number; // Starting at 1
+    checkDate: string; // ISO date of the check, from which resubmission deadlines are counted
+    calendar: WorkingCalendar; // The working days and holidays deadlines are counted in
+    documentType: string; // Id of the document type, as set in the template library or selected for an uploaded template
+    perStudent?: boolean; // One report per student instead of per project
+    histories?: RoundRecord[][]; // Each row's records in earlier check rounds, for the previous-round placeholders
+    naming?: ReportNaming; // Defaults to DEFAULT_REPORT_NAMING
+    summaryTemplateFile?: File | null; // Template of the batch summary document; the summary workbook is added either way
+    metadata?: BatchMetadata; // Defaults to DEFAULT_BATCH_METADATA
+    mail?: MailTemplate | null; // When given, ready-to-send .eml files are added
+    signingKey?: string | null; // Key the manifest of the batch is signed with
+}
+
+export interface WorkerJobResults {
+    merge: { data: MergedData[], buffer: ArrayBuffer, reconciliation: ReconciliationResult };
+    batchMerge: { data: MergedData[], buffer: ArrayBuffer, reconciliation: ReconciliationResult, results: BatchPairResult[] };
+    readReportData: MergedData[];
+    reports: Blob;
+}
+
+export type WorkerMessage =
+    | { type: 'log', message: string, logType: LogType }
+    | { type: 'progress', done: number, total: number }
+    | { type: 'done', result: WorkerJobResults[WorkerJob['kind']] }
+    | { type: 'error', message: string, name?: string };
+
+export interface JobProgress {
+    label: string;
+    done: number;
+    total: number;
+    startedAt: number; // Date.now() when the job started, for the time estimate
+}
+
+// One project as it stood in a saved check round.
+export interface RoundProjectRecord {
+    topicKey: string; // Normalized topic title
+    studentKey: string; // Normalized student names, sorted
+    tendetai: string;
+    hotenhv: string;
+    tv?: number;
+    chapters: { [chapterKey: string]: number }; // c1, c2, ...
+    conclusion: ConclusionKey;
+}
+
+// A batch of reports saved as a numbered check round.
+export interface CheckRound {
+    id: string;
+    round: number; // 1 for the first check, 2 for the resubmission, ...
+    date: string; // ISO date of the check
+    policyId: string;
+    policyVersion: number;
+    documentTypeId: string;
+    sources: string[]; // Files the batch was read from, to tell batches apart
+    projects: RoundProjectRecord[];
+    savedAt: string;
+}
+
+// A project's record in an earlier round, with the round it belongs to.
+export interface RoundRecord extends RoundProjectRecord {
+    round: number;
+    date: string;
+}